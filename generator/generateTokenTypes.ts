@@ -164,6 +164,7 @@ const types = {
   _enum: new KeywordTokenType("enum"),
   _type: new KeywordTokenType("type"),
   _implements: new KeywordTokenType("implements"),
+  _namespace: new KeywordTokenType("namespace"),
 };
 
 export default function generateTokenTypes(): string {
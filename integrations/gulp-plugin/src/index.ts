@@ -5,6 +5,7 @@ import {Options, transform} from "sucrase";
 import PluginError = require("plugin-error");
 import replaceExt = require("replace-ext");
 import through = require("through2");
+import applySourceMap = require("vinyl-sourcemaps-apply");
 
 const PLUGIN_NAME = "@sucrase/gulp-plugin";
 
@@ -27,9 +28,19 @@ function gulpSucrase(options: Options): Transform {
     }
 
     try {
-      const resultCode = transform(file.contents.toString(), {filePath: file.path, ...options});
-      file.contents = Buffer.from(resultCode);
-      file.path = replaceExt(file.path, ".js");
+      const compiledFilename = replaceExt(file.path, ".js");
+      // gulp-sourcemaps sets file.sourceMap when source maps are enabled.
+      const sourceMapOptions = file.sourceMap ? {compiledFilename} : undefined;
+      const {code, sourceMap} = transform(file.contents.toString(), {
+        filePath: file.path,
+        sourceMapOptions,
+        ...options,
+      });
+      file.contents = Buffer.from(code);
+      file.path = compiledFilename;
+      if (file.sourceMap && sourceMap) {
+        applySourceMap(file, sourceMap);
+      }
       this.push(file);
     } catch (e) {
       e.message = `Error when processing file ${file.path}: ${e.message}`;
@@ -0,0 +1,9 @@
+declare module "vinyl-sourcemaps-apply" {
+  /**
+   * Apply a source map for a transformation to a Vinyl file, combining it with the file's existing
+   * source map from earlier transformations.
+   */
+  // tslint:disable-next-line no-any
+  function applySourceMap(file: any, sourceMap: object | string): void;
+  export = applySourceMap;
+}
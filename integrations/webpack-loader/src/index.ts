@@ -1,11 +1,18 @@
 import {getOptions, getRemainingRequest} from "loader-utils";
 import {Options, transform} from "sucrase";
 
-function loader(code: string): string {
+function loader(code: string): void {
   const webpackRemainingChain = getRemainingRequest(this).split("!");
   const filePath = webpackRemainingChain[webpackRemainingChain.length - 1];
   const options: Options = getOptions(this) as Options;
-  return transform(code, {filePath, ...options});
+  // Webpack sets this.sourceMap when the devtool option needs source maps.
+  const sourceMapOptions = this.sourceMap ? {compiledFilename: filePath} : undefined;
+  const {code: transformedCode, sourceMap} = transform(code, {
+    filePath,
+    sourceMapOptions,
+    ...options,
+  });
+  this.callback(null, transformedCode, sourceMap);
 }
 
 export = loader;
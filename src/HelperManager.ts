@@ -0,0 +1,503 @@
+import NameManager from "./NameManager";
+
+export const HELPERS_MODULE_PATH = "sucrase/helpers";
+
+export type HelperName =
+  | "interopRequireWildcard"
+  | "interopRequireDefault"
+  | "importStar"
+  | "importDefault"
+  | "nodeInteropRequireWildcard"
+  | "decorate"
+  | "param"
+  | "metadata"
+  | "optionalChain"
+  | "asyncOptionalChain"
+  | "nullishCoalesce"
+  | "asyncNullishCoalesce"
+  | "extends"
+  | "objectWithoutProperties"
+  | "asyncToGenerator"
+  | "wrapAsyncGenerator"
+  | "awaitAsyncGenerator"
+  | "asyncIterator"
+  | "classPrivateFieldGet"
+  | "classPrivateFieldRef"
+  | "defineProperty"
+  | "importMetaUrl";
+
+// Local names to use for each helper, before resolving conflicts with names in the file.
+const HELPER_BASE_NAMES: {[name in HelperName]: string} = {
+  interopRequireWildcard: "_interopRequireWildcard",
+  interopRequireDefault: "_interopRequireDefault",
+  importStar: "__importStar",
+  importDefault: "__importDefault",
+  nodeInteropRequireWildcard: "_nodeInteropRequireWildcard",
+  decorate: "__decorate",
+  param: "__param",
+  metadata: "__metadata",
+  optionalChain: "_optionalChain",
+  asyncOptionalChain: "_asyncOptionalChain",
+  nullishCoalesce: "_nullishCoalesce",
+  asyncNullishCoalesce: "_asyncNullishCoalesce",
+  extends: "_extends",
+  objectWithoutProperties: "_objectWithoutProperties",
+  asyncToGenerator: "_asyncToGenerator",
+  wrapAsyncGenerator: "_wrapAsyncGenerator",
+  awaitAsyncGenerator: "_awaitAsyncGenerator",
+  asyncIterator: "_asyncIterator",
+  classPrivateFieldGet: "_classPrivateFieldGet",
+  classPrivateFieldRef: "_classPrivateFieldRef",
+  defineProperty: "_defineProperty",
+  importMetaUrl: "_importMetaUrl",
+};
+
+// Definitions of each helper for when it's inlined into the file. These need to stay in sync with
+// the runtime versions in helpers.ts.
+const HELPER_CODE_BY_NAME: {[name in HelperName]: (localName: string) => string} = {
+  interopRequireWildcard: (localName) => `
+    function ${localName}(obj) {
+      if (obj && obj.__esModule) {
+        return obj;
+      } else {
+        var newObj = {};
+        if (obj != null) {
+          for (var key in obj) {
+            if (Object.prototype.hasOwnProperty.call(obj, key))
+              newObj[key] = obj[key];
+            }
+          }
+        newObj.default = obj;
+        return newObj;
+      }
+    }`,
+  interopRequireDefault: (localName) => `
+    function ${localName}(obj) {
+      return obj && obj.__esModule ? obj : { default: obj };
+    }`,
+  importStar: (localName) => `
+    function ${localName}(mod) {
+      if (mod && mod.__esModule) return mod;
+      var result = {};
+      if (mod != null) for (var k in mod) if (Object.hasOwnProperty.call(mod, k)) result[k] = mod[k];
+      result["default"] = mod;
+      return result;
+    }`,
+  importDefault: (localName) => `
+    function ${localName}(mod) {
+      return (mod && mod.__esModule) ? mod : { "default": mod };
+    }`,
+  nodeInteropRequireWildcard: (localName) => `
+    function ${localName}(obj) {
+      var newObj = {};
+      if (obj != null) {
+        for (var key in obj) {
+          if (key !== "default" && Object.prototype.hasOwnProperty.call(obj, key)) {
+            newObj[key] = obj[key];
+          }
+        }
+      }
+      newObj.default = obj;
+      return newObj;
+    }`,
+  decorate: (localName) => `
+    function ${localName}(decorators, target, key, desc) {
+      var c = arguments.length;
+      var r = c < 3 ? target : desc === null ? desc = Object.getOwnPropertyDescriptor(target, key) : desc;
+      var d;
+      for (var i = decorators.length - 1; i >= 0; i--) {
+        if (d = decorators[i]) {
+          r = (c < 3 ? d(r) : c > 3 ? d(target, key, r) : d(target, key)) || r;
+        }
+      }
+      return c > 3 && r && Object.defineProperty(target, key, r), r;
+    }`,
+  param: (localName) => `
+    function ${localName}(paramIndex, decorator) {
+      return function (target, key) { decorator(target, key, paramIndex); };
+    }`,
+  metadata: (localName) => `
+    function ${localName}(metadataKey, metadataValue) {
+      if (typeof Reflect === "object" && typeof Reflect.metadata === "function") {
+        return Reflect.metadata(metadataKey, metadataValue);
+      }
+    }`,
+  optionalChain: (localName) => `
+    function ${localName}(ops) {
+      var lastAccessLHS = undefined;
+      var value = ops[0];
+      var i = 1;
+      while (i < ops.length) {
+        var op = ops[i];
+        var fn = ops[i + 1];
+        i += 2;
+        if ((op === 'optionalAccess' || op === 'optionalCall') && value == null) {
+          return undefined;
+        }
+        if (op === 'access' || op === 'optionalAccess') {
+          lastAccessLHS = value;
+          value = fn(value);
+        } else if (op === 'call' || op === 'optionalCall') {
+          value = fn((...args) => value.call(lastAccessLHS, ...args));
+          lastAccessLHS = undefined;
+        }
+      }
+      return value;
+    }`,
+  asyncOptionalChain: (localName) => `
+    function ${localName}(ops) {
+      var lastAccessLHS = undefined;
+      var value = ops[0];
+      var i = 1;
+      function next() {
+        if (i >= ops.length) {
+          return value;
+        }
+        var op = ops[i];
+        var fn = ops[i + 1];
+        i += 2;
+        if ((op === 'optionalAccess' || op === 'optionalCall') && value == null) {
+          return undefined;
+        }
+        var result;
+        if (op === 'access' || op === 'optionalAccess') {
+          lastAccessLHS = value;
+          result = fn(value);
+        } else if (op === 'call' || op === 'optionalCall') {
+          var callee = value;
+          var thisArg = lastAccessLHS;
+          result = fn((...args) => callee.call(thisArg, ...args));
+          lastAccessLHS = undefined;
+        }
+        return Promise.resolve(result).then(function (resultValue) {
+          value = resultValue;
+          return next();
+        });
+      }
+      return new Promise(function (resolve) {
+        resolve(next());
+      });
+    }`,
+  nullishCoalesce: (localName) => `
+    function ${localName}(lhs, rhsFn) {
+      if (lhs != null) {
+        return lhs;
+      } else {
+        return rhsFn();
+      }
+    }`,
+  asyncNullishCoalesce: (localName) => `
+    function ${localName}(lhs, rhsFn) {
+      return new Promise(function (resolve) {
+        resolve(lhs != null ? lhs : rhsFn());
+      });
+    }`,
+  extends: (localName) => `
+    function ${localName}(target) {
+      for (var i = 1; i < arguments.length; i++) {
+        var source = arguments[i];
+        for (var key in source) {
+          if (Object.prototype.hasOwnProperty.call(source, key)) {
+            target[key] = source[key];
+          }
+        }
+        if (source != null && Object.getOwnPropertySymbols) {
+          var symbols = Object.getOwnPropertySymbols(source);
+          for (var j = 0; j < symbols.length; j++) {
+            var symbol = symbols[j];
+            if (Object.prototype.propertyIsEnumerable.call(source, symbol)) {
+              target[symbol] = source[symbol];
+            }
+          }
+        }
+      }
+      return target;
+    }`,
+  objectWithoutProperties: (localName) => `
+    function ${localName}(obj, excludedKeys) {
+      var target = {};
+      var excluded = excludedKeys.map(function (key) {
+        return typeof key === "symbol" ? key : String(key);
+      });
+      for (var key in obj) {
+        if (excluded.indexOf(key) === -1 && Object.prototype.hasOwnProperty.call(obj, key)) {
+          target[key] = obj[key];
+        }
+      }
+      if (Object.getOwnPropertySymbols) {
+        var symbols = Object.getOwnPropertySymbols(obj);
+        for (var i = 0; i < symbols.length; i++) {
+          var symbol = symbols[i];
+          if (excluded.indexOf(symbol) === -1 && Object.prototype.propertyIsEnumerable.call(obj, symbol)) {
+            target[symbol] = obj[symbol];
+          }
+        }
+      }
+      return target;
+    }`,
+  asyncToGenerator: (localName) => `
+    function ${localName}(fn) {
+      return function () {
+        var self = this, args = arguments;
+        return new Promise(function (resolve, reject) {
+          var gen = fn.apply(self, args);
+          function step(key, arg) {
+            try {
+              var info = gen[key](arg);
+            } catch (error) {
+              reject(error);
+              return;
+            }
+            if (info.done) {
+              resolve(info.value);
+            } else {
+              Promise.resolve(info.value).then(next, throwError);
+            }
+          }
+          function next(value) {
+            step("next", value);
+          }
+          function throwError(error) {
+            step("throw", error);
+          }
+          next(undefined);
+        });
+      };
+    }`,
+  wrapAsyncGenerator: (localName) => `
+    function ${localName}(fn) {
+      return function () {
+        var gen = fn.apply(this, arguments);
+        var requests = [];
+        function send(key, arg) {
+          return new Promise(function (resolve, reject) {
+            requests.push({key: key, arg: arg, resolve: resolve, reject: reject});
+            if (requests.length === 1) {
+              resume(key, arg);
+            }
+          });
+        }
+        function resume(key, arg) {
+          try {
+            var info = gen[key](arg);
+          } catch (error) {
+            settle(true, error);
+            return;
+          }
+          var value = info.value;
+          var isAwait = value != null && Object.prototype.hasOwnProperty.call(value, "__await");
+          Promise.resolve(isAwait ? value.__await : value).then(function (resolvedValue) {
+            if (isAwait) {
+              resume("next", resolvedValue);
+            } else {
+              settle(false, {value: resolvedValue, done: info.done});
+            }
+          }, function (error) {
+            resume("throw", error);
+          });
+        }
+        function settle(isError, result) {
+          var request = requests.shift();
+          if (isError) {
+            request.reject(result);
+          } else {
+            request.resolve(result);
+          }
+          if (requests.length > 0) {
+            resume(requests[0].key, requests[0].arg);
+          }
+        }
+        var asyncGen = {
+          next: function (value) {
+            return send("next", value);
+          },
+          throw: function (value) {
+            return send("throw", value);
+          },
+          return: function (value) {
+            return send("return", value);
+          },
+        };
+        asyncGen[(typeof Symbol === "function" && Symbol.asyncIterator) || "@@asyncIterator"] =
+          function () {
+            return this;
+          };
+        return asyncGen;
+      };
+    }`,
+  awaitAsyncGenerator: (localName) => `
+    function ${localName}(value) {
+      return {__await: value};
+    }`,
+  asyncIterator: (localName) => `
+    function ${localName}(iterable) {
+      var method = iterable[(typeof Symbol === "function" && Symbol.asyncIterator) || "@@asyncIterator"];
+      if (method != null) {
+        return method.call(iterable);
+      }
+      method = typeof Symbol === "function" ? iterable[Symbol.iterator] : null;
+      if (method == null) {
+        throw new TypeError("Object is not async iterable");
+      }
+      var iterator = method.call(iterable);
+      function wrap(result) {
+        return Promise.resolve(result.value).then(function (value) {
+          return {value: value, done: result.done};
+        });
+      }
+      return {
+        next: function (value) {
+          return wrap(iterator.next(value));
+        },
+        return: iterator.return && function (value) {
+          return wrap(iterator.return(value));
+        },
+      };
+    }`,
+  classPrivateFieldGet: (localName) => `
+    function ${localName}(receiver, privateMap) {
+      if (!privateMap.has(receiver)) {
+        throw new TypeError("attempted to get private field on non-instance");
+      }
+      var descriptor = privateMap.get(receiver);
+      return descriptor.get ? descriptor.get.call(receiver) : descriptor.value;
+    }`,
+  classPrivateFieldRef: (localName) => `
+    function ${localName}(receiver, privateMap) {
+      if (!privateMap.has(receiver)) {
+        throw new TypeError("attempted to use private field on non-instance");
+      }
+      var descriptor = privateMap.get(receiver);
+      return {
+        get value() {
+          return descriptor.get ? descriptor.get.call(receiver) : descriptor.value;
+        },
+        set value(value) {
+          if (descriptor.set) {
+            descriptor.set.call(receiver, value);
+          } else if (descriptor.writable) {
+            descriptor.value = value;
+          } else {
+            throw new TypeError("attempted to set read only private field");
+          }
+        },
+      };
+    }`,
+  defineProperty: (localName) => `
+    function ${localName}(obj, key, value) {
+      Object.defineProperty(obj, key, {
+        value: value,
+        enumerable: true,
+        configurable: true,
+        writable: true,
+      });
+    }`,
+  importMetaUrl: (localName) => `
+    function ${localName}(module) {
+      if (typeof module.uri === "string") {
+        return typeof document === "undefined"
+          ? module.uri
+          : new URL(module.uri, document.baseURI).href;
+      }
+      if (typeof module.filename !== "string") {
+        throw new Error("import.meta.url is only available in Node and AMD modules.");
+      }
+      var url = require("url");
+      if (url.pathToFileURL) {
+        return url.pathToFileURL(module.filename).href;
+      }
+      var path = module.filename.replace(/\\\\/g, "/");
+      return "file://" + (path[0] === "/" ? "" : "/") +
+        encodeURI(path).replace(/[?#]/g, encodeURIComponent);
+    }`,
+};
+
+export type HelperImportStyle = "commonjs" | "esm" | "system";
+
+/**
+ * Class responsible for the helper functions used by the transformed code, like
+ * `_interopRequireDefault` and `__decorate`. Normally each helper is defined inline in every file
+ * that uses it. With the importHelpers option, helpers are instead imported from the
+ * `sucrase/helpers` runtime module so that their code isn't duplicated across files.
+ */
+export default class HelperManager {
+  private helperNames: Map<HelperName, string> = new Map();
+
+  constructor(
+    readonly nameManager: NameManager,
+    readonly importHelpers: boolean,
+    readonly importStyle: HelperImportStyle,
+  ) {}
+
+  /**
+   * Get the local name of a helper, claiming one the first time the helper is used.
+   */
+  getHelperName(helperName: HelperName): string {
+    let localName = this.helperNames.get(helperName);
+    if (!localName) {
+      localName = this.nameManager.claimFreeName(HELPER_BASE_NAMES[helperName]);
+      this.helperNames.set(helperName, localName);
+    }
+    return localName;
+  }
+
+  /**
+   * Get the code to define or import the given helpers, skipping any that weren't used. The code
+   * is a single line so that line numbers are preserved. For SystemJS modules, imported helpers are
+   * assigned by a setter function in the module wrapper instead.
+   */
+  emitHelpers(helperNames: Array<HelperName>): string {
+    const usedHelperNames = helperNames.filter((helperName) => this.helperNames.has(helperName));
+    if (usedHelperNames.length === 0) {
+      return "";
+    }
+    if (!this.importHelpers) {
+      return usedHelperNames
+        .map((helperName) =>
+          HELPER_CODE_BY_NAME[helperName](this.helperNames.get(helperName)!).replace(/\s+/g, " "),
+        )
+        .join("");
+    }
+    if (this.importStyle === "esm") {
+      const specifiersCode = usedHelperNames
+        .map((helperName) => `${helperName} as ${this.helperNames.get(helperName)}`)
+        .join(", ");
+      return ` import {${specifiersCode}} from "${HELPERS_MODULE_PATH}";`;
+    } else if (this.importStyle === "commonjs") {
+      const requireCode = `require("${HELPERS_MODULE_PATH}")`;
+      return usedHelperNames
+        .map(
+          (helperName) =>
+            ` var ${this.helperNames.get(helperName)} = ${requireCode}.${helperName};`,
+        )
+        .join("");
+    } else {
+      return "";
+    }
+  }
+
+  /**
+   * Return true if the transformed code imports anything from the runtime helpers module, so it
+   * needs to be listed as a dependency in AMD, UMD, and SystemJS output.
+   */
+  hasImportedHelpers(): boolean {
+    return this.importHelpers && this.helperNames.size > 0;
+  }
+
+  /**
+   * Get the local names of all helpers imported from the runtime helpers module.
+   */
+  getImportedHelperNames(): Array<string> {
+    return this.importHelpers ? [...this.helperNames.values()] : [];
+  }
+
+  /**
+   * Get the setter function that assigns the imported helpers in a SystemJS module.
+   */
+  getSystemSetterCode(): string {
+    const assignmentsCode = [...this.helperNames.entries()]
+      .map(([helperName, localName]) => ` ${localName} = _m.${helperName};`)
+      .join("");
+    return `function (_m) {${assignmentsCode} }`;
+  }
+}
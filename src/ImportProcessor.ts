@@ -1,7 +1,13 @@
-import {ContextualKeyword, IdentifierRole} from "../sucrase-babylon/tokenizer";
+import {ContextualKeyword} from "../sucrase-babylon/tokenizer";
 import {TokenType as tt} from "../sucrase-babylon/tokenizer/types";
+import HelperManager, {HelperName} from "./HelperManager";
+import {ImportInterop} from "./index";
 import NameManager from "./NameManager";
 import TokenProcessor from "./TokenProcessor";
+import {JSXPragmaInfo} from "./util/getJSXPragmaInfo";
+import getNonTypeIdentifiers from "./util/getNonTypeIdentifiers";
+import getStringLiteralValue from "./util/getStringLiteralValue";
+import getVariableDeclarators from "./util/getVariableDeclarators";
 
 type NamedImport = {
   importedName: string;
@@ -13,6 +19,8 @@ type ImportInfo = {
   wildcardNames: Array<string>;
   namedImports: Array<NamedImport>;
   namedExports: Array<NamedImport>;
+  // Names from `export v from 'foo';`, which exports the default export of 'foo' as `v`.
+  exportDefaultNames: Array<string>;
   hasBareImport: boolean;
   exportStarNames: Array<string>;
   hasStarExport: boolean;
@@ -22,59 +30,85 @@ type ImportInfo = {
  * Class responsible for preprocessing and bookkeeping import and export declarations within the
  * file.
  *
- * TypeScript uses a simpler mechanism that does not use functions like interopRequireDefault and
- * interopRequireWildcard, so we also allow that mode for compatibility.
+ * Default and namespace imports of CommonJS modules are resolved according to the importInterop
+ * option. For example, Babel wraps the module with functions like interopRequireDefault and
+ * interopRequireWildcard, while TypeScript (without esModuleInterop) uses the module as-is.
  */
 export default class ImportProcessor {
   private importInfoByPath: Map<string, ImportInfo> = new Map();
   private importsToReplace: Map<string, string> = new Map();
   private identifierReplacements: Map<string, string> = new Map();
-  private exportBindingsByLocalName: Map<string, string> = new Map();
-
-  private interopRequireWildcardName: string;
-  private interopRequireDefaultName: string;
+  // Local names of imported bindings that are accessed through lazy accessors.
+  private lazyImportNames: Set<string> = new Set();
+  private exportBindingsByLocalName: Map<string, Array<string>> = new Map();
+  private typeOnlyImportPaths: Set<string> = new Set();
+  // Paths from TypeScript `import foo = require('foo');` statements.
+  private importEqualsPaths: Array<string> = [];
+  // Paths of modules required by code that other transformers generate, like the JSX runtime.
+  private generatedRequirePaths: Array<string> = [];
+
+  // For SystemJS output, the code for the setter function of each import path, along with the
+  // variables that the setter assigns.
+  private systemSetterCodeByPath: Map<string, string> = new Map();
+  private systemVariableNamesByPath: Map<string, Array<string>> = new Map();
+  private systemExportedImportNames: Set<string> = new Set();
+
+  // Names of the parameters of the System.register declaration function.
+  systemExportName: string;
+  systemContextName: string;
+  // Name of the generator that runs the module body when it needs to start in the declaration
+  // phase, to export hoisted functions.
+  systemBodyName: string;
 
   constructor(
     readonly nameManager: NameManager,
+    readonly helperManager: HelperManager,
     readonly tokens: TokenProcessor,
-    readonly isTypeScript: boolean,
+    readonly importInterop: ImportInterop,
+    readonly isSystemModule: boolean,
+    readonly rewriteImportPath: (path: string) => string,
+    readonly shouldImportLazily: (path: string) => boolean,
   ) {}
 
   getPrefixCode(): string {
-    if (this.isTypeScript) {
-      return "";
-    }
-    let prefix = "";
-    prefix += `
-      function ${this.interopRequireWildcardName}(obj) {
-        if (obj && obj.__esModule) {
-          return obj;
-        } else {
-          var newObj = {};
-          if (obj != null) {
-            for (var key in obj) {
-              if (Object.prototype.hasOwnProperty.call(obj, key))
-                newObj[key] = obj[key];
-              }
-            }
-          newObj.default = obj;
-          return newObj;
-        }
-      }`.replace(/\s+/g, " ");
-    prefix += `
-      function ${this.interopRequireDefaultName}(obj) {
-        return obj && obj.__esModule ? obj : { default: obj };
-      }`.replace(/\s+/g, " ");
-    return prefix;
+    return this.helperManager.emitHelpers([
+      "interopRequireWildcard",
+      "interopRequireDefault",
+      "importStar",
+      "importDefault",
+      "nodeInteropRequireWildcard",
+      "importMetaUrl",
+    ]);
   }
 
   preprocessTokens(): void {
-    if (!this.isTypeScript) {
-      this.interopRequireWildcardName = this.nameManager.claimFreeName("_interopRequireWildcard");
-      this.interopRequireDefaultName = this.nameManager.claimFreeName("_interopRequireDefault");
+    if (this.isSystemModule) {
+      this.systemExportName = this.nameManager.claimFreeName("_export");
+      this.systemContextName = this.nameManager.claimFreeName("_context");
+      this.systemBodyName = this.nameManager.claimFreeName("_body");
+    } else if (this.importInterop === "babel" && !this.helperManager.importHelpers) {
+      // Inline Babel interop helpers are always defined, but other helpers are only added when
+      // used.
+      this.helperManager.getHelperName("interopRequireWildcard");
+      this.helperManager.getHelperName("interopRequireDefault");
     }
 
     for (let i = 0; i < this.tokens.tokens.length; i++) {
+      if (this.tokens.matchesAtIndex(i, [tt._namespace])) {
+        // Exports within a TypeScript namespace are properties on the namespace object, not module
+        // exports, so skip to the end of the namespace.
+        i = this.getNamespaceEndIndex(i);
+        continue;
+      }
+      if (
+        this.tokens.matchesAtIndex(
+          i,
+          [tt._import, tt.name, tt.eq, tt.name, tt.parenL, tt.string],
+        ) &&
+        this.tokens.matchesContextualAtIndex(i + 3, ContextualKeyword._require)
+      ) {
+        this.importEqualsPaths.push(this.getPathAtIndex(i + 5));
+      }
       if (
         this.tokens.matchesAtIndex(i, [tt._import]) &&
         !this.tokens.matchesAtIndex(i, [tt._import, tt.name, tt.eq])
@@ -95,25 +129,15 @@ export default class ImportProcessor {
    * In TypeScript, import statements that only import types should be removed. This does not count
    * bare imports.
    */
-  pruneTypeOnlyImports(): void {
-    const nonTypeIdentifiers: Set<string> = new Set();
-    for (const token of this.tokens.tokens) {
-      if (
-        token.type === tt.name &&
-        !token.isType &&
-        (token.identifierRole === IdentifierRole.Access ||
-          token.identifierRole === IdentifierRole.ObjectShorthand ||
-          token.identifierRole === IdentifierRole.ExportAccess)
-      ) {
-        nonTypeIdentifiers.add(this.tokens.identifierNameForToken(token));
-      }
-    }
+  pruneTypeOnlyImports(jsxPragmaInfo: JSXPragmaInfo): void {
+    const nonTypeIdentifiers = getNonTypeIdentifiers(this.tokens, jsxPragmaInfo);
     for (const [path, importInfo] of this.importInfoByPath.entries()) {
       if (
         importInfo.hasBareImport ||
         importInfo.hasStarExport ||
         importInfo.exportStarNames.length > 0 ||
-        importInfo.namedExports.length > 0
+        importInfo.namedExports.length > 0 ||
+        importInfo.exportDefaultNames.length > 0
       ) {
         continue;
       }
@@ -124,17 +148,100 @@ export default class ImportProcessor {
       ];
       if (names.every((name) => !nonTypeIdentifiers.has(name))) {
         this.importsToReplace.set(path, "");
+        this.typeOnlyImportPaths.add(path);
       }
     }
   }
 
+  /**
+   * Get the paths of all modules loaded by this file, for use as the dependency list of an AMD,
+   * UMD, or SystemJS module. Imports that were removed for only importing types are not included.
+   */
+  getDependencyPaths(): Array<string> {
+    return this.getRuntimeImportPaths().map((path) => this.rewriteImportPath(path));
+  }
+
+  /**
+   * Record that code generated outside of the file's imports calls `require` on the given path, so
+   * that the module is listed as a dependency of an AMD or UMD module. The path is used as-is,
+   * without rewriting.
+   */
+  addGeneratedRequirePath(path: string): void {
+    if (!this.generatedRequirePaths.includes(path)) {
+      this.generatedRequirePaths.push(path);
+    }
+  }
+
+  getGeneratedRequirePaths(): Array<string> {
+    return this.generatedRequirePaths;
+  }
+
+  /**
+   * Get the string literal for an import path in a require call. Paths that are rewritten or that
+   * need escaping are quoted like JSON, and other paths are single-quoted.
+   */
+  private getRequirePathCode(path: string): string {
+    const newPath = this.rewriteImportPath(path);
+    return newPath === path && !/['\\\n\r\u2028\u2029]/.test(path)
+      ? `'${path}'`
+      : JSON.stringify(newPath);
+  }
+
+  /**
+   * Get the import path in the string literal at the given index, with any escapes processed.
+   */
+  getPathAtIndex(index: number): string {
+    return getStringLiteralValue(this.tokens, this.tokens.tokens[index]);
+  }
+
+  /**
+   * Get the paths of all runtime imports as written in the file, before any rewriting.
+   */
+  private getRuntimeImportPaths(): Array<string> {
+    const paths = [...this.importInfoByPath.keys()].filter(
+      (path) => !this.typeOnlyImportPaths.has(path),
+    );
+    for (const path of this.importEqualsPaths) {
+      if (!paths.includes(path)) {
+        paths.push(path);
+      }
+    }
+    return paths;
+  }
+
+  /**
+   * Get the setter functions for a SystemJS module, in the same order as getDependencyPaths.
+   */
+  getSystemSetterCodes(): Array<string> {
+    return this.getRuntimeImportPaths().map(
+      (path) => this.systemSetterCodeByPath.get(path) || "function () {}",
+    );
+  }
+
+  /**
+   * Get the variables that need to be declared outside the SystemJS execute function so that the
+   * setter functions can assign them.
+   */
+  getSystemVariableNames(): Array<string> {
+    const names = [];
+    for (const path of this.getRuntimeImportPaths()) {
+      names.push(...(this.systemVariableNamesByPath.get(path) || []));
+    }
+    return names;
+  }
+
   private generateImportReplacements(): void {
+    if (this.isSystemModule) {
+      this.generateSystemImportReplacements();
+      return;
+    }
     for (const [path, importInfo] of this.importInfoByPath.entries()) {
       const {
         defaultNames,
         wildcardNames,
         namedImports,
         namedExports,
+        exportDefaultNames,
         exportStarNames,
         hasStarExport,
       } = importInfo;
@@ -144,46 +251,60 @@ export default class ImportProcessor {
         wildcardNames.length === 0 &&
         namedImports.length === 0 &&
         namedExports.length === 0 &&
+        exportDefaultNames.length === 0 &&
         exportStarNames.length === 0 &&
         !hasStarExport
       ) {
         // Import is never used, so don't even assign a name.
-        this.importsToReplace.set(path, `require('${path}');`);
+        this.importsToReplace.set(path, `require(${this.getRequirePathCode(path)});`);
+        continue;
+      }
+
+      if (this.shouldImportLazily(path) && this.canImportLazily(importInfo)) {
+        this.generateLazyImportReplacement(path, importInfo);
         continue;
       }
 
       const primaryImportName = this.getFreeIdentifierForPath(path);
+      const wildcardHelper = this.getWildcardInteropHelper();
+      const defaultHelper = this.getDefaultInteropHelper();
       let secondaryImportName;
-      if (this.isTypeScript) {
+      if (wildcardHelper === null) {
         secondaryImportName = primaryImportName;
       } else {
         secondaryImportName =
           wildcardNames.length > 0 ? wildcardNames[0] : this.getFreeIdentifierForPath(path);
       }
-      let requireCode = `var ${primaryImportName} = require('${path}');`;
+      let requireCode = `var ${primaryImportName} = require(${this.getRequirePathCode(path)});`;
       if (wildcardNames.length > 0) {
         for (const wildcardName of wildcardNames) {
-          const moduleExpr = this.isTypeScript
-            ? primaryImportName
-            : `${this.interopRequireWildcardName}(${primaryImportName})`;
+          const moduleExpr = wildcardHelper
+            ? `${this.helperManager.getHelperName(wildcardHelper)}(${primaryImportName})`
+            : primaryImportName;
           requireCode += ` var ${wildcardName} = ${moduleExpr};`;
         }
-      } else if (exportStarNames.length > 0 && secondaryImportName !== primaryImportName) {
-        requireCode += ` var ${secondaryImportName} = ${
-          this.interopRequireWildcardName
-        }(${primaryImportName});`;
-      } else if (defaultNames.length > 0 && secondaryImportName !== primaryImportName) {
-        requireCode += ` var ${secondaryImportName} = ${
-          this.interopRequireDefaultName
-        }(${primaryImportName});`;
+      } else if (exportStarNames.length > 0 && wildcardHelper) {
+        requireCode += ` var ${secondaryImportName} = ${this.helperManager.getHelperName(
+          wildcardHelper,
+        )}(${primaryImportName});`;
+      } else if ((defaultNames.length > 0 || exportDefaultNames.length > 0) && defaultHelper) {
+        requireCode += ` var ${secondaryImportName} = ${this.helperManager.getHelperName(
+          defaultHelper,
+        )}(${primaryImportName});`;
       }
 
       for (const {importedName, localName} of namedExports) {
         requireCode += ` Object.defineProperty(exports, '${localName}', \
-{enumerable: true, get: () => ${primaryImportName}.${importedName}});`;
+{enumerable: true, get: () => ${this.getNamedImportCode(primaryImportName, importedName)}});`;
+      }
+      const defaultCode = this.getDefaultImportCode(primaryImportName, secondaryImportName);
+      for (const exportDefaultName of exportDefaultNames) {
+        requireCode += ` Object.defineProperty(exports, '${exportDefaultName}', \
+{enumerable: true, get: () => ${defaultCode}});`;
       }
       for (const exportStarName of exportStarNames) {
-        requireCode += ` exports.${exportStarName} = ${secondaryImportName};`;
+        requireCode += ` Object.defineProperty(exports, '${exportStarName}', \
+{enumerable: true, get: () => ${secondaryImportName}});`;
       }
       if (hasStarExport) {
         // Note that TypeScript and Babel do this differently; TypeScript does a simple existence
@@ -200,15 +321,260 @@ get: () => ${primaryImportName}[key]}); });`;
       this.importsToReplace.set(path, requireCode);
 
       for (const defaultName of defaultNames) {
-        this.identifierReplacements.set(defaultName, `${secondaryImportName}.default`);
+        this.identifierReplacements.set(defaultName, defaultCode);
       }
       for (const {importedName, localName} of namedImports) {
-        this.identifierReplacements.set(localName, `${primaryImportName}.${importedName}`);
+        this.identifierReplacements.set(
+          localName,
+          this.getNamedImportCode(primaryImportName, importedName),
+        );
       }
     }
   }
 
-  private getFreeIdentifierForPath(path: string): string {
+  /**
+   * Imports can only be lazy if the imported module is only used through imported bindings. Bare
+   * imports and reexports need the module to be evaluated right away.
+   */
+  private canImportLazily(importInfo: ImportInfo): boolean {
+    return (
+      !importInfo.hasBareImport &&
+      !importInfo.hasStarExport &&
+      importInfo.exportStarNames.length === 0 &&
+      importInfo.namedExports.length === 0 &&
+      importInfo.exportDefaultNames.length === 0
+    );
+  }
+
+  /**
+   * For lazy imports, replace the import with memoized accessor functions that require the module
+   * on first use, like this:
+   * function _foo() { const data = require('foo'); _foo = function () { return data; }; return data; }
+   *
+   * Each access to an imported binding then calls the accessor, e.g. `_foo().bar`.
+   */
+  private generateLazyImportReplacement(path: string, importInfo: ImportInfo): void {
+    const {defaultNames, wildcardNames, namedImports} = importInfo;
+    const primaryAccessorName = this.getFreeIdentifierForPath(path);
+    let importCode = this.getLazyAccessorCode(
+      primaryAccessorName,
+      `require(${this.getRequirePathCode(path)})`,
+    );
+
+    let interopHelper: HelperName | null = null;
+    if (wildcardNames.length > 0) {
+      interopHelper = this.getWildcardInteropHelper();
+    } else if (defaultNames.length > 0) {
+      interopHelper = this.getDefaultInteropHelper();
+    }
+    let secondaryAccessorName = primaryAccessorName;
+    if (interopHelper) {
+      secondaryAccessorName = this.getFreeIdentifierForPath(path);
+      importCode += ` ${this.getLazyAccessorCode(
+        secondaryAccessorName,
+        `${this.helperManager.getHelperName(interopHelper)}(${primaryAccessorName}())`,
+      )}`;
+    }
+    this.importsToReplace.set(path, importCode);
+
+    for (const wildcardName of wildcardNames) {
+      this.identifierReplacements.set(wildcardName, `${secondaryAccessorName}()`);
+      this.lazyImportNames.add(wildcardName);
+    }
+    const defaultCode = this.getDefaultImportCode(
+      `${primaryAccessorName}()`,
+      `${secondaryAccessorName}()`,
+    );
+    for (const defaultName of defaultNames) {
+      this.identifierReplacements.set(defaultName, defaultCode);
+      this.lazyImportNames.add(defaultName);
+    }
+    for (const {importedName, localName} of namedImports) {
+      this.identifierReplacements.set(
+        localName,
+        this.getNamedImportCode(`${primaryAccessorName}()`, importedName),
+      );
+      this.lazyImportNames.add(localName);
+    }
+  }
+
+  private getLazyAccessorCode(accessorName: string, valueCode: string): string {
+    return `function ${accessorName}() { const data = ${valueCode}; \
+${accessorName} = function () { return data; }; return data; }`;
+  }
+
+  /**
+   * Get the helper that converts a required module to a namespace object, or null if the module
+   * is used as the namespace object directly.
+   */
+  private getWildcardInteropHelper(): HelperName | null {
+    switch (this.importInterop) {
+      case "babel":
+        return "interopRequireWildcard";
+      case "esModuleInterop":
+        return "importStar";
+      case "node":
+        return "nodeInteropRequireWildcard";
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Get the helper that converts a required module to an object with a default property, or null
+   * if no conversion is needed.
+   */
+  private getDefaultInteropHelper(): HelperName | null {
+    switch (this.importInterop) {
+      case "babel":
+        return "interopRequireDefault";
+      case "esModuleInterop":
+        return "importDefault";
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Get the code to access the default import of a module, given the expressions for the required
+   * module and for the result of the interop helper.
+   */
+  private getDefaultImportCode(primaryImportCode: string, secondaryImportCode: string): string {
+    return this.importInterop === "node" ? primaryImportCode : `${secondaryImportCode}.default`;
+  }
+
+  /**
+   * Get the code to access a named import from a required module. With Node interop, importing
+   * `default` gets the module itself.
+   */
+  private getNamedImportCode(primaryImportName: string, importedName: string): string {
+    if (this.importInterop === "node" && importedName === "default") {
+      return primaryImportName;
+    }
+    return `${primaryImportName}.${importedName}`;
+  }
+
+  /**
+   * For SystemJS output, import statements are removed entirely, and each import path instead gets
+   * a setter function that receives the module namespace object, like this:
+   * function (_m) { _foo = _m; ns = _m; _export("x", _m.y); }
+   *
+   * Default and named imports become accesses on the namespace object, so they stay live.
+   */
+  private generateSystemImportReplacements(): void {
+    const moduleName = this.nameManager.claimFreeName("_m");
+    for (const [path, importInfo] of this.importInfoByPath.entries()) {
+      const {
+        defaultNames,
+        wildcardNames,
+        namedImports,
+        namedExports,
+        exportDefaultNames,
+        exportStarNames,
+        hasStarExport,
+      } = importInfo;
+      this.importsToReplace.set(path, "");
+
+      const variableNames = [];
+      const setterStatements = [];
+      if (defaultNames.length > 0 || namedImports.length > 0) {
+        const primaryImportName = this.getFreeIdentifierForPath(path);
+        variableNames.push(primaryImportName);
+        setterStatements.push(`${primaryImportName} = ${moduleName};`);
+        for (const defaultName of defaultNames) {
+          this.identifierReplacements.set(defaultName, `${primaryImportName}.default`);
+          this.addSystemImportExports(setterStatements, defaultName, `${moduleName}.default`);
+        }
+        for (const {importedName, localName} of namedImports) {
+          this.identifierReplacements.set(localName, `${primaryImportName}.${importedName}`);
+          this.addSystemImportExports(setterStatements, localName, `${moduleName}.${importedName}`);
+        }
+      }
+      for (const wildcardName of wildcardNames) {
+        variableNames.push(wildcardName);
+        setterStatements.push(`${wildcardName} = ${moduleName};`);
+        this.addSystemImportExports(setterStatements, wildcardName, moduleName);
+      }
+      for (const {importedName, localName} of namedExports) {
+        setterStatements.push(
+          `${this.systemExportName}("${localName}", ${moduleName}.${importedName});`,
+        );
+      }
+      for (const exportDefaultName of exportDefaultNames) {
+        setterStatements.push(
+          `${this.systemExportName}("${exportDefaultName}", ${moduleName}.default);`,
+        );
+      }
+      for (const exportStarName of exportStarNames) {
+        setterStatements.push(`${this.systemExportName}("${exportStarName}", ${moduleName});`);
+      }
+      if (hasStarExport) {
+        setterStatements.push(
+          `var exportObj = {}; for (var key in ${moduleName}) { \
+if (key !== 'default' && key !== '__esModule') exportObj[key] = ${moduleName}[key]; } \
+${this.systemExportName}(exportObj);`,
+        );
+      }
+
+      this.systemVariableNamesByPath.set(path, variableNames);
+      this.systemSetterCodeByPath.set(
+        path,
+        setterStatements.length > 0
+          ? `function (${moduleName}) { ${setterStatements.join(" ")} }`
+          : "function () {}",
+      );
+    }
+  }
+
+  /**
+   * Add setter statements to export an imported binding if it's exported with `export {...}`, so
+   * that the export is updated along with the import.
+   */
+  private addSystemImportExports(
+    setterStatements: Array<string>,
+    localName: string,
+    valueCode: string,
+  ): void {
+    const exportedNames = this.resolveExportBindings(localName);
+    for (const exportedName of exportedNames) {
+      setterStatements.push(`${this.systemExportName}("${exportedName}", ${valueCode});`);
+    }
+    if (exportedNames.length > 0) {
+      this.systemExportedImportNames.add(localName);
+    }
+  }
+
+  /**
+   * Return true if this is an imported binding in a SystemJS module whose exports are updated by
+   * the setter functions rather than by `export {...}` statements.
+   */
+  isSystemExportedImportName(localName: string): boolean {
+    return this.systemExportedImportNames.has(localName);
+  }
+
+  private getNamespaceEndIndex(namespaceIndex: number): number {
+    let index = namespaceIndex;
+    while (!this.tokens.matchesAtIndex(index, [tt.braceL])) {
+      index++;
+    }
+    let depth = 0;
+    for (; index < this.tokens.tokens.length; index++) {
+      if (
+        this.tokens.matchesAtIndex(index, [tt.braceL]) ||
+        this.tokens.matchesAtIndex(index, [tt.dollarBraceL])
+      ) {
+        depth++;
+      } else if (this.tokens.matchesAtIndex(index, [tt.braceR])) {
+        depth--;
+        if (depth === 0) {
+          break;
+        }
+      }
+    }
+    return index;
+  }
+
+  getFreeIdentifierForPath(path: string): string {
     const components = path.split("/");
     const lastComponent = components[components.length - 1];
     const baseName = lastComponent.replace(/\W/g, "");
@@ -263,7 +629,7 @@ get: () => ${primaryImportName}[key]}); });`;
     if (!this.tokens.matchesAtIndex(index, [tt.string])) {
       throw new Error("Expected string token at the end of import statement.");
     }
-    const path = this.tokens.stringValueAtIndex(index);
+    const path = this.getPathAtIndex(index);
     const importInfo = this.getImportInfo(path);
     importInfo.defaultNames.push(...defaultNames);
     importInfo.wildcardNames.push(...wildcardNames);
@@ -279,21 +645,32 @@ get: () => ${primaryImportName}[key]}); });`;
       this.tokens.matchesAtIndex(index, [tt._export, tt._let]) ||
       this.tokens.matchesAtIndex(index, [tt._export, tt._const])
     ) {
-      const exportName = this.tokens.identifierNameAtIndex(index + 2);
-      this.identifierReplacements.set(exportName, `exports.${exportName}`);
+      for (const {names} of getVariableDeclarators(this.tokens, index + 2)) {
+        for (const exportName of names) {
+          if (this.isSystemModule) {
+            // SystemJS exports are updated through function calls, so the binding stays local.
+            this.addExportBinding(exportName, exportName);
+          } else {
+            this.identifierReplacements.set(exportName, `exports.${exportName}`);
+          }
+        }
+      }
     } else if (
       this.tokens.matchesAtIndex(index, [tt._export, tt._function]) ||
       this.tokens.matchesAtIndex(index, [tt._export, tt._class])
     ) {
       const exportName = this.tokens.identifierNameAtIndex(index + 2);
-      this.exportBindingsByLocalName.set(exportName, exportName);
+      this.addExportBinding(exportName, exportName);
     } else if (this.tokens.matchesAtIndex(index, [tt._export, tt.name, tt._function])) {
       const exportName = this.tokens.identifierNameAtIndex(index + 3);
-      this.exportBindingsByLocalName.set(exportName, exportName);
+      this.addExportBinding(exportName, exportName);
     } else if (this.tokens.matchesAtIndex(index, [tt._export, tt.braceL])) {
       this.preprocessNamedExportAtIndex(index);
-    } else if (this.tokens.matchesAtIndex(index, [tt._export, tt.star])) {
-      this.preprocessExportStarAtIndex(index);
+    } else if (
+      this.tokens.matchesAtIndex(index, [tt._export, tt.star]) ||
+      this.isExportDefaultSpecifierAtIndex(index)
+    ) {
+      this.preprocessExportFromAtIndex(index);
     }
   }
 
@@ -313,7 +690,7 @@ get: () => ${primaryImportName}[key]}); });`;
     } else {
       // Reinterpret "a as b" to be local/exported rather than imported/local.
       for (const {importedName: localName, localName: exportedName} of namedImports) {
-        this.exportBindingsByLocalName.set(localName, exportedName);
+        this.addExportBinding(localName, exportedName);
       }
       return;
     }
@@ -321,31 +698,80 @@ get: () => ${primaryImportName}[key]}); });`;
     if (!this.tokens.matchesAtIndex(index, [tt.string])) {
       throw new Error("Expected string token at the end of import statement.");
     }
-    const path = this.tokens.stringValueAtIndex(index);
+    const path = this.getPathAtIndex(index);
     const importInfo = this.getImportInfo(path);
     importInfo.namedExports.push(...namedImports);
   }
 
-  private preprocessExportStarAtIndex(index: number): void {
-    let exportedName = null;
-    if (this.tokens.matchesAtIndex(index, [tt._export, tt.star, tt._as])) {
-      // export * as
-      index += 3;
-      exportedName = this.tokens.identifierNameAtIndex(index);
-      // foo from
-      index += 2;
-    } else {
-      // export * from
+  /**
+   * Return true if this is an export statement starting with a default export specifier, like
+   * `export v from 'foo';` or `export default from 'foo';`.
+   */
+  isExportDefaultSpecifierAtIndex(index: number): boolean {
+    if (this.tokens.matchesAtIndex(index, [tt._export, tt.name, tt.comma])) {
+      return true;
+    }
+    return (
+      (this.tokens.matchesAtIndex(index, [tt._export, tt.name, tt.name, tt.string]) ||
+        this.tokens.matchesAtIndex(index, [tt._export, tt._default, tt.name, tt.string])) &&
+      this.tokens.matchesContextualAtIndex(index + 2, ContextualKeyword._from)
+    );
+  }
+
+  /**
+   * Preprocess an export...from statement with a star or default export specifier, like these:
+   * export * from 'foo';
+   * export * as ns from 'foo';
+   * export v from 'foo';
+   * export v, * as ns, {a, b as c} from 'foo';
+   */
+  private preprocessExportFromAtIndex(index: number): void {
+    const exportDefaultNames = [];
+    const exportStarNames = [];
+    let hasStarExport = false;
+    let namedExports: Array<NamedImport> = [];
+
+    index++;
+    if (this.tokens.matchesAtIndex(index, [tt._default])) {
+      // export default from
+      exportDefaultNames.push("default");
+      index++;
+    } else if (this.tokens.matchesAtIndex(index, [tt.name])) {
+      exportDefaultNames.push(this.tokens.identifierNameAtIndex(index));
+      index++;
+    }
+    if (this.tokens.matchesAtIndex(index, [tt.comma])) {
+      index++;
+    }
+
+    if (this.tokens.matchesAtIndex(index, [tt.star, tt._as])) {
+      exportStarNames.push(this.tokens.identifierNameAtIndex(index + 2));
       index += 3;
+    } else if (this.tokens.matchesAtIndex(index, [tt.star])) {
+      hasStarExport = true;
+      index++;
+    }
+    if (this.tokens.matchesAtIndex(index, [tt.comma])) {
+      index++;
+    }
+
+    if (this.tokens.matchesAtIndex(index, [tt.braceL])) {
+      index++;
+      ({newIndex: index, namedImports: namedExports} = this.getNamedImports(index));
+    }
+
+    if (this.tokens.matchesContextualAtIndex(index, ContextualKeyword._from)) {
+      index++;
     }
     if (!this.tokens.matchesAtIndex(index, [tt.string])) {
-      throw new Error("Expected string token at the end of star export statement.");
+      throw new Error("Expected string token at the end of export...from statement.");
     }
-    const path = this.tokens.stringValueAtIndex(index);
+    const path = this.getPathAtIndex(index);
     const importInfo = this.getImportInfo(path);
-    if (exportedName !== null) {
-      importInfo.exportStarNames.push(exportedName);
-    } else {
+    importInfo.exportDefaultNames.push(...exportDefaultNames);
+    importInfo.exportStarNames.push(...exportStarNames);
+    importInfo.namedExports.push(...namedExports);
+    if (hasStarExport) {
       importInfo.hasStarExport = true;
     }
   }
@@ -408,6 +834,7 @@ get: () => ${primaryImportName}[key]}); });`;
       namedImports: [],
       namedExports: [],
       hasBareImport: false,
+      exportDefaultNames: [],
       exportStarNames: [],
       hasStarExport: false,
     };
@@ -429,8 +856,28 @@ get: () => ${primaryImportName}[key]}); });`;
     return this.identifierReplacements.get(identifierName) || null;
   }
 
-  resolveExportBinding(assignedName: string): string | null {
-    return this.exportBindingsByLocalName.get(assignedName) || null;
+  isLazyImportName(identifierName: string): boolean {
+    return this.lazyImportNames.has(identifierName);
+  }
+
+  /**
+   * Get the names that the given local binding is exported as with `export {...}` or, for
+   * declarations that stay local, like exported functions, under its own name.
+   */
+  resolveExportBindings(assignedName: string): Array<string> {
+    return this.exportBindingsByLocalName.get(assignedName) || [];
+  }
+
+  private addExportBinding(localName: string, exportedName: string): void {
+    const exportedNames = this.exportBindingsByLocalName.get(localName) || [];
+    if (!exportedNames.includes(exportedName)) {
+      exportedNames.push(exportedName);
+    }
+    this.exportBindingsByLocalName.set(localName, exportedNames);
+  }
+
+  hasExportBindings(): boolean {
+    return this.exportBindingsByLocalName.size > 0;
   }
 
   /**
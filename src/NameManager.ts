@@ -1,15 +1,15 @@
+import {Token} from "../sucrase-babylon/tokenizer";
 import {TokenType as tt} from "../sucrase-babylon/tokenizer/types";
-import TokenProcessor from "./TokenProcessor";
 
 export default class NameManager {
   private readonly usedNames: Set<string> = new Set();
 
-  constructor(readonly tokens: TokenProcessor) {}
+  constructor(readonly code: string, readonly tokens: Array<Token>) {}
 
   preprocessNames(): void {
-    for (let i = 0; i < this.tokens.tokens.length; i++) {
-      if (this.tokens.matchesAtIndex(i, [tt.name])) {
-        this.usedNames.add(this.tokens.identifierNameAtIndex(i));
+    for (const token of this.tokens) {
+      if (token.type === tt.name) {
+        this.usedNames.add(this.code.slice(token.start, token.end));
       }
     }
   }
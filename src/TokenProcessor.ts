@@ -1,16 +1,52 @@
 import {ContextualKeyword, Token} from "../sucrase-babylon/tokenizer";
 import {TokenType, TokenType as tt} from "../sucrase-babylon/tokenizer/types";
+import HelperManager from "./HelperManager";
 
 export type TokenProcessorSnapshot = {
   resultCode: string;
   tokenIndex: number;
 };
 
+export type TokenProcessorResult = {
+  code: string;
+  // For each token index, the index in the result code where that token's code starts, or
+  // undefined if the token was never processed.
+  mappings: Array<number | undefined>;
+};
+
+// Code ending each callback of an async optional chain or nullish coalescing expression whose
+// callbacks are wrapped with `_asyncToGenerator`, like `_ => _asyncToGenerator(function* () {
+// return _.b; }).apply(this, arguments)`.
+export const GENERATOR_CALLBACK_END_CODE = "; }).apply(this, arguments)";
+
 export default class TokenProcessor {
   private resultCode: string = "";
+  private resultMappings: Array<number | undefined> = new Array(this.tokens.length);
   private tokenIndex = 0;
+  // Code to insert at the start of specific tokens, keyed by token index.
+  private tokenPrefixCodes: Map<number, string> = new Map();
+  // Start tokens of async optional chains and nullish coalescing expressions within async functions
+  // that are compiled to generator functions, so their helper calls use `yield` rather than
+  // `await` and their callbacks are generator functions wrapped with `_asyncToGenerator`.
+  private generatorAsyncOperationIndices: Set<number> = new Set();
+  // The optional chain and nullish coalescing expressions being processed, innermost last, so the
+  // right code can be added where they end.
+  private openExpressions: Array<{startIndex: number; isGenerator: boolean}> = [];
+  // Code to insert after specific tokens, keyed by token index, with the index of the token starting
+  // the expression that the code ends.
+  private tokenSuffixCodes: Map<number, Array<{startIndex: number; code: string}>> = new Map();
 
-  constructor(readonly code: string, readonly tokens: Array<Token>) {}
+  /**
+   * If shouldTransformOptionalChaining is true, the helper calls for optional chaining and nullish
+   * coalescing are added around the tokens that start and end those expressions, regardless of
+   * which transformer processes them. OptionalChainingNullishTransformer handles the operators.
+   */
+  constructor(
+    readonly code: string,
+    readonly tokens: Array<Token>,
+    readonly helperManager: HelperManager,
+    readonly shouldTransformOptionalChaining: boolean,
+  ) {}
 
   /**
    * Make a new TokenProcessor for things like lookahead.
@@ -24,6 +60,20 @@ export default class TokenProcessor {
     this.tokenIndex = snapshot.tokenIndex;
   }
 
+  /**
+   * Remove and return the code generated since the snapshot, leaving the current token index
+   * unchanged. This is useful when the code for some tokens needs to be placed elsewhere in the
+   * output, e.g. a JSX key moved to after the props object.
+   */
+  dangerouslyGetAndRemoveCodeSinceSnapshot(snapshot: TokenProcessorSnapshot): string {
+    const result = this.resultCode.slice(snapshot.resultCode.length);
+    this.resultCode = snapshot.resultCode;
+    for (let i = snapshot.tokenIndex; i < this.tokenIndex; i++) {
+      this.resultMappings[i] = undefined;
+    }
+    return result;
+  }
+
   getResultCodeIndex(): number {
     return this.resultCode.length;
   }
@@ -34,7 +84,9 @@ export default class TokenProcessor {
 
   reset(): void {
     this.resultCode = "";
+    this.resultMappings = new Array(this.tokens.length);
     this.tokenIndex = 0;
+    this.openExpressions = [];
   }
 
   matchesAtIndex(index: number, types: Array<TokenType>): boolean {
@@ -140,22 +192,30 @@ export default class TokenProcessor {
 
   replaceToken(newCode: string): void {
     this.resultCode += this.previousWhitespace();
+    this.appendTokenPrefix();
+    this.recordTokenMapping();
     this.resultCode += newCode;
+    this.appendTokenSuffix();
     this.tokenIndex++;
   }
 
   replaceTokenTrimmingLeftWhitespace(newCode: string): void {
     this.resultCode += this.previousWhitespace().replace(/[\t ]/g, "");
+    this.appendTokenPrefix();
+    this.recordTokenMapping();
     this.resultCode += newCode;
+    this.appendTokenSuffix();
     this.tokenIndex++;
   }
 
   removeInitialToken(): void {
     this.replaceToken("");
+    this.skipMappingIfEmpty();
   }
 
   removeToken(): void {
     this.replaceTokenTrimmingLeftWhitespace("");
+    this.skipMappingIfEmpty();
   }
 
   copyExpectedToken(tokenType: TokenType): void {
@@ -166,13 +226,143 @@ export default class TokenProcessor {
   }
 
   copyToken(): void {
+    this.resultCode += this.previousWhitespace();
+    this.appendTokenPrefix();
+    this.recordTokenMapping();
     this.resultCode += this.code.slice(
-      this.tokenIndex > 0 ? this.tokens[this.tokenIndex - 1].end : 0,
+      this.tokens[this.tokenIndex].start,
       this.tokens[this.tokenIndex].end,
     );
+    this.appendTokenSuffix();
     this.tokenIndex++;
   }
 
+  /**
+   * Insert code right before the token at the given index (after its leading whitespace) once that
+   * token is reached. This is for helper calls wrapping an expression that starts at that token,
+   * since the token itself may be processed by any transformer. Code added later is inserted
+   * first, so it should be for an enclosing expression.
+   */
+  addTokenPrefixCode(index: number, code: string): void {
+    this.tokenPrefixCodes.set(index, code + (this.tokenPrefixCodes.get(index) || ""));
+  }
+
+  /**
+   * Insert code right after the token at the given index once that token is reached, to end an
+   * expression starting at startIndex. This is for expressions ending at a token that may be
+   * processed by any transformer, and is ordered correctly with the ends of optional chains and
+   * nullish coalescing expressions at the same token.
+   */
+  addTokenSuffixCode(index: number, startIndex: number, code: string): void {
+    const suffixCodes = this.tokenSuffixCodes.get(index) || [];
+    // Later code ends an expression that started at the same token or later, so it comes first.
+    const insertIndex = suffixCodes.findIndex((suffixCode) => suffixCode.startIndex <= startIndex);
+    suffixCodes.splice(insertIndex === -1 ? suffixCodes.length : insertIndex, 0, {
+      startIndex,
+      code,
+    });
+    this.tokenSuffixCodes.set(index, suffixCodes);
+  }
+
+  /**
+   * Mark the async optional chain or nullish coalescing expression starting at the given index as
+   * being within an async function compiled to a generator function.
+   */
+  markGeneratorAsyncOperation(startIndex: number): void {
+    this.generatorAsyncOperationIndices.add(startIndex);
+  }
+
+  isGeneratorAsyncOperation(startIndex: number): boolean {
+    return this.generatorAsyncOperationIndices.has(startIndex);
+  }
+
+  /**
+   * Start the helper calls for any expressions starting at the current token, e.g.
+   * `_nullishCoalesce(` and `_optionalChain([`, followed by any code from addTokenPrefixCode.
+   */
+  private appendTokenPrefix(): void {
+    if (this.shouldTransformOptionalChaining) {
+      this.appendOptionalChainingPrefix();
+    }
+    const prefixCode = this.tokenPrefixCodes.get(this.tokenIndex);
+    if (prefixCode) {
+      this.resultCode += prefixCode;
+    }
+  }
+
+  private appendOptionalChainingPrefix(): void {
+    const token = this.currentToken();
+    const isGenerator = this.isGeneratorAsyncOperation(this.tokenIndex);
+    let awaitCode = "";
+    if (isGenerator) {
+      awaitCode = "(yield ";
+    } else if (token.isAsyncOperation) {
+      awaitCode = "await ";
+    }
+    if (token.numNullishCoalesceStarts > 0) {
+      const helperName = this.helperManager.getHelperName(
+        token.isAsyncOperation ? "asyncNullishCoalesce" : "nullishCoalesce",
+      );
+      for (let i = 0; i < token.numNullishCoalesceStarts; i++) {
+        this.resultCode += `${awaitCode}${helperName}(`;
+        this.openExpressions.push({startIndex: this.tokenIndex, isGenerator});
+      }
+    }
+    if (token.isOptionalChainStart) {
+      const helperName = this.helperManager.getHelperName(
+        token.isAsyncOperation ? "asyncOptionalChain" : "optionalChain",
+      );
+      this.resultCode += `${awaitCode}${helperName}([`;
+      this.openExpressions.push({startIndex: this.tokenIndex, isGenerator});
+    }
+  }
+
+  /**
+   * End the helper calls started by appendTokenPrefix for any expressions ending at the current
+   * token, along with any code from addTokenSuffixCode.
+   */
+  private appendTokenSuffix(): void {
+    // Expressions that started later are nested within the others, so they need to end first.
+    const endCodes: Array<{startIndex: number; code: string}> = [];
+    if (this.shouldTransformOptionalChaining) {
+      const token = this.currentToken();
+      if (token.isOptionalChainEnd) {
+        const {startIndex, isGenerator} = this.openExpressions.pop()!;
+        endCodes.push({startIndex, code: isGenerator ? `${GENERATOR_CALLBACK_END_CODE}]))` : "])"});
+      }
+      for (let i = 0; i < token.numNullishCoalesceEnds; i++) {
+        const {startIndex, isGenerator} = this.openExpressions.pop()!;
+        endCodes.push({startIndex, code: isGenerator ? `)${GENERATOR_CALLBACK_END_CODE}))` : "))"});
+      }
+    }
+    for (const suffixCode of this.tokenSuffixCodes.get(this.tokenIndex) || []) {
+      const index = endCodes.findIndex(({startIndex}) => startIndex < suffixCode.startIndex);
+      endCodes.splice(index === -1 ? endCodes.length : index, 0, suffixCode);
+    }
+    for (const {code} of endCodes) {
+      this.resultCode += code;
+    }
+  }
+
+  /**
+   * Record that the current token's output starts at the current position in the result code, for
+   * use in source maps.
+   */
+  private recordTokenMapping(): void {
+    this.resultMappings[this.tokenIndex] = this.resultCode.length;
+  }
+
+  /**
+   * Leave a just-removed token out of the source map if nothing was generated for it, since its
+   * position belongs to whatever token comes next in the output.
+   */
+  private skipMappingIfEmpty(): void {
+    const index = this.tokenIndex - 1;
+    if (this.resultMappings[index] === this.resultCode.length) {
+      this.resultMappings[index] = undefined;
+    }
+  }
+
   appendCode(code: string): void {
     this.resultCode += code;
   }
@@ -209,12 +399,12 @@ export default class TokenProcessor {
     this.tokenIndex--;
   }
 
-  finish(): string {
+  finish(): TokenProcessorResult {
     if (this.tokenIndex !== this.tokens.length) {
       throw new Error("Tried to finish processing tokens before reaching the end.");
     }
     this.resultCode += this.code.slice(this.tokens[this.tokens.length - 1].end);
-    return this.resultCode;
+    return {code: this.resultCode, mappings: this.resultMappings};
   }
 
   isAtEnd(): boolean {
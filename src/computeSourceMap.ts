@@ -0,0 +1,51 @@
+import LinesAndColumns from "lines-and-columns";
+import {RawSourceMap, SourceMapGenerator} from "source-map";
+
+import {Token} from "../sucrase-babylon/tokenizer";
+import {SourceMapOptions} from "./index";
+import {TokenProcessorResult} from "./TokenProcessor";
+
+/**
+ * Generate a source map mapping the start of each token in the output to the start of the same
+ * token in the input. Code that was inserted by a transform (e.g. import helpers) is attributed to
+ * whichever token was processed most recently. Removed tokens have no mapping.
+ */
+export default function computeSourceMap(
+  {code: generatedCode, mappings}: TokenProcessorResult,
+  code: string,
+  tokens: Array<Token>,
+  filePath: string,
+  {compiledFilename}: SourceMapOptions,
+): RawSourceMap {
+  const mapGenerator = new SourceMapGenerator({file: compiledFilename});
+  const originalLines = new LinesAndColumns(code);
+  const generatedLines = new LinesAndColumns(generatedCode);
+  for (let i = 0; i < tokens.length; i++) {
+    const generatedIndex = mappings[i];
+    // A token only replaced by inserted code ends up at the same position as the next token, which
+    // is the one actually at that position, so only the last token there gets a mapping.
+    if (generatedIndex === undefined || getNextMapping(mappings, i) === generatedIndex) {
+      continue;
+    }
+    const original = originalLines.locationForIndex(tokens[i].start);
+    const generated = generatedLines.locationForIndex(generatedIndex);
+    if (!original || !generated) {
+      continue;
+    }
+    mapGenerator.addMapping({
+      source: filePath,
+      generated: {line: generated.line + 1, column: generated.column},
+      original: {line: original.line + 1, column: original.column},
+    });
+  }
+  return mapGenerator.toJSON();
+}
+
+function getNextMapping(mappings: Array<number | undefined>, index: number): number | undefined {
+  for (let i = index + 1; i < mappings.length; i++) {
+    if (mappings[i] !== undefined) {
+      return mappings[i];
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,440 @@
+/**
+ * Runtime versions of the helper functions used by transformed code, imported as `sucrase/helpers`
+ * when the importHelpers option is enabled. These need to stay in sync with the inline versions in
+ * HelperManager.
+ */
+
+import * as url from "url";
+
+// A value of any type. This stands in for `unknown`, which this TypeScript version doesn't have.
+export type Value = {} | null | undefined;
+
+export type ValueMap = {[key: string]: Value};
+
+export type ModuleExports = ValueMap & {__esModule?: boolean};
+
+export function interopRequireWildcard(obj: ModuleExports | null | undefined): ModuleExports {
+  if (obj && obj.__esModule) {
+    return obj;
+  } else {
+    const newObj: ModuleExports = {};
+    if (obj != null) {
+      for (const key in obj) {
+        if (Object.prototype.hasOwnProperty.call(obj, key)) {
+          newObj[key] = obj[key];
+        }
+      }
+    }
+    newObj.default = obj;
+    return newObj;
+  }
+}
+
+export function interopRequireDefault(obj: ModuleExports | null | undefined): ModuleExports {
+  return obj && obj.__esModule ? obj : {default: obj};
+}
+
+export function importStar(mod: ModuleExports | null | undefined): ModuleExports {
+  if (mod && mod.__esModule) {
+    return mod;
+  }
+  const result: ModuleExports = {};
+  if (mod != null) {
+    for (const k in mod) {
+      if (Object.hasOwnProperty.call(mod, k)) {
+        result[k] = mod[k];
+      }
+    }
+  }
+  result.default = mod;
+  return result;
+}
+
+export function importDefault(mod: ModuleExports | null | undefined): ModuleExports {
+  return mod && mod.__esModule ? mod : {default: mod};
+}
+
+export function nodeInteropRequireWildcard(obj: ModuleExports | null | undefined): ModuleExports {
+  const newObj: ModuleExports = {};
+  if (obj != null) {
+    for (const key in obj) {
+      if (key !== "default" && Object.prototype.hasOwnProperty.call(obj, key)) {
+        newObj[key] = obj[key];
+      }
+    }
+  }
+  newObj.default = obj;
+  return newObj;
+}
+
+export function decorate(
+  decorators: Array<Function>,
+  target: Object,
+  ...keyAndDesc: Array<string | symbol | PropertyDescriptor | null | undefined>
+): Value {
+  const c = keyAndDesc.length + 2;
+  const key = keyAndDesc[0] as string | symbol | undefined;
+  const desc = keyAndDesc[1] as PropertyDescriptor | null | undefined;
+  let r;
+  if (c < 3) {
+    r = target;
+  } else if (desc === null) {
+    r = Object.getOwnPropertyDescriptor(target, key!);
+  } else {
+    r = desc;
+  }
+  for (let i = decorators.length - 1; i >= 0; i--) {
+    const d = decorators[i];
+    if (!d) {
+      continue;
+    }
+    let result;
+    if (c < 3) {
+      result = d(r);
+    } else if (c > 3) {
+      result = d(target, key, r);
+    } else {
+      result = d(target, key);
+    }
+    r = result || r;
+  }
+  if (c > 3 && r) {
+    Object.defineProperty(target, key!, r);
+  }
+  return r;
+}
+
+export function param(paramIndex: number, decorator: Function): Function {
+  return (target: Object, key: string | symbol) => {
+    decorator(target, key, paramIndex);
+  };
+}
+
+export function metadata(metadataKey: string, metadataValue: Value): Value {
+  if (typeof Reflect !== "object") {
+    return undefined;
+  }
+  // Reflect.metadata comes from a polyfill like reflect-metadata, if at all.
+  const reflect = Reflect as {metadata?: Function};
+  if (typeof reflect.metadata === "function") {
+    return reflect.metadata(metadataKey, metadataValue);
+  }
+  return undefined;
+}
+
+export function optionalChain(ops: Array<Value>): Value {
+  let lastAccessLHS: Value;
+  let value = ops[0];
+  let i = 1;
+  while (i < ops.length) {
+    const op = ops[i];
+    const fn = ops[i + 1] as (arg: Value) => Value;
+    i += 2;
+    if ((op === "optionalAccess" || op === "optionalCall") && value == null) {
+      return undefined;
+    }
+    if (op === "access" || op === "optionalAccess") {
+      lastAccessLHS = value;
+      value = fn(value);
+    } else if (op === "call" || op === "optionalCall") {
+      const callee = value;
+      const thisArg = lastAccessLHS;
+      value = fn((...args: Array<Value>) => (callee as Function).call(thisArg, ...args));
+      lastAccessLHS = undefined;
+    }
+  }
+  return value;
+}
+
+export async function asyncOptionalChain(ops: Array<Value>): Promise<Value> {
+  let lastAccessLHS: Value;
+  let value = ops[0];
+  let i = 1;
+  while (i < ops.length) {
+    const op = ops[i];
+    const fn = ops[i + 1] as (arg: Value) => Value;
+    i += 2;
+    if ((op === "optionalAccess" || op === "optionalCall") && value == null) {
+      return undefined;
+    }
+    if (op === "access" || op === "optionalAccess") {
+      lastAccessLHS = value;
+      value = await fn(value);
+    } else if (op === "call" || op === "optionalCall") {
+      const callee = value;
+      const thisArg = lastAccessLHS;
+      value = await fn((...args: Array<Value>) => (callee as Function).call(thisArg, ...args));
+      lastAccessLHS = undefined;
+    }
+  }
+  return value;
+}
+
+export function nullishCoalesce(lhs: Value, rhsFn: () => Value): Value {
+  if (lhs != null) {
+    return lhs;
+  } else {
+    return rhsFn();
+  }
+}
+
+export async function asyncNullishCoalesce(
+  lhs: Value,
+  rhsFn: () => Promise<Value>,
+): Promise<Value> {
+  if (lhs != null) {
+    return lhs;
+  } else {
+    return rhsFn();
+  }
+}
+
+// `extends` is a reserved word, so this can't be declared under its exported name.
+function objectSpread(target: ValueMap, ...sources: Array<ValueMap | null | undefined>): ValueMap {
+  for (const source of sources) {
+    if (source != null) {
+      for (const key in source) {
+        if (Object.prototype.hasOwnProperty.call(source, key)) {
+          target[key] = source[key];
+        }
+      }
+      for (const symbol of Object.getOwnPropertySymbols(source)) {
+        if (Object.prototype.propertyIsEnumerable.call(source, symbol)) {
+          // tslint:disable-next-line no-any
+          (target as any)[symbol] = (source as any)[symbol];
+        }
+      }
+    }
+  }
+  return target;
+}
+export {objectSpread as extends};
+
+export function objectWithoutProperties(obj: ValueMap, excludedKeys: Array<PropertyKey>): ValueMap {
+  const target: ValueMap = {};
+  const excluded = excludedKeys.map((key) => (typeof key === "symbol" ? key : String(key)));
+  for (const key in obj) {
+    if (excluded.indexOf(key) === -1 && Object.prototype.hasOwnProperty.call(obj, key)) {
+      target[key] = obj[key];
+    }
+  }
+  for (const symbol of Object.getOwnPropertySymbols(obj)) {
+    if (
+      excluded.indexOf(symbol) === -1 &&
+      Object.prototype.propertyIsEnumerable.call(obj, symbol)
+    ) {
+      // tslint:disable-next-line no-any
+      (target as any)[symbol] = (obj as any)[symbol];
+    }
+  }
+  return target;
+}
+
+export function asyncToGenerator(
+  fn: (...args: Array<Value>) => Iterator<Value>,
+): (...args: Array<Value>) => Promise<Value> {
+  return function(this: Value, ...args: Array<Value>): Promise<Value> {
+    return new Promise((resolve, reject) => {
+      const gen = fn.apply(this, args);
+      function step(key: "next" | "throw", arg: Value): void {
+        let info;
+        try {
+          info = gen[key]!(arg);
+        } catch (error) {
+          reject(error);
+          return;
+        }
+        if (info.done) {
+          resolve(info.value);
+        } else {
+          Promise.resolve(info.value).then(next, throwError);
+        }
+      }
+      function next(value: Value): void {
+        step("next", value);
+      }
+      function throwError(error: Value): void {
+        step("throw", error);
+      }
+      next(undefined);
+    });
+  };
+}
+
+type AsyncGeneratorRequest = {
+  key: "next" | "throw" | "return";
+  arg: Value;
+  resolve: (result: IteratorResult<Value>) => void;
+  reject: (error: Value) => void;
+};
+
+// The es2017 lib doesn't declare async iterators.
+export type AsyncIteratorObject = {
+  next: (value?: Value) => Promise<IteratorResult<Value>>;
+  throw?: (value?: Value) => Promise<IteratorResult<Value>>;
+  return?: (value?: Value) => Promise<IteratorResult<Value>>;
+};
+
+// Symbol.asyncIterator isn't available in every runtime with generators.
+const asyncIteratorKey: string | symbol =
+  (typeof Symbol === "function" && (Symbol as {asyncIterator?: symbol}).asyncIterator) ||
+  "@@asyncIterator";
+
+export function wrapAsyncGenerator(
+  fn: (...args: Array<Value>) => Iterator<Value>,
+): (...args: Array<Value>) => AsyncIteratorObject {
+  return function(this: Value, ...args: Array<Value>): AsyncIteratorObject {
+    const gen = fn.apply(this, args);
+    const requests: Array<AsyncGeneratorRequest> = [];
+    function send(key: "next" | "throw" | "return", arg: Value): Promise<IteratorResult<Value>> {
+      return new Promise((resolve, reject) => {
+        requests.push({key, arg, resolve, reject});
+        if (requests.length === 1) {
+          resume(key, arg);
+        }
+      });
+    }
+    function resume(key: "next" | "throw" | "return", arg: Value): void {
+      let info: IteratorResult<Value>;
+      try {
+        info = gen[key]!(arg);
+      } catch (error) {
+        settle(true, error);
+        return;
+      }
+      const value = info.value;
+      const isAwait = value != null && Object.prototype.hasOwnProperty.call(value, "__await");
+      Promise.resolve(isAwait ? (value as {__await: Value}).__await : value).then(
+        (resolvedValue) => {
+          if (isAwait) {
+            resume("next", resolvedValue);
+          } else {
+            settle(false, {value: resolvedValue, done: info.done});
+          }
+        },
+        (error) => {
+          resume("throw", error);
+        },
+      );
+    }
+    function settle(isError: boolean, result: Value): void {
+      const request = requests.shift()!;
+      if (isError) {
+        request.reject(result);
+      } else {
+        request.resolve(result as IteratorResult<Value>);
+      }
+      if (requests.length > 0) {
+        resume(requests[0].key, requests[0].arg);
+      }
+    }
+    return {
+      next: (value: Value) => send("next", value),
+      throw: (value: Value) => send("throw", value),
+      return: (value: Value) => send("return", value),
+      [asyncIteratorKey](): AsyncIteratorObject {
+        return this;
+      },
+    };
+  };
+}
+
+export function awaitAsyncGenerator(value: Value): {__await: Value} {
+  return {__await: value};
+}
+
+export function asyncIterator(iterable: ValueMap): AsyncIteratorObject {
+  let method = iterable[asyncIteratorKey] as Function | null | undefined;
+  if (method != null) {
+    return method.call(iterable);
+  }
+  method =
+    typeof Symbol === "function" ? (iterable[Symbol.iterator] as Function | undefined) : null;
+  if (method == null) {
+    throw new TypeError("Object is not async iterable");
+  }
+  const iterator: Iterator<Value> = method.call(iterable);
+  function wrap(result: IteratorResult<Value>): Promise<IteratorResult<Value>> {
+    return Promise.resolve(result.value).then((value) => ({value, done: result.done}));
+  }
+  return {
+    next: (value: Value) => wrap(iterator.next(value)),
+    return: iterator.return && ((value: Value) => wrap(iterator.return!(value))),
+  };
+}
+
+export type PrivateDescriptor = {
+  value?: Value;
+  writable?: boolean;
+  get?: () => Value;
+  set?: (value: Value) => void;
+};
+
+export function classPrivateFieldGet(
+  receiver: Object,
+  privateMap: WeakMap<Object, PrivateDescriptor>,
+): Value {
+  if (!privateMap.has(receiver)) {
+    throw new TypeError("attempted to get private field on non-instance");
+  }
+  const descriptor = privateMap.get(receiver)!;
+  return descriptor.get ? descriptor.get.call(receiver) : descriptor.value;
+}
+
+export function classPrivateFieldRef(
+  receiver: Object,
+  privateMap: WeakMap<Object, PrivateDescriptor>,
+): {value: Value} {
+  if (!privateMap.has(receiver)) {
+    throw new TypeError("attempted to use private field on non-instance");
+  }
+  const descriptor = privateMap.get(receiver)!;
+  return {
+    get value(): Value {
+      return descriptor.get ? descriptor.get.call(receiver) : descriptor.value;
+    },
+    set value(value: Value) {
+      if (descriptor.set) {
+        descriptor.set.call(receiver, value);
+      } else if (descriptor.writable) {
+        descriptor.value = value;
+      } else {
+        throw new TypeError("attempted to set read only private field");
+      }
+    },
+  };
+}
+
+export function defineProperty(obj: Object, key: PropertyKey, value: Value): void {
+  Object.defineProperty(obj, key, {
+    value,
+    enumerable: true,
+    configurable: true,
+    writable: true,
+  });
+}
+
+// Browser globals used by importMetaUrl, which aren't part of the Node type definitions.
+declare const document: {baseURI: string} | undefined;
+declare const URL: new (input: string, base: string) => {href: string};
+
+export function importMetaUrl(module: {uri?: string; filename?: string}): string {
+  if (typeof module.uri === "string") {
+    return typeof document === "undefined"
+      ? module.uri
+      : new URL(module.uri, document.baseURI).href;
+  }
+  if (typeof module.filename !== "string") {
+    throw new Error("import.meta.url is only available in Node and AMD modules.");
+  }
+  // pathToFileURL was added in Node 10.12.
+  const {pathToFileURL} = url as {pathToFileURL?: (path: string) => {href: string}};
+  if (pathToFileURL) {
+    return pathToFileURL(module.filename).href;
+  }
+  const path = module.filename.replace(/\\/g, "/");
+  return `file://${path[0] === "/" ? "" : "/"}${encodeURI(path).replace(
+    /[?#]/g,
+    encodeURIComponent,
+  )}`;
+}
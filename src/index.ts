@@ -1,24 +1,134 @@
+import {RawSourceMap} from "source-map";
+
 import {parse} from "../sucrase-babylon";
 import {Scope} from "../sucrase-babylon/tokenizer/state";
+import computeSourceMap from "./computeSourceMap";
+import HelperManager, {HelperImportStyle} from "./HelperManager";
 import identifyShadowedGlobals from "./identifyShadowedGlobals";
 import ImportProcessor from "./ImportProcessor";
 import NameManager from "./NameManager";
 import TokenProcessor from "./TokenProcessor";
 import RootTransformer from "./transformers/RootTransformer";
+import {EnumValues, getConstEnumValues} from "./util/computeEnumValues";
 import formatTokens from "./util/formatTokens";
+import getImportPathRewriter from "./util/getImportPathRewriter";
+import getJSXPragmaInfo, {JSXPragmaInfo} from "./util/getJSXPragmaInfo";
+import getLazyImportPredicate from "./util/getLazyImportPredicate";
+
+export type Transform =
+  | "jsx"
+  | "imports"
+  | "flow"
+  | "typescript"
+  | "add-module-exports"
+  | "optional-chaining"
+  | "object-rest-spread"
+  | "async-to-generator"
+  | "private-class-members";
+
+export type ModuleFormat = "commonjs" | "amd" | "umd" | "system";
+
+export type ImportInterop = "babel" | "typescript" | "esModuleInterop" | "node";
+
+export type RewriteImportPathsOptions = {
+  // Map from module specifier pattern to replacement, where `*` matches any string, e.g.
+  // {"@app/*": "./src/app/*"}. If several patterns match, the one with the longest prefix is used.
+  aliases?: {[pattern: string]: string};
+  // Extension for relative specifiers, e.g. ".js" to turn both `./foo` and `./foo.ts` into
+  // `./foo.js`. Specifiers with other extensions, like `./data.json`, are left alone.
+  extension?: string;
+  // Function to rewrite each specifier, called after aliases and the extension are applied.
+  rewrite?: (specifier: string, filePath: string | undefined) => string;
+};
 
-export type Transform = "jsx" | "imports" | "flow" | "typescript" | "add-module-exports";
+export type SourceMapOptions = {
+  // The name to use in the "file" field of the source map, typically the path of the compiled file.
+  compiledFilename: string;
+};
 
 export type Options = {
   transforms: Array<Transform>;
+  // File path to use in error messages, JSX dev props, and source maps.
   filePath?: string;
+  // If specified, also compute a source map for the transformed code. filePath must be specified
+  // if this option is enabled.
+  sourceMapOptions?: SourceMapOptions;
+  // Function to use in place of React.createElement when compiling JSX, e.g. "h". A per-file
+  // `/** @jsx h */` comment takes precedence over this option.
+  jsxPragma?: string;
+  // Value to use in place of React.Fragment when compiling JSX fragments, e.g. "Fragment". A
+  // per-file `/** @jsxFrag Fragment */` comment takes precedence over this option.
+  jsxFragmentPragma?: string;
+  // If true, compile JSX without the __self and __source development props.
+  production?: boolean;
+  // "classic" (the default) compiles JSX to React.createElement calls. "automatic" compiles JSX to
+  // calls to functions imported from the react/jsx-runtime module (or react/jsx-dev-runtime if not
+  // in production mode).
+  jsxRuntime?: "classic" | "automatic";
+  // Package to import the automatic JSX runtime from, e.g. "preact". Defaults to "react".
+  jsxImportSource?: string;
+  // If true, decorated class members also get `design:type` metadata, like the TypeScript
+  // compiler's emitDecoratorMetadata option. Requires a Reflect.metadata polyfill at runtime.
+  emitDecoratorMetadata?: boolean;
+  // If true, define class fields with Object.defineProperty (through a `_defineProperty` helper)
+  // rather than assigning them, like the TypeScript compiler's useDefineForClassFields option. This
+  // matches the spec semantics, where setters on a superclass aren't called, and fields without an
+  // initializer are defined with the value undefined.
+  useDefineForClassFields?: boolean;
+  // Module format produced by the imports transform. "amd" and "umd" wrap the CommonJS output in a
+  // factory function that declares the file's imports as dependencies. "system" produces a
+  // System.register call for the SystemJS loader. Defaults to "commonjs".
+  moduleFormat?: ModuleFormat;
+  // Name of the global variable that a UMD module assigns its exports to when loaded without a
+  // module system. Defaults to a name based on filePath, e.g. `myModule` for `src/my-module.ts`.
+  umdGlobalName?: string;
+  // Global variable names to use for UMD dependencies when loaded without a module system, keyed
+  // by import path. Defaults to names based on the import paths.
+  umdGlobals?: {[path: string]: string};
+  // Rewrite the module specifiers of imports, exports, dynamic imports, and `import x = require()`
+  // when using the imports transform.
+  rewriteImportPaths?: RewriteImportPathsOptions;
+  // How default and namespace imports of CommonJS modules are resolved by the imports transform:
+  // - "babel" wraps modules without `__esModule` so that the default import is `module.exports`.
+  // - "typescript" uses the module as-is, like the TypeScript compiler without esModuleInterop.
+  // - "esModuleInterop" uses `__importDefault` and `__importStar`, like the TypeScript compiler
+  //   with esModuleInterop.
+  // - "node" always makes the default import `module.exports`, ignoring `__esModule`, like
+  //   importing CommonJS from a native ES module in Node.
+  // Defaults to "typescript" when the typescript transform is enabled, and "babel" otherwise.
+  importInterop?: ImportInterop;
+  // If true, move the require calls for all imports and export...from statements to the top of the
+  // module in source order, so that imported modules are evaluated before any other code like in
+  // real ES modules.
+  hoistImports?: boolean;
+  // Imports to compile to accessor functions that require the module on first use, which can speed
+  // up startup. Either true for all imports other than relative paths, a list of import paths, or a
+  // function that takes an import path. Bare imports and reexports are never lazy.
+  lazyImports?: boolean | Array<string> | ((path: string) => boolean);
+  // Code for an object to use in place of `import.meta` when the imports transform is enabled, e.g.
+  // "globalThis.importMeta". The `url`, `filename`, and `dirname` properties are always compiled to
+  // their CommonJS equivalents. Defaults to an object with just those properties.
+  importMetaObject?: string;
+  // If true, import helper functions like `_interopRequireDefault` and `__decorate` from the
+  // `sucrase/helpers` runtime module instead of defining them in every file that uses them.
+  importHelpers?: boolean;
+};
+
+export type TransformResult = {
+  code: string;
+  sourceMap?: RawSourceMap;
 };
 
 export type SucraseContext = {
   tokenProcessor: TokenProcessor;
   scopes: Array<Scope>;
   nameManager: NameManager;
-  importProcessor: ImportProcessor;
+  helperManager: HelperManager;
+  // Only present when the imports transform is enabled.
+  importProcessor: ImportProcessor | null;
+  jsxPragmaInfo: JSXPragmaInfo;
+  // Member values of top-level const enums, keyed by enum name. Only populated for TypeScript.
+  constEnumValues: Map<string, EnumValues>;
 };
 
 export function getVersion(): string {
@@ -26,14 +136,24 @@ export function getVersion(): string {
   return require("../../package.json").version;
 }
 
-export function transform(code: string, options: Options): string {
+export function transform(code: string, options: Options): TransformResult {
   try {
     const sucraseContext = getSucraseContext(code, options);
-    return new RootTransformer(
-      sucraseContext,
-      options.transforms,
-      options.filePath || null,
-    ).transform();
+    const transformerResult = new RootTransformer(sucraseContext, options).transform();
+    const result: TransformResult = {code: transformerResult.code};
+    if (options.sourceMapOptions) {
+      if (!options.filePath) {
+        throw new Error("filePath must be specified when generating a source map.");
+      }
+      result.sourceMap = computeSourceMap(
+        transformerResult,
+        code,
+        sucraseContext.tokenProcessor.tokens,
+        options.filePath,
+        options.sourceMapOptions,
+      );
+    }
+    return result;
   } catch (e) {
     if (options.filePath) {
       e.message = `Error transforming ${options.filePath}: ${e.message}`;
@@ -54,8 +174,10 @@ export function getFormattedTokens(code: string, options: Options): string {
 /**
  * Call into the parser/tokenizer and do some further preprocessing:
  * - Come up with a set of used names so that we can assign new names.
- * - Preprocess all import/export statements so we know which globals we are interested in.
- * - Compute situations where any of those globals are shadowed.
+ * - If we're transforming imports, preprocess all import/export statements so we know which
+ *   globals we are interested in, and compute situations where any of those globals are shadowed.
+ * - If we're transforming TypeScript, compute the values of const enums so they can be inlined.
+ *   Const enum names are also treated as globals so that shadowed names aren't inlined.
  *
  * In the future, some of these preprocessing steps can be skipped based on what actual work is
  * being done.
@@ -68,15 +190,65 @@ function getSucraseContext(code: string, options: Options): SucraseContext {
   const tokens = file.tokens;
   const scopes = file.scopes;
 
-  const tokenProcessor = new TokenProcessor(code, tokens);
-  const nameManager = new NameManager(tokenProcessor);
+  const nameManager = new NameManager(code, tokens);
   nameManager.preprocessNames();
   const isTypeScript = options.transforms.includes("typescript");
-  const importProcessor = new ImportProcessor(nameManager, tokenProcessor, isTypeScript);
-  importProcessor.preprocessTokens();
-  if (isTypeScript) {
-    importProcessor.pruneTypeOnlyImports();
+  const helperManager = new HelperManager(
+    nameManager,
+    Boolean(options.importHelpers),
+    getHelperImportStyle(options),
+  );
+  const tokenProcessor = new TokenProcessor(
+    code,
+    tokens,
+    helperManager,
+    options.transforms.includes("optional-chaining"),
+  );
+  const jsxPragmaInfo = getJSXPragmaInfo(code, options);
+  let importProcessor = null;
+  const globalNames = new Set<string>();
+  if (options.transforms.includes("imports")) {
+    importProcessor = new ImportProcessor(
+      nameManager,
+      helperManager,
+      tokenProcessor,
+      options.importInterop || (isTypeScript ? "typescript" : "babel"),
+      options.moduleFormat === "system",
+      getImportPathRewriter(options),
+      getLazyImportPredicate(options),
+    );
+    importProcessor.preprocessTokens();
+    if (isTypeScript) {
+      importProcessor.pruneTypeOnlyImports(jsxPragmaInfo);
+    }
+    for (const name of importProcessor.getGlobalNames()) {
+      globalNames.add(name);
+    }
+  }
+  const constEnumValues = isTypeScript ? getConstEnumValues(tokenProcessor) : new Map();
+  for (const name of constEnumValues.keys()) {
+    globalNames.add(name);
+  }
+  if (globalNames.size > 0) {
+    identifyShadowedGlobals(tokenProcessor, scopes, globalNames);
+  }
+  return {
+    tokenProcessor,
+    scopes,
+    nameManager,
+    helperManager,
+    importProcessor,
+    jsxPragmaInfo,
+    constEnumValues,
+  };
+}
+
+function getHelperImportStyle(options: Options): HelperImportStyle {
+  if (!options.transforms.includes("imports")) {
+    return "esm";
+  } else if (options.moduleFormat === "system") {
+    return "system";
+  } else {
+    return "commonjs";
   }
-  identifyShadowedGlobals(tokenProcessor, scopes, importProcessor.getGlobalNames());
-  return {tokenProcessor, scopes, nameManager, importProcessor};
 }
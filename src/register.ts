@@ -2,32 +2,55 @@
 import * as pirates from "pirates";
 import {Transform, transform} from "./index";
 
-export function addHook(extension: string, transforms: Array<Transform>): void {
+export type HookOptions = {
+  // If true, append an inline source map to each compiled file, e.g. for stack traces with
+  // node --enable-source-maps or source-map-support. Off by default, since computing the source
+  // map adds work to every require.
+  sourceMaps?: boolean;
+};
+
+export function addHook(
+  extension: string,
+  transforms: Array<Transform>,
+  hookOptions: HookOptions = {},
+): void {
   pirates.addHook(
-    (code: string, filePath: string): string => transform(code, {filePath, transforms}),
+    (code: string, filePath: string): string => {
+      if (!hookOptions.sourceMaps) {
+        return transform(code, {filePath, transforms}).code;
+      }
+      const {code: transformedCode, sourceMap} = transform(code, {
+        filePath,
+        transforms,
+        sourceMapOptions: {compiledFilename: filePath},
+      });
+      const mapBase64 = Buffer.from(JSON.stringify(sourceMap)).toString("base64");
+      const suffix = `//# sourceMappingURL=data:application/json;charset=utf-8;base64,${mapBase64}`;
+      return `${transformedCode}\n${suffix}`;
+    },
     {exts: [extension]},
   );
 }
 
-export function registerJS(): void {
-  addHook(".js", ["imports", "flow", "jsx"]);
+export function registerJS(hookOptions?: HookOptions): void {
+  addHook(".js", ["imports", "flow", "jsx"], hookOptions);
 }
 
-export function registerJSX(): void {
-  addHook(".jsx", ["imports", "flow", "jsx"]);
+export function registerJSX(hookOptions?: HookOptions): void {
+  addHook(".jsx", ["imports", "flow", "jsx"], hookOptions);
 }
 
-export function registerTS(): void {
-  addHook(".ts", ["imports", "typescript"]);
+export function registerTS(hookOptions?: HookOptions): void {
+  addHook(".ts", ["imports", "typescript"], hookOptions);
 }
 
-export function registerTSX(): void {
-  addHook(".tsx", ["imports", "typescript", "jsx"]);
+export function registerTSX(hookOptions?: HookOptions): void {
+  addHook(".tsx", ["imports", "typescript", "jsx"], hookOptions);
 }
 
-export function registerAll(): void {
-  registerJS();
-  registerJSX();
-  registerTS();
-  registerTSX();
+export function registerAll(hookOptions?: HookOptions): void {
+  registerJS(hookOptions);
+  registerJSX(hookOptions);
+  registerTS(hookOptions);
+  registerTSX(hookOptions);
 }
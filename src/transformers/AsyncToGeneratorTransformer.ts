@@ -0,0 +1,628 @@
+import {ContextualKeyword, IdentifierRole} from "../../sucrase-babylon/tokenizer";
+import {TokenType as tt} from "../../sucrase-babylon/tokenizer/types";
+import HelperManager from "../HelperManager";
+import NameManager from "../NameManager";
+import TokenProcessor from "../TokenProcessor";
+import RootTransformer from "./RootTransformer";
+import Transformer from "./Transformer";
+
+type AsyncFunctionBody = {
+  // The index of the `}` ending a block body, or the index after the end of an expression body.
+  endIndex: number;
+  isExpression: boolean;
+  // True for async generator functions, which are driven by `_wrapAsyncGenerator` instead.
+  isGenerator: boolean;
+  // The code to call the wrapped generator function with the right `this` and arguments.
+  callCode: string;
+  // Names of arrow functions declared before the generator function to get and set properties of
+  // `super`, which can't be used within the generator function, or null if they aren't needed.
+  superGetterName: string | null;
+  superSetterName: string | null;
+};
+
+/**
+ * Transformer for async functions, for runtimes that support generators but not async/await.
+ * Each async function keeps its parameters, and its body is moved into a generator function
+ * driven by an `_asyncToGenerator` helper, with each `await x` becoming `(yield x)`. For example,
+ * `async function f(a) { await a; }` becomes
+ * `function f(a) { return _asyncToGenerator(function* () { (yield a); }).apply(this, arguments); }`.
+ * Async arrow functions call the generator function with their own `this`, and also pass along
+ * `arguments` if their body uses it.
+ *
+ * Async generator functions are driven by a `_wrapAsyncGenerator` helper instead, with each
+ * `await x` becoming `(yield _awaitAsyncGenerator(x))` so it can be told apart from a `yield`.
+ * Properties of `super` are accessed through arrow functions declared before the generator
+ * function, like `const _superPropGet = (_prop) => super[_prop];`, and `for await` loops become
+ * loops over an `_asyncIterator` helper that close the iterator if they exit early.
+ */
+export default class AsyncToGeneratorTransformer extends Transformer {
+  // Bodies of async functions that haven't been reached yet, keyed by the index of the `{` token
+  // starting a block body or the first token of an expression body.
+  private pendingBodies: Map<number, AsyncFunctionBody> = new Map();
+  // Code to replace the `}` token at the end of each async function body, keyed by its index.
+  private bodyEndCodes: Map<number, string> = new Map();
+  // The async function bodies containing the current token, innermost last.
+  private activeBodies: Array<AsyncFunctionBody> = [];
+  // The async function body that each `super` token accessing a property belongs to, keyed by the
+  // index of the `super` token.
+  private superBodies: Map<number, AsyncFunctionBody> = new Map();
+
+  constructor(
+    readonly rootTransformer: RootTransformer,
+    readonly tokens: TokenProcessor,
+    readonly nameManager: NameManager,
+    readonly helperManager: HelperManager,
+  ) {
+    super();
+  }
+
+  getPrefixCode(): string {
+    return this.helperManager.emitHelpers([
+      "asyncToGenerator",
+      "wrapAsyncGenerator",
+      "awaitAsyncGenerator",
+      "asyncIterator",
+    ]);
+  }
+
+  process(): boolean {
+    const token = this.tokens.currentToken();
+    if (token.isType) {
+      return false;
+    }
+    const index = this.tokens.currentIndex();
+    const body = this.pendingBodies.get(index);
+    if (body) {
+      this.pendingBodies.delete(index);
+      this.processBodyStart(body);
+      return true;
+    }
+    const endCode = this.bodyEndCodes.get(index);
+    if (endCode) {
+      this.bodyEndCodes.delete(index);
+      this.tokens.replaceToken(endCode);
+      this.activeBodies.pop();
+      return true;
+    }
+    if (
+      this.tokens.matches1(tt._async) ||
+      this.tokens.matchesContextual(ContextualKeyword._async)
+    ) {
+      return this.processPossibleAsyncFunction();
+    }
+    if (this.activeBodies.length === 0) {
+      return false;
+    }
+    const currentBody = this.activeBodies[this.activeBodies.length - 1];
+    if (
+      token.isAsyncOperation &&
+      this.tokens.shouldTransformOptionalChaining &&
+      currentBody.isGenerator
+    ) {
+      throw new Error(
+        "await within optional chaining or nullish coalescing is not supported when compiling " +
+          "async generator functions.",
+      );
+    }
+    const superBody = this.superBodies.get(index);
+    if (superBody) {
+      this.superBodies.delete(index);
+      this.processSuperProperty(superBody);
+      return true;
+    }
+    if (
+      this.tokens.matches1(tt._for) &&
+      this.tokens.matchesContextualAtIndex(index + 1, ContextualKeyword._await)
+    ) {
+      this.processForAwaitLoop(currentBody, null);
+      return true;
+    }
+    if (
+      this.tokens.matches3(tt.name, tt.colon, tt._for) &&
+      this.tokens.matchesContextualAtIndex(index + 3, ContextualKeyword._await) &&
+      !this.tokens.matchesAtIndex(index - 1, [tt._case]) &&
+      !this.tokens.matchesAtIndex(index - 1, [tt.dot])
+    ) {
+      // A labeled loop, whose label needs to stay on the loop when it's wrapped in a block.
+      const label = this.tokens.identifierName();
+      this.tokens.removeInitialToken();
+      this.tokens.removeToken();
+      this.processForAwaitLoop(currentBody, label);
+      return true;
+    }
+    if (this.tokens.matchesContextual(ContextualKeyword._await) && token.rhsEndIndex !== null) {
+      // The end code is added with the last token, since other expressions may end there too.
+      this.tokens.addTokenSuffixCode(
+        token.rhsEndIndex - 1,
+        index,
+        this.getAwaitEndCode(currentBody),
+      );
+      this.tokens.replaceToken(this.getAwaitStartCode(currentBody));
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * If the current `async` token starts an async function, arrow function, or method, remove it
+   * and record the function's body to be transformed when it's reached.
+   */
+  private processPossibleAsyncFunction(): boolean {
+    const startIndex = this.tokens.currentIndex() + 1;
+    const isMethod = this.tokens.matches1(tt._async);
+    let isArrow = false;
+    let paramsStartIndex: number;
+    if (this.tokens.matchesAtIndex(startIndex, [tt.name, tt.arrow])) {
+      // An arrow function with a single parameter, like `async x => x`.
+      isArrow = true;
+      paramsStartIndex = startIndex;
+    } else if (isMethod || this.tokens.matchesAtIndex(startIndex, [tt._function])) {
+      const paramsIndex = this.findParamsStart(startIndex);
+      if (paramsIndex === null) {
+        return false;
+      }
+      paramsStartIndex = paramsIndex;
+    } else if (
+      this.tokens.matchesAtIndex(startIndex, [tt.parenL]) ||
+      this.tokens.tokens[startIndex].isType
+    ) {
+      // Either an arrow function like `async (x) => x` or a call to a function named `async`.
+      isArrow = true;
+      const paramsIndex = this.findParamsStart(startIndex);
+      if (paramsIndex === null) {
+        return false;
+      }
+      paramsStartIndex = paramsIndex;
+    } else {
+      return false;
+    }
+
+    let bodyIndex = paramsStartIndex + 1;
+    if (!this.tokens.matchesAtIndex(paramsStartIndex, [tt.name])) {
+      bodyIndex = this.findClosingIndex(paramsStartIndex) + 1;
+    }
+    while (this.tokens.tokens[bodyIndex].isType) {
+      bodyIndex++;
+    }
+    if (isArrow) {
+      if (!this.tokens.matchesAtIndex(bodyIndex, [tt.arrow])) {
+        return false;
+      }
+      bodyIndex++;
+    } else if (!this.tokens.matchesAtIndex(bodyIndex, [tt.braceL])) {
+      // A function or method without a body, like a TypeScript overload.
+      return false;
+    }
+
+    const starIndex = this.tokens.matchesAtIndex(startIndex, [tt._function])
+      ? startIndex + 1
+      : startIndex;
+    const isGenerator = this.tokens.matchesAtIndex(starIndex, [tt.star]);
+
+    let endIndex: number;
+    let isExpression = false;
+    if (this.tokens.matchesAtIndex(bodyIndex, [tt.braceL])) {
+      endIndex = this.findClosingIndex(bodyIndex);
+    } else {
+      const rhsEndIndex = this.tokens.tokens[bodyIndex - 1].rhsEndIndex;
+      if (rhsEndIndex == null) {
+        throw new Error("Expected rhsEndIndex on arrow function with an expression body.");
+      }
+      endIndex = rhsEndIndex;
+      isExpression = true;
+    }
+    const callCode =
+      isArrow && !this.usesArguments(bodyIndex, endIndex)
+        ? ".call(this)"
+        : ".apply(this, arguments)";
+    const body: AsyncFunctionBody = {
+      endIndex,
+      isExpression,
+      isGenerator,
+      callCode,
+      superGetterName: null,
+      superSetterName: null,
+    };
+    this.scanBody(body, bodyIndex);
+    this.pendingBodies.set(bodyIndex, body);
+    this.tokens.removeInitialToken();
+    if (isGenerator) {
+      // The outer function is a normal function returning the async generator object.
+      if (this.tokens.matches1(tt._function)) {
+        this.tokens.copyToken();
+      }
+      this.tokens.removeToken();
+    }
+    return true;
+  }
+
+  /**
+   * Look through the tokens belonging to a newly-found async function body for the `super`
+   * property accesses it needs to handle and for async optional chaining and nullish coalescing
+   * expressions, and make sure it doesn't use anything that isn't supported.
+   */
+  private scanBody(body: AsyncFunctionBody, bodyIndex: number): void {
+    const classContextIds: Set<number> = new Set();
+    for (let i = bodyIndex; i < body.endIndex; i++) {
+      const token = this.tokens.tokens[i];
+      if (token.type === tt._class && token.contextId !== null) {
+        classContextIds.add(token.contextId);
+      }
+      // Skip nested class bodies and non-arrow functions, which have their own `super` and
+      // `yield`. Nested async functions are scanned when they're reached.
+      if (
+        token.type === tt.braceL &&
+        token.contextId !== null &&
+        classContextIds.has(token.contextId)
+      ) {
+        i = this.findClosingIndex(i);
+        continue;
+      }
+      const nestedFunctionEndIndex = this.getNestedFunctionEndIndex(i);
+      if (nestedFunctionEndIndex !== null) {
+        i = nestedFunctionEndIndex;
+        continue;
+      }
+      if (
+        token.isAsyncOperation &&
+        this.tokens.shouldTransformOptionalChaining &&
+        !body.isGenerator
+      ) {
+        this.tokens.markGeneratorAsyncOperation(i);
+      }
+      if (token.type === tt._yield && this.tokens.matchesAtIndex(i + 1, [tt.star])) {
+        throw new Error("yield* is not supported within async generator functions.");
+      }
+      // `super` within a nested async arrow function is handled by the outermost async function,
+      // since it's the only one where `super` can be used.
+      if (token.type === tt._super && !this.superBodies.has(i)) {
+        this.scanSuperProperty(body, i);
+      }
+    }
+  }
+
+  /**
+   * If the token at the given index starts a non-arrow function or an object method, return the
+   * index of the end of its body.
+   */
+  private getNestedFunctionEndIndex(index: number): number | null {
+    let paramsIndex;
+    if (this.tokens.matchesAtIndex(index, [tt._function])) {
+      paramsIndex = index + 1;
+      while (!this.tokens.matchesAtIndex(paramsIndex, [tt.parenL])) {
+        paramsIndex++;
+      }
+    } else if (
+      this.tokens.matchesAtIndex(index, [tt.parenL]) &&
+      this.tokens.tokens[index].contextId !== null &&
+      this.isAfterObjectKey(index)
+    ) {
+      paramsIndex = index;
+    } else {
+      return null;
+    }
+    let bodyIndex = this.findClosingIndex(paramsIndex) + 1;
+    while (this.tokens.tokens[bodyIndex].isType) {
+      bodyIndex++;
+    }
+    if (!this.tokens.matchesAtIndex(bodyIndex, [tt.braceL])) {
+      // A function without a body, like a TypeScript overload.
+      return bodyIndex - 1;
+    }
+    return this.findClosingIndex(bodyIndex);
+  }
+
+  private isAfterObjectKey(index: number): boolean {
+    let keyIndex = index - 1;
+    while (this.tokens.tokens[keyIndex].isType) {
+      keyIndex--;
+    }
+    const keyToken = this.tokens.tokens[keyIndex];
+    return (
+      keyToken.identifierRole === IdentifierRole.ObjectKey ||
+      (keyToken.type === tt.bracketR && keyToken.contextId !== null)
+    );
+  }
+
+  /**
+   * Record that the `super` token at the given index belongs to the given async function body,
+   * and which of the arrow functions to access `super` properties the body needs.
+   */
+  private scanSuperProperty(body: AsyncFunctionBody, superIndex: number): void {
+    let memberEndIndex;
+    if (this.tokens.matchesAtIndex(superIndex + 1, [tt.dot])) {
+      memberEndIndex = superIndex + 3;
+    } else if (this.tokens.matchesAtIndex(superIndex + 1, [tt.bracketL])) {
+      memberEndIndex = this.findClosingIndex(superIndex + 1) + 1;
+    } else {
+      throw new Error("super calls are not supported within async functions.");
+    }
+    if (
+      this.tokens.matchesAtIndex(superIndex - 1, [tt.incDec]) ||
+      this.tokens.matchesAtIndex(memberEndIndex, [tt.incDec]) ||
+      this.tokens.matchesAtIndex(memberEndIndex, [tt.assign])
+    ) {
+      throw new Error(
+        "Compound assignments and updates to properties of super are not supported within async " +
+          "functions.",
+      );
+    }
+    if (this.tokens.matchesAtIndex(memberEndIndex, [tt.eq])) {
+      if (!body.superSetterName) {
+        body.superSetterName = this.nameManager.claimFreeName("_superPropSet");
+      }
+    } else if (!body.superGetterName) {
+      body.superGetterName = this.nameManager.claimFreeName("_superPropGet");
+    }
+    this.superBodies.set(superIndex, body);
+  }
+
+  /**
+   * Starting at the token after `async`, find the `(` starting the parameter list, skipping past
+   * the function name or method key and any type parameters. Return null if there isn't one.
+   */
+  private findParamsStart(startIndex: number): number | null {
+    let index = startIndex;
+    if (this.tokens.matchesAtIndex(index, [tt._function])) {
+      index++;
+    }
+    if (this.tokens.matchesAtIndex(index, [tt.star])) {
+      index++;
+    }
+    if (this.tokens.matchesAtIndex(index, [tt.hash])) {
+      // A private method name, like `#x`.
+      index++;
+    }
+    if (!this.tokens.matchesAtIndex(index, [tt.parenL]) && !this.tokens.tokens[index].isType) {
+      // The function name or method key, which may be computed.
+      index = this.tokens.matchesAtIndex(index, [tt.bracketL])
+        ? this.findClosingIndex(index) + 1
+        : index + 1;
+    }
+    while (this.tokens.tokens[index].isType) {
+      index++;
+    }
+    return this.tokens.matchesAtIndex(index, [tt.parenL]) ? index : null;
+  }
+
+  /**
+   * Given the index of a `(`, `[`, or `{` token, find the index of the token that closes it.
+   */
+  private findClosingIndex(openIndex: number): number {
+    let depth = 0;
+    for (let i = openIndex; i < this.tokens.tokens.length; i++) {
+      const tokenType = this.tokens.tokens[i].type;
+      if (
+        tokenType === tt.braceL ||
+        tokenType === tt.dollarBraceL ||
+        tokenType === tt.bracketL ||
+        tokenType === tt.parenL
+      ) {
+        depth++;
+      } else if (tokenType === tt.braceR || tokenType === tt.bracketR || tokenType === tt.parenR) {
+        depth--;
+        if (depth === 0) {
+          return i;
+        }
+      }
+    }
+    throw new Error("Unexpectedly reached the end of the code while finding a closing token.");
+  }
+
+  private usesArguments(startIndex: number, endIndex: number): boolean {
+    for (let i = startIndex; i < endIndex; i++) {
+      if (
+        this.tokens.matchesAtIndex(i, [tt.name]) &&
+        this.tokens.identifierNameAtIndex(i) === "arguments"
+      ) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Start the generator function at the start of an async function body. Expression bodies are
+   * processed here so that the generator function can return their value.
+   */
+  private processBodyStart(body: AsyncFunctionBody): void {
+    const helperName = this.helperManager.getHelperName(
+      body.isGenerator ? "wrapAsyncGenerator" : "asyncToGenerator",
+    );
+    const superDeclarationsCode = this.getSuperDeclarationsCode(body);
+    this.activeBodies.push(body);
+    if (!body.isExpression) {
+      // Other transformers may add code at the start of the body, which needs to come first.
+      this.rootTransformer.processToken();
+      this.tokens.appendCode(`${superDeclarationsCode} return ${helperName}(function* () {`);
+      this.bodyEndCodes.set(body.endIndex, `})${body.callCode}; }`);
+      return;
+    }
+    if (superDeclarationsCode) {
+      // The arrow functions for `super` need to be declared, so the body becomes a block.
+      this.tokens.appendCode(
+        ` {${superDeclarationsCode} return ${helperName}(function* () { return (`,
+      );
+    } else {
+      this.tokens.appendCode(` ${helperName}(function* () { return (`);
+    }
+    while (this.tokens.currentIndex() < body.endIndex) {
+      this.rootTransformer.processToken();
+    }
+    this.tokens.appendCode(`); })${body.callCode}${superDeclarationsCode ? "; }" : ""}`);
+    this.activeBodies.pop();
+  }
+
+  private getSuperDeclarationsCode(body: AsyncFunctionBody): string {
+    let code = "";
+    if (body.superGetterName) {
+      code += ` const ${body.superGetterName} = (_prop) => super[_prop];`;
+    }
+    if (body.superSetterName) {
+      code += ` const ${body.superSetterName} = (_prop, _value) => super[_prop] = _value;`;
+    }
+    return code;
+  }
+
+  private getAwaitStartCode(body: AsyncFunctionBody): string {
+    if (body.isGenerator) {
+      return `(yield ${this.helperManager.getHelperName("awaitAsyncGenerator")}(`;
+    }
+    return "(yield";
+  }
+
+  private getAwaitEndCode(body: AsyncFunctionBody): string {
+    return body.isGenerator ? "))" : ")";
+  }
+
+  private getAwaitCode(body: AsyncFunctionBody, valueCode: string): string {
+    if (body.isGenerator) {
+      return `(yield ${this.helperManager.getHelperName("awaitAsyncGenerator")}(${valueCode}))`;
+    }
+    return `(yield ${valueCode})`;
+  }
+
+  /**
+   * Replace a property access on `super`, like `super.a` or `super[a]`, with a call to the arrow
+   * function getting or setting it. Method calls are called with the right `this`.
+   */
+  private processSuperProperty(body: AsyncFunctionBody): void {
+    const superToken = this.tokens.currentToken();
+    const isDotAccess = this.tokens.matchesAtIndex(this.tokens.currentIndex() + 1, [tt.dot]);
+    const memberEndIndex = isDotAccess
+      ? this.tokens.currentIndex() + 3
+      : this.findClosingIndex(this.tokens.currentIndex() + 1) + 1;
+    const isAssignment = this.tokens.matchesAtIndex(memberEndIndex, [tt.eq]);
+    this.tokens.replaceToken(`${isAssignment ? body.superSetterName : body.superGetterName}(`);
+    // The call is closed within the code for the last token of the property access, since other
+    // code may be added after that token.
+    const closeCode = isAssignment ? "" : ")";
+    if (isDotAccess) {
+      this.tokens.removeToken();
+      this.tokens.replaceTokenTrimmingLeftWhitespace(
+        `"${this.tokens.identifierName()}"${closeCode}`,
+      );
+    } else {
+      this.tokens.removeToken();
+      while (this.tokens.currentIndex() < memberEndIndex - 1) {
+        this.rootTransformer.processToken();
+      }
+      this.tokens.replaceTokenTrimmingLeftWhitespace(closeCode);
+    }
+
+    if (isAssignment) {
+      const rhsEndIndex = this.tokens.currentToken().rhsEndIndex;
+      if (rhsEndIndex === null) {
+        throw new Error("Expected rhsEndIndex on assignment to super property.");
+      }
+      this.tokens.replaceTokenTrimmingLeftWhitespace(",");
+      while (this.tokens.currentIndex() < rhsEndIndex) {
+        this.rootTransformer.processToken();
+      }
+      this.tokens.appendCode(")");
+      return;
+    }
+    if (superToken.isOptionalChainStart && this.tokens.shouldTransformOptionalChaining) {
+      // Any call is handled as part of the optional chain.
+      return;
+    }
+    while (this.tokens.currentToken().isType) {
+      this.rootTransformer.processToken();
+    }
+    if (this.tokens.matches1(tt.parenL)) {
+      this.tokens.replaceTokenTrimmingLeftWhitespace(
+        this.tokens.matches2(tt.parenL, tt.parenR) ? ".call(this" : ".call(this, ",
+      );
+    }
+  }
+
+  /**
+   * Transform a `for await` loop into a loop that awaits each result from an `_asyncIterator`
+   * helper, closing the iterator if the loop exits early. For example, in an async function,
+   * `for await (const a of b) {}` becomes
+   * `{ let _iterator = _asyncIterator(b), _step, _iteratorAbruptCompletion = false; try { for (;
+   * _iteratorAbruptCompletion = !(_step = (yield _iterator.next())).done;
+   * _iteratorAbruptCompletion = false) { const a = _step.value; {} } } finally { if
+   * (_iteratorAbruptCompletion && _iterator.return != null) (yield _iterator.return()); } }`.
+   */
+  private processForAwaitLoop(body: AsyncFunctionBody, label: string | null): void {
+    const forIndex = this.tokens.currentIndex();
+    const loopEndIndex = this.tokens.currentToken().rhsEndIndex;
+    if (loopEndIndex === null) {
+      throw new Error("Expected rhsEndIndex on for await loop.");
+    }
+    const headStartIndex = forIndex + 3;
+    const headEndIndex = this.findClosingIndex(forIndex + 2);
+    const ofIndex = this.findForOfIndex(headStartIndex, headEndIndex);
+    const isDeclaration =
+      this.tokens.matchesAtIndex(headStartIndex, [tt._var]) ||
+      this.tokens.matchesAtIndex(headStartIndex, [tt._let]) ||
+      this.tokens.matchesAtIndex(headStartIndex, [tt._const]);
+    const iteratorName = this.nameManager.claimFreeName("_iterator");
+    const stepName = this.nameManager.claimFreeName("_step");
+    const abruptName = this.nameManager.claimFreeName("_iteratorAbruptCompletion");
+
+    this.tokens.removeInitialToken();
+    this.tokens.removeToken();
+    this.tokens.removeToken();
+    const snapshot = this.tokens.snapshot();
+    while (this.tokens.currentIndex() < ofIndex) {
+      this.rootTransformer.processToken();
+    }
+    const headCode = this.tokens.dangerouslyGetAndRemoveCodeSinceSnapshot(snapshot).trim();
+    const assignmentCode = isDeclaration
+      ? `${headCode} = ${stepName}.value;`
+      : `(${headCode} = ${stepName}.value);`;
+    this.tokens.replaceTokenTrimmingLeftWhitespace(
+      `{ let ${iteratorName} = ${this.helperManager.getHelperName("asyncIterator")}(`,
+    );
+    while (this.tokens.currentIndex() < headEndIndex) {
+      this.rootTransformer.processToken();
+    }
+    this.tokens.replaceTokenTrimmingLeftWhitespace(
+      `), ${stepName}, ${abruptName} = false; try { ${
+        label ? `${label}: ` : ""
+      }for (; ${abruptName} = !(${stepName} = ` +
+        `${this.getAwaitCode(body, `${iteratorName}.next()`)}).done; ${abruptName} = false) ` +
+        `{ ${assignmentCode}`,
+    );
+    while (this.tokens.currentIndex() < loopEndIndex) {
+      this.rootTransformer.processToken();
+    }
+    this.tokens.appendCode(
+      ` } } finally { if (${abruptName} && ${iteratorName}.return != null) ` +
+        `${this.getAwaitCode(body, `${iteratorName}.return()`)}; } }`,
+    );
+  }
+
+  /**
+   * Find the `of` token ending the left side of a `for await` loop head.
+   */
+  private findForOfIndex(startIndex: number, endIndex: number): number {
+    let depth = 0;
+    for (let i = startIndex; i < endIndex; i++) {
+      const token = this.tokens.tokens[i];
+      if (
+        token.type === tt.braceL ||
+        token.type === tt.dollarBraceL ||
+        token.type === tt.bracketL ||
+        token.type === tt.parenL
+      ) {
+        depth++;
+      } else if (
+        token.type === tt.braceR ||
+        token.type === tt.bracketR ||
+        token.type === tt.parenR
+      ) {
+        depth--;
+      } else if (
+        depth === 0 &&
+        this.tokens.matchesContextualAtIndex(i, ContextualKeyword._of) &&
+        token.identifierRole === null
+      ) {
+        return i;
+      }
+    }
+    throw new Error("Expected of in for await loop.");
+  }
+}
@@ -0,0 +1,249 @@
+import {ContextualKeyword} from "../../sucrase-babylon/tokenizer";
+import {TokenType as tt} from "../../sucrase-babylon/tokenizer/types";
+import TokenProcessor from "../TokenProcessor";
+import {JSXPragmaInfo} from "../util/getJSXPragmaInfo";
+import getNonTypeIdentifiers from "../util/getNonTypeIdentifiers";
+import Transformer from "./Transformer";
+
+/**
+ * Transformer for TypeScript code when the imports transform is disabled. The ES module syntax is
+ * left alone, but we still need to remove imports that only refer to types (since they won't exist
+ * at runtime) and handle the TypeScript-specific `import x = require('y');` syntax.
+ */
+export default class ESMImportTransformer extends Transformer {
+  private nonTypeIdentifiers: Set<string>;
+
+  constructor(readonly tokens: TokenProcessor, jsxPragmaInfo: JSXPragmaInfo) {
+    super();
+    this.nonTypeIdentifiers = getNonTypeIdentifiers(tokens, jsxPragmaInfo);
+  }
+
+  process(): boolean {
+    if (this.tokens.matches3(tt._import, tt.name, tt.eq)) {
+      this.processImportEquals();
+      return true;
+    }
+    if (this.tokens.matches4(tt._export, tt._import, tt.name, tt.eq)) {
+      // The name is exported, so it always needs to stay, even if it's only used as a type.
+      this.tokens.copyToken();
+      this.tokens.replaceToken("const");
+      return true;
+    }
+    if (
+      this.tokens.matches1(tt._import) &&
+      !this.tokens.matches2(tt._import, tt.parenL) &&
+      !this.tokens.matches2(tt._import, tt.dot) &&
+      !this.tokens.matches2(tt._import, tt.string)
+    ) {
+      this.processImport();
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Transform this:
+   * import foo = require('foo');
+   * into this:
+   * const foo = require('foo');
+   *
+   * or remove it completely if foo is only used as a type.
+   */
+  private processImportEquals(): void {
+    const importName = this.tokens.identifierNameAtIndex(this.tokens.currentIndex() + 1);
+    if (!this.isTypeName(importName)) {
+      this.tokens.replaceToken("const");
+      return;
+    }
+    // import foo =
+    this.tokens.removeInitialToken();
+    this.tokens.removeToken();
+    this.tokens.removeToken();
+    if (this.tokens.matchesContextual(ContextualKeyword._require)) {
+      // require('foo')
+      this.tokens.removeToken();
+      this.tokens.removeToken();
+      this.tokens.removeToken();
+      this.tokens.removeToken();
+    } else {
+      // An entity name like A.B.C.
+      this.tokens.removeToken();
+      while (this.tokens.matches2(tt.dot, tt.name)) {
+        this.tokens.removeToken();
+        this.tokens.removeToken();
+      }
+    }
+    if (this.tokens.matches1(tt.semi)) {
+      this.tokens.removeToken();
+    }
+  }
+
+  /**
+   * Remove any imported bindings that are only used as types, and the whole import statement if
+   * that was all of them. Bare imports like `import 'foo';` are never removed.
+   */
+  private processImport(): void {
+    if (this.getImportedNames().every((name) => this.isTypeName(name))) {
+      this.removeImport();
+      return;
+    }
+
+    this.tokens.copyExpectedToken(tt._import);
+    let hasPreviousBinding = false;
+    if (this.tokens.matches1(tt.name) && !this.tokens.matches2(tt.name, tt.string)) {
+      // Default import.
+      if (this.isTypeName(this.tokens.identifierName())) {
+        this.tokens.removeToken();
+      } else {
+        this.tokens.copyToken();
+        hasPreviousBinding = true;
+      }
+    }
+
+    const isNamespaceImport =
+      this.tokens.matches2(tt.comma, tt.star) || this.tokens.matches1(tt.star);
+    const isNamedImport =
+      this.tokens.matches2(tt.comma, tt.braceL) || this.tokens.matches1(tt.braceL);
+    let needsRemainingBindings = false;
+    if (isNamespaceImport) {
+      const starIndex = this.tokens.matches1(tt.comma)
+        ? this.tokens.currentIndex() + 1
+        : this.tokens.currentIndex();
+      needsRemainingBindings = !this.isTypeName(this.tokens.identifierNameAtIndex(starIndex + 2));
+    } else if (isNamedImport) {
+      needsRemainingBindings = !hasPreviousBinding || this.hasNonTypeNamedImport();
+    }
+
+    if (this.tokens.matches1(tt.comma)) {
+      if (hasPreviousBinding && needsRemainingBindings) {
+        this.tokens.copyToken();
+      } else {
+        this.tokens.removeToken();
+      }
+    }
+
+    if (isNamespaceImport) {
+      // * as foo
+      for (let i = 0; i < 3; i++) {
+        if (needsRemainingBindings) {
+          this.tokens.copyToken();
+        } else {
+          this.tokens.removeToken();
+        }
+      }
+    } else if (isNamedImport) {
+      if (needsRemainingBindings) {
+        this.processNamedImports();
+      } else {
+        while (!this.tokens.matches1(tt.braceR)) {
+          this.tokens.removeToken();
+        }
+        this.tokens.removeToken();
+      }
+    }
+  }
+
+  /**
+   * Copy a named import list starting at the open-brace, removing any type-only bindings.
+   */
+  private processNamedImports(): void {
+    this.tokens.copyExpectedToken(tt.braceL);
+    while (!this.tokens.matches1(tt.braceR)) {
+      const {localName, numTokens} = this.getNamedImportAtIndex(this.tokens.currentIndex());
+      const shouldRemove = this.isTypeName(localName);
+      for (let i = 0; i < numTokens; i++) {
+        if (shouldRemove) {
+          this.tokens.removeToken();
+        } else {
+          this.tokens.copyToken();
+        }
+      }
+      if (this.tokens.matches1(tt.comma)) {
+        if (shouldRemove) {
+          this.tokens.removeToken();
+        } else {
+          this.tokens.copyToken();
+        }
+      }
+    }
+    this.tokens.copyExpectedToken(tt.braceR);
+  }
+
+  private hasNonTypeNamedImport(): boolean {
+    let index = this.tokens.currentIndex();
+    while (!this.tokens.matchesAtIndex(index, [tt.braceL])) {
+      index++;
+    }
+    index++;
+    while (!this.tokens.matchesAtIndex(index, [tt.braceR])) {
+      const {localName, numTokens} = this.getNamedImportAtIndex(index);
+      if (!this.isTypeName(localName)) {
+        return true;
+      }
+      index += numTokens;
+      if (this.tokens.matchesAtIndex(index, [tt.comma])) {
+        index++;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Get the local name of the named import (either `foo` or `foo as bar`) at the given index, as
+   * well as the number of tokens it takes up.
+   */
+  private getNamedImportAtIndex(index: number): {localName: string; numTokens: number} {
+    if (this.tokens.matchesContextualAtIndex(index + 1, ContextualKeyword._as)) {
+      return {localName: this.tokens.identifierNameAtIndex(index + 2), numTokens: 3};
+    }
+    return {localName: this.tokens.identifierNameAtIndex(index), numTokens: 1};
+  }
+
+  /**
+   * Get all local names declared by the import statement starting at the current token.
+   */
+  private getImportedNames(): Array<string> {
+    const names = [];
+    let index = this.tokens.currentIndex() + 1;
+    if (
+      this.tokens.matchesAtIndex(index, [tt.name]) &&
+      !this.tokens.matchesAtIndex(index, [tt.name, tt.string])
+    ) {
+      names.push(this.tokens.identifierNameAtIndex(index));
+      index++;
+    }
+    if (this.tokens.matchesAtIndex(index, [tt.comma])) {
+      index++;
+    }
+    if (this.tokens.matchesAtIndex(index, [tt.star])) {
+      // * as foo
+      names.push(this.tokens.identifierNameAtIndex(index + 2));
+    } else if (this.tokens.matchesAtIndex(index, [tt.braceL])) {
+      index++;
+      while (!this.tokens.matchesAtIndex(index, [tt.braceR])) {
+        const {localName, numTokens} = this.getNamedImportAtIndex(index);
+        names.push(localName);
+        index += numTokens;
+        if (this.tokens.matchesAtIndex(index, [tt.comma])) {
+          index++;
+        }
+      }
+    }
+    return names;
+  }
+
+  private removeImport(): void {
+    this.tokens.removeInitialToken();
+    while (!this.tokens.matches1(tt.string)) {
+      this.tokens.removeToken();
+    }
+    this.tokens.removeToken();
+    if (this.tokens.matches1(tt.semi)) {
+      this.tokens.removeToken();
+    }
+  }
+
+  private isTypeName(name: string): boolean {
+    return !this.nonTypeIdentifiers.has(name);
+  }
+}
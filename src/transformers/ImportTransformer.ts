@@ -2,33 +2,68 @@ import {ContextualKeyword, IdentifierRole} from "../../sucrase-babylon/tokenizer
 import {TokenType as tt} from "../../sucrase-babylon/tokenizer/types";
 import ImportProcessor from "../ImportProcessor";
 import TokenProcessor from "../TokenProcessor";
+import getVariableDeclarators from "../util/getVariableDeclarators";
 import RootTransformer from "./RootTransformer";
 import Transformer from "./Transformer";
 
+// CommonJS code for the `import.meta` properties that only have an equivalent in Node. The `url`
+// property is computed by a helper instead, since it's also available in AMD modules.
+const IMPORT_META_NODE_PROPERTY_CODES: {[property: string]: string} = {
+  filename: "__filename",
+  dirname: "__dirname",
+};
+
 export default class ImportTransformer extends Transformer {
   private hadExport: boolean = false;
   private hadNamedExport: boolean = false;
   private hadDefaultExport: boolean = false;
+  // True while processing the pattern of a destructuring assignment that updates exports.
+  private isProcessingDestructuringPattern: boolean = false;
+  // With the hoistImports option, the require code for each import in source order, which is moved
+  // into the prefix.
+  private hoistedImportCodes: Array<string> = [];
+  // Export statements for exported function declarations, which go in the prefix since function
+  // declarations are hoisted.
+  private hoistedFunctionExportCodes: Array<string> = [];
 
   constructor(
     readonly rootTransformer: RootTransformer,
     readonly tokens: TokenProcessor,
     readonly importProcessor: ImportProcessor,
     readonly shouldAddModuleExports: boolean,
+    readonly isAMDModule: boolean,
+    readonly isUMDModule: boolean,
+    readonly shouldHoistImports: boolean,
+    readonly importMetaObjectCode: string | null,
   ) {
     super();
   }
 
   getPrefixCode(): string {
     let prefix = this.importProcessor.getPrefixCode();
-    if (this.hadExport) {
+    if (this.hadExport && !this.importProcessor.isSystemModule) {
       prefix += 'Object.defineProperty(exports, "__esModule", {value: true});';
     }
+    for (const exportCode of this.hoistedFunctionExportCodes) {
+      prefix += ` ${exportCode}`;
+    }
+    if (this.importProcessor.isSystemModule && this.hasHoistedFunctionExports()) {
+      // The module wrapper runs the code up to here in the declaration phase.
+      prefix += " yield;";
+    }
+    for (const importCode of this.hoistedImportCodes) {
+      prefix += ` ${importCode}`;
+    }
     return prefix;
   }
 
   getSuffixCode(): string {
-    if (this.shouldAddModuleExports && this.hadDefaultExport && !this.hadNamedExport) {
+    if (
+      this.shouldAddModuleExports &&
+      this.hadDefaultExport &&
+      !this.hadNamedExport &&
+      !this.importProcessor.isSystemModule
+    ) {
       return "\nmodule.exports = exports.default;\n";
     }
     return "";
@@ -36,14 +71,24 @@ export default class ImportTransformer extends Transformer {
 
   process(): boolean {
     if (this.tokens.matches3(tt._import, tt.name, tt.eq)) {
-      this.tokens.replaceToken("const");
+      this.processImportEquals();
       return true;
     }
     if (this.tokens.matches1(tt._import)) {
       this.processImport();
       return true;
     }
+    if (
+      this.tokens.matches3(tt.name, tt.dot, tt.name) &&
+      this.tokens.identifierName() === "import"
+    ) {
+      this.processImportMeta();
+      return true;
+    }
     if (this.tokens.matches2(tt._export, tt.eq)) {
+      if (this.importProcessor.isSystemModule) {
+        throw new Error("`export =` is not supported when compiling to SystemJS.");
+      }
       this.tokens.replaceToken("module.exports");
       return true;
     }
@@ -51,12 +96,26 @@ export default class ImportTransformer extends Transformer {
       this.hadExport = true;
       return this.processExport();
     }
+    if (
+      (this.tokens.matches2(tt.name, tt.assign) ||
+        this.tokens.matches2(tt.name, tt.incDec) ||
+        this.tokens.matches2(tt.incDec, tt.name)) &&
+      this.processExportBindingUpdate()
+    ) {
+      return true;
+    }
     if (this.tokens.matches1(tt.name) || this.tokens.matches1(tt.jsxName)) {
       return this.processIdentifier();
     }
     if (this.tokens.matches1(tt.eq)) {
       return this.processAssignment();
     }
+    if (this.tokens.matches1(tt.bracketL) || this.tokens.matches1(tt.braceL)) {
+      return this.processDestructuringAssignment();
+    }
+    if (this.tokens.matches1(tt._for)) {
+      return this.processForInOfLoop();
+    }
     return false;
   }
 
@@ -71,12 +130,35 @@ export default class ImportTransformer extends Transformer {
    */
   private processImport(): void {
     if (this.tokens.matches2(tt._import, tt.parenL)) {
+      if (this.importProcessor.isSystemModule) {
+        this.tokens.replaceToken(`${this.importProcessor.systemContextName}.import`);
+        const contextId = this.tokens.currentToken().contextId;
+        if (contextId == null) {
+          throw new Error("Expected context ID on dynamic import invocation.");
+        }
+        this.tokens.copyToken();
+        this.processDynamicImportPath();
+        while (!this.tokens.matchesContextIdAndLabel(tt.parenR, contextId)) {
+          this.rootTransformer.processToken();
+        }
+        this.tokens.copyToken();
+        return;
+      }
+      if (this.isAMDModule) {
+        this.processAMDDynamicImport();
+        return;
+      }
+      if (this.isUMDModule) {
+        this.processUMDDynamicImport();
+        return;
+      }
       this.tokens.replaceToken("Promise.resolve().then(() => require");
       const contextId = this.tokens.currentToken().contextId;
       if (contextId == null) {
         throw new Error("Expected context ID on dynamic import invocation.");
       }
       this.tokens.copyToken();
+      this.processDynamicImportPath();
       while (!this.tokens.matchesContextIdAndLabel(tt.parenR, contextId)) {
         this.rootTransformer.processToken();
       }
@@ -89,15 +171,177 @@ export default class ImportTransformer extends Transformer {
     if (wasOnlyTypes) {
       this.tokens.removeToken();
     } else {
-      const path = this.tokens.stringValue();
-      this.tokens.replaceTokenTrimmingLeftWhitespace(this.importProcessor.claimImportCode(path));
-      this.tokens.appendCode(this.importProcessor.claimImportCode(path));
+      const path = this.importProcessor.getPathAtIndex(this.tokens.currentIndex());
+      this.tokens.replaceTokenTrimmingLeftWhitespace(this.claimImportCode(path));
+      this.tokens.appendCode(this.claimImportCode(path));
     }
     if (this.tokens.matches1(tt.semi)) {
       this.tokens.removeToken();
     }
   }
 
+  /**
+   * Transform this:
+   * import foo = require('foo');
+   * into this:
+   * const foo = require('foo');
+   */
+  private processImportEquals(): void {
+    this.tokens.replaceToken("const");
+    this.tokens.copyExpectedToken(tt.name);
+    this.tokens.copyExpectedToken(tt.eq);
+    if (
+      this.tokens.matchesContextual(ContextualKeyword._require) &&
+      this.tokens.matches4(tt.name, tt.parenL, tt.string, tt.parenR)
+    ) {
+      this.tokens.copyToken();
+      this.tokens.copyToken();
+      this.processImportPathString();
+      this.tokens.copyToken();
+    }
+  }
+
+  /**
+   * If the argument to a dynamic import is a plain string, rewrite it like a static import path.
+   */
+  private processDynamicImportPath(): void {
+    if (this.tokens.matches2(tt.string, tt.parenR)) {
+      this.processImportPathString();
+    }
+  }
+
+  /**
+   * Copy the current string token, applying any import path rewriting.
+   */
+  private processImportPathString(): void {
+    const path = this.importProcessor.getPathAtIndex(this.tokens.currentIndex());
+    const newPath = this.importProcessor.rewriteImportPath(path);
+    if (newPath === path) {
+      this.tokens.copyToken();
+    } else {
+      this.tokens.replaceToken(JSON.stringify(newPath));
+    }
+  }
+
+  /**
+   * Transform `import.meta`, which isn't valid outside of ES modules. The `filename` and `dirname`
+   * properties are replaced with `__filename` and `__dirname`, and `url` is computed from the
+   * module's file name in Node or its URL in an AMD loader. Any other use of `import.meta` is
+   * replaced with the importMetaObject option, or with an object containing those properties. For
+   * SystemJS, this becomes `_context.meta`.
+   *
+   * AMD and UMD modules don't necessarily run in Node, so `filename` and `dirname` aren't supported
+   * there.
+   */
+  private processImportMeta(): void {
+    if (this.importProcessor.isSystemModule) {
+      this.tokens.replaceToken(`${this.importProcessor.systemContextName}.meta`);
+      this.tokens.removeToken();
+      this.tokens.removeToken();
+      return;
+    }
+    const isNodeModule = !this.isAMDModule && !this.isUMDModule;
+    const propertyIndex = this.tokens.currentIndex() + 4;
+    if (
+      this.tokens.matchesAtIndex(propertyIndex - 1, [tt.dot, tt.name]) &&
+      !this.tokens.matchesAtIndex(propertyIndex + 1, [tt.eq])
+    ) {
+      const property = this.tokens.identifierNameAtIndex(propertyIndex);
+      let code = null;
+      if (property === "url") {
+        code = this.getImportMetaUrlCode();
+      } else if (Object.prototype.hasOwnProperty.call(IMPORT_META_NODE_PROPERTY_CODES, property)) {
+        if (!isNodeModule) {
+          throw new Error(`import.meta.${property} is not supported in AMD and UMD modules.`);
+        }
+        code = IMPORT_META_NODE_PROPERTY_CODES[property];
+      }
+      if (code) {
+        this.tokens.replaceToken(code);
+        while (this.tokens.currentIndex() <= propertyIndex) {
+          this.tokens.removeToken();
+        }
+        return;
+      }
+    }
+    let objectCode = this.importMetaObjectCode;
+    if (!objectCode) {
+      const propertyCodes = [`url: ${this.getImportMetaUrlCode()}`];
+      if (isNodeModule) {
+        for (const property of Object.keys(IMPORT_META_NODE_PROPERTY_CODES)) {
+          propertyCodes.push(`${property}: ${IMPORT_META_NODE_PROPERTY_CODES[property]}`);
+        }
+      }
+      objectCode = `({${propertyCodes.join(", ")}})`;
+    }
+    this.tokens.replaceToken(objectCode);
+    this.tokens.removeToken();
+    this.tokens.removeToken();
+  }
+
+  private getImportMetaUrlCode(): string {
+    return `${this.importProcessor.helperManager.getHelperName("importMetaUrl")}(module)`;
+  }
+
+  /**
+   * Transform this:
+   * import('foo')
+   * into this:
+   * new Promise((_resolve, _reject) => require(['foo'], _resolve, _reject))
+   *
+   * In an AMD module, the synchronous form of require only works for modules that were listed as
+   * dependencies, so dynamic imports need to use the asynchronous form.
+   */
+  private processAMDDynamicImport(): void {
+    const resolveName = this.importProcessor.nameManager.claimFreeName("_resolve");
+    const rejectName = this.importProcessor.nameManager.claimFreeName("_reject");
+    this.tokens.replaceToken(`new Promise((${resolveName}, ${rejectName}) => require`);
+    const contextId = this.tokens.currentToken().contextId;
+    if (contextId == null) {
+      throw new Error("Expected context ID on dynamic import invocation.");
+    }
+    this.tokens.replaceToken("([");
+    this.processDynamicImportPath();
+    while (!this.tokens.matchesContextIdAndLabel(tt.parenR, contextId)) {
+      this.rootTransformer.processToken();
+    }
+    this.tokens.replaceToken(`], ${resolveName}, ${rejectName}))`);
+  }
+
+  /**
+   * Transform this:
+   * import('foo')
+   * into this:
+   * new Promise((_resolve, _reject) => ((_path) => typeof module.uri === "string"
+   *   ? require([_path], _resolve, _reject)
+   *   : _resolve(require(_path)))('foo'))
+   *
+   * A UMD module only finds out at runtime whether it was loaded by an AMD loader, which needs the
+   * asynchronous form of require, or as a CommonJS module. Like the importMetaUrl helper, this
+   * detects AMD by its `module.uri` property.
+   */
+  private processUMDDynamicImport(): void {
+    const {nameManager} = this.importProcessor;
+    const resolveName = nameManager.claimFreeName("_resolve");
+    const rejectName = nameManager.claimFreeName("_reject");
+    const pathName = nameManager.claimFreeName("_path");
+    this.tokens.replaceToken(
+      `new Promise((${resolveName}, ${rejectName}) => ((${pathName}) => \
+typeof module.uri === "string" ? require([${pathName}], ${resolveName}, ${rejectName}) : \
+${resolveName}(require(${pathName})))`,
+    );
+    const contextId = this.tokens.currentToken().contextId;
+    if (contextId == null) {
+      throw new Error("Expected context ID on dynamic import invocation.");
+    }
+    this.tokens.copyToken();
+    this.processDynamicImportPath();
+    while (!this.tokens.matchesContextIdAndLabel(tt.parenR, contextId)) {
+      this.rootTransformer.processToken();
+    }
+    this.tokens.replaceToken("))");
+  }
+
   /**
    * Erase this import, and return true if it was either of the form "import type" or contained only
    * "type" named imports. Such imports should not even do a side-effect import.
@@ -206,16 +450,26 @@ export default class ImportTransformer extends Transformer {
   processExport(): boolean {
     if (
       this.tokens.matches2(tt._export, tt._enum) ||
-      this.tokens.matches3(tt._export, tt._const, tt._enum)
+      this.tokens.matches3(tt._export, tt._const, tt._enum) ||
+      this.tokens.matches2(tt._export, tt._namespace)
     ) {
       // Let the TypeScript transform handle it.
       return false;
     }
-    if (this.tokens.matches2(tt._export, tt._default)) {
+    const isExportDefaultSpecifier = this.importProcessor.isExportDefaultSpecifierAtIndex(
+      this.tokens.currentIndex(),
+    );
+    if (this.tokens.matches2(tt._export, tt._default) && !isExportDefaultSpecifier) {
       this.processExportDefault();
       this.hadDefaultExport = true;
       return true;
     }
+    if (this.tokens.matches2(tt._export, tt._default)) {
+      // export default from 'foo';
+      this.processExportFrom();
+      this.hadDefaultExport = true;
+      return true;
+    }
     this.hadNamedExport = true;
     if (
       this.tokens.matches2(tt._export, tt._var) ||
@@ -239,8 +493,8 @@ export default class ImportTransformer extends Transformer {
     } else if (this.tokens.matches2(tt._export, tt.braceL)) {
       this.processExportBindings();
       return true;
-    } else if (this.tokens.matches2(tt._export, tt.star)) {
-      this.processExportStar();
+    } else if (this.tokens.matches2(tt._export, tt.star) || isExportDefaultSpecifier) {
+      this.processExportFrom();
       return true;
     } else {
       throw new Error("Unrecognized export syntax.");
@@ -248,6 +502,10 @@ export default class ImportTransformer extends Transformer {
   }
 
   private processAssignment(): boolean {
+    if (this.isProcessingDestructuringPattern) {
+      // This is a default value, and the export will be updated after the whole assignment.
+      return false;
+    }
     const index = this.tokens.currentIndex();
     const identifierToken = this.tokens.tokens[index - 1];
     if (identifierToken.type !== tt.name) {
@@ -258,24 +516,341 @@ export default class ImportTransformer extends Transformer {
     }
     if (
       index - 2 >= 0 &&
-      [tt._var, tt._let, tt._const].includes(this.tokens.tokens[index - 2].type)
+      [tt._var, tt._let, tt._const].includes(this.tokens.tokens[index - 2].type) &&
+      !this.importProcessor.isSystemModule
     ) {
       // Declarations don't need an extra assignment. This doesn't avoid the
       // assignment for comma-separated declarations, but it's still correct
-      // since the assignment is just redundant.
+      // since the assignment is just redundant. In SystemJS, `export let`
+      // declarations stay local, so their initial value needs to be exported.
       return false;
     }
-    const exportedName = this.importProcessor.resolveExportBinding(
+    const exportedNames = this.importProcessor.resolveExportBindings(
       this.tokens.identifierNameForToken(identifierToken),
     );
-    if (!exportedName) {
+    if (exportedNames.length === 0) {
+      return false;
+    }
+    const {prefix, suffix} = this.getExportAssignmentCode(exportedNames);
+    const rhsEndIndex = this.tokens.currentToken().rhsEndIndex;
+    if (suffix && rhsEndIndex == null) {
+      return false;
+    }
+    this.tokens.copyToken();
+    this.tokens.appendCode(` ${prefix.trim()}`);
+    if (suffix) {
+      this.processTokensUntilIndex(rhsEndIndex!);
+      this.tokens.appendCode(suffix);
+    }
+    return true;
+  }
+
+  /**
+   * Transform this:
+   * count += 2;
+   * ++count;
+   * count++;
+   * into this:
+   * exports.count = count += 2;
+   * (exports.count = ++count);
+   * (_count = count++, exports.count = count, _count);
+   *
+   * where `count` is exported with `export {count}`. A postfix operation needs a temporary
+   * variable since its value is the value from before the update. If the binding is also declared
+   * with `export let`, the binding itself is `exports.count`, so it's used in place of `count`.
+   */
+  private processExportBindingUpdate(): boolean {
+    const index = this.tokens.currentIndex();
+    if (this.tokens.matches1(tt.incDec)) {
+      const exportedNames = this.getExportedNamesAtIndex(index + 1);
+      if (exportedNames.length === 0 || this.isPostfixOperatorAtIndex(index)) {
+        return false;
+      }
+      const operatorCode = this.tokens.code.slice(
+        this.tokens.currentToken().start,
+        this.tokens.currentToken().end,
+      );
+      const {prefix, suffix} = this.getExportAssignmentCode(exportedNames);
+      const prefixCode = this.getParenthesizedExpressionPrefix(index);
+      this.tokens.replaceToken(`${prefixCode}(${prefix}${operatorCode}`);
+      this.tokens.replaceToken(this.getBindingCodeAtIndex(index + 1));
+      this.tokens.appendCode(`${suffix})`);
+      return true;
+    }
+
+    const exportedNames = this.getExportedNamesAtIndex(index);
+    if (exportedNames.length === 0) {
+      return false;
+    }
+    const bindingCode = this.getBindingCodeAtIndex(index);
+    if (this.tokens.matches2(tt.name, tt.assign)) {
+      const {prefix, suffix} = this.getExportAssignmentCode(exportedNames);
+      const rhsEndIndex = this.tokens.tokens[index + 1].rhsEndIndex;
+      if (rhsEndIndex == null) {
+        throw new Error("Expected rhsEndIndex on compound assignment.");
+      }
+      this.tokens.replaceToken(`${prefix}${bindingCode}`);
+      if (suffix) {
+        this.processTokensUntilIndex(rhsEndIndex);
+        this.tokens.appendCode(suffix);
+      }
+      return true;
+    }
+    if (!this.isPostfixOperatorAtIndex(index + 1)) {
       return false;
     }
+    const localName = this.tokens.identifierName();
+    const resultName = this.rootTransformer.claimGeneratedVariable(`_${localName}`);
+    const prefixCode = this.getParenthesizedExpressionPrefix(index);
+    this.tokens.replaceToken(`${prefixCode}(${resultName} = ${bindingCode}`);
     this.tokens.copyToken();
-    this.tokens.appendCode(` exports.${exportedName} =`);
+    this.tokens.appendCode(`, ${this.getExportCode(exportedNames, bindingCode)}, ${resultName})`);
     return true;
   }
 
+  /**
+   * Transform this:
+   * [a, b] = [b, a];
+   * into this:
+   * (_temp = [a, b] = [b, a], exports.a = a, exports.b = b, _temp);
+   *
+   * where `a` and `b` are exported with `export {a, b}`. Any exported name in the pattern gets
+   * updated, including names only used in default values, but updating those is just redundant.
+   */
+  private processDestructuringAssignment(): boolean {
+    if (this.isProcessingDestructuringPattern || !this.importProcessor.hasExportBindings()) {
+      return false;
+    }
+    const patternStartIndex = this.tokens.currentIndex();
+    const patternEndIndex = this.getPatternEndIndex(patternStartIndex);
+    if (!this.tokens.matchesAtIndex(patternEndIndex, [tt.eq])) {
+      return false;
+    }
+    const exportAssignments = this.getPatternExportAssignments(patternStartIndex, patternEndIndex);
+    if (exportAssignments.length === 0) {
+      return false;
+    }
+    const rhsEndIndex = this.tokens.tokens[patternEndIndex].rhsEndIndex;
+    if (rhsEndIndex == null) {
+      throw new Error("Expected rhsEndIndex on destructuring assignment.");
+    }
+
+    const resultName = this.rootTransformer.claimGeneratedVariable("_temp");
+    const openBracketCode = this.tokens.matches1(tt.bracketL) ? "[" : "{";
+    this.tokens.replaceToken(`(${resultName} = ${openBracketCode}`);
+    this.isProcessingDestructuringPattern = true;
+    this.processTokensUntilIndex(patternEndIndex);
+    this.isProcessingDestructuringPattern = false;
+    this.processTokensUntilIndex(rhsEndIndex);
+    this.tokens.appendCode(`, ${exportAssignments.join(", ")}, ${resultName})`);
+    return true;
+  }
+
+  /**
+   * Transform this:
+   * for (count of counts) f(count);
+   * into this:
+   * for (count of counts) { exports.count = count; f(count); }
+   *
+   * where `count` is exported with `export {count}`, so that the export is updated at the start of
+   * each iteration. This also applies to for-in loops and destructuring patterns in the loop head.
+   */
+  private processForInOfLoop(): boolean {
+    const loopEndIndex = this.tokens.currentToken().rhsEndIndex;
+    if (loopEndIndex == null || !this.importProcessor.hasExportBindings()) {
+      return false;
+    }
+    let headStartIndex = this.tokens.currentIndex() + 1;
+    if (this.tokens.matchesContextualAtIndex(headStartIndex, ContextualKeyword._await)) {
+      headStartIndex++;
+    }
+    headStartIndex++;
+    if ([tt._var, tt._let, tt._const].includes(this.tokens.tokens[headStartIndex].type)) {
+      return false;
+    }
+    let headEndIndex = headStartIndex;
+    let depth = 0;
+    while (
+      depth > 0 ||
+      !(
+        this.tokens.matchesAtIndex(headEndIndex, [tt._in]) ||
+        this.tokens.matchesContextualAtIndex(headEndIndex, ContextualKeyword._of)
+      )
+    ) {
+      const tokenType = this.tokens.tokens[headEndIndex].type;
+      if ([tt.bracketL, tt.braceL, tt.dollarBraceL, tt.parenL].includes(tokenType)) {
+        depth++;
+      } else if ([tt.bracketR, tt.braceR, tt.parenR].includes(tokenType)) {
+        depth--;
+      }
+      headEndIndex++;
+    }
+    const exportAssignments = this.getPatternExportAssignments(headStartIndex, headEndIndex);
+    if (exportAssignments.length === 0) {
+      return false;
+    }
+    const bodyStartIndex = this.getPatternEndIndex(headStartIndex - 1);
+    const exportCode = exportAssignments.join("; ");
+
+    this.tokens.copyToken();
+    this.processTokensUntilIndex(bodyStartIndex);
+    if (this.tokens.matches1(tt.braceL)) {
+      this.rootTransformer.processToken();
+      this.tokens.appendCode(` ${exportCode};`);
+      this.processTokensUntilIndex(loopEndIndex);
+    } else {
+      this.tokens.appendCode(` { ${exportCode};`);
+      this.processTokensUntilIndex(loopEndIndex);
+      this.tokens.appendCode(" }");
+    }
+    return true;
+  }
+
+  /**
+   * Get the code to update the export of each exported name assigned in the pattern between the
+   * given indices. Each export is updated once, even if its name appears more than once, like in a
+   * computed key.
+   */
+  getPatternExportAssignments(startIndex: number, endIndex: number): Array<string> {
+    const localNames = new Set();
+    const exportAssignments = [];
+    for (let i = startIndex; i < endIndex; i++) {
+      const exportedNames = this.getExportedNamesAtIndex(i);
+      const localName = exportedNames.length > 0 ? this.tokens.identifierNameAtIndex(i) : null;
+      if (localName !== null && !localNames.has(localName)) {
+        localNames.add(localName);
+        exportAssignments.push(this.getExportCode(exportedNames, this.getBindingCodeAtIndex(i)));
+      }
+    }
+    return exportAssignments;
+  }
+
+  private processTokensUntilIndex(endIndex: number): void {
+    while (this.tokens.currentIndex() < endIndex) {
+      this.rootTransformer.processToken();
+    }
+  }
+
+  /**
+   * Get the code to put before and after an expression to assign its value to the given exports.
+   * The result is an expression with the same value as the original expression.
+   */
+  private getExportAssignmentCode(exportedNames: Array<string>): {prefix: string; suffix: string} {
+    if (this.importProcessor.isSystemModule) {
+      const {systemExportName} = this.importProcessor;
+      return {
+        prefix: exportedNames.map((name) => `${systemExportName}("${name}", `).join(""),
+        suffix: ")".repeat(exportedNames.length),
+      };
+    }
+    return {prefix: exportedNames.map((name) => `exports.${name} = `).join(""), suffix: ""};
+  }
+
+  private getExportCode(exportedNames: Array<string>, valueCode: string): string {
+    const {prefix, suffix} = this.getExportAssignmentCode(exportedNames);
+    return `${prefix}${valueCode}${suffix}`;
+  }
+
+  /**
+   * Given the index of an open-bracket or open-brace, get the index of the token after the
+   * matching close-bracket or close-brace.
+   */
+  private getPatternEndIndex(startIndex: number): number {
+    let depth = 0;
+    let index = startIndex;
+    do {
+      const tokenType = this.tokens.tokens[index].type;
+      if (
+        tokenType === tt.bracketL ||
+        tokenType === tt.braceL ||
+        tokenType === tt.dollarBraceL ||
+        tokenType === tt.parenL
+      ) {
+        depth++;
+      } else if (tokenType === tt.bracketR || tokenType === tt.braceR || tokenType === tt.parenR) {
+        depth--;
+      }
+      index++;
+    } while (depth > 0 && index < this.tokens.tokens.length);
+    return index;
+  }
+
+  /**
+   * Get the exported names for the identifier at the given index if it's a reference to a local
+   * binding exported with `export {...}`. Exported declarations like `export let x` are handled
+   * separately by replacing each reference with `exports.x`.
+   */
+  private getExportedNamesAtIndex(index: number): Array<string> {
+    const token = this.tokens.tokens[index];
+    if (
+      token.type !== tt.name ||
+      token.shadowsGlobal ||
+      (token.identifierRole !== IdentifierRole.Access &&
+        token.identifierRole !== IdentifierRole.ObjectShorthand) ||
+      (index > 0 && this.tokens.matchesAtIndex(index - 1, [tt.dot]))
+    ) {
+      return [];
+    }
+    return this.importProcessor.resolveExportBindings(this.tokens.identifierNameAtIndex(index));
+  }
+
+  /**
+   * Get the code to read the binding named by the identifier at the given index, which is
+   * `exports.x` for a binding declared with `export let x`.
+   */
+  private getBindingCodeAtIndex(index: number): string {
+    const name = this.tokens.identifierNameAtIndex(index);
+    return this.importProcessor.getIdentifierReplacement(name) || name;
+  }
+
+  /**
+   * Get the code to put before a parenthesized replacement of the expression starting at the given
+   * index. If the expression starts a line, the previous line may be missing its semicolon, and we
+   * need to add one so that the parens aren't treated as a function call.
+   */
+  private getParenthesizedExpressionPrefix(index: number): string {
+    if (index === 0) {
+      return "";
+    }
+    const previousToken = this.tokens.tokens[index - 1];
+    const isAfterLineBreak = this.tokens.code
+      .slice(previousToken.end, this.tokens.tokens[index].start)
+      .includes("\n");
+    const canEndExpression = [
+      tt.name,
+      tt.num,
+      tt.string,
+      tt.regexp,
+      tt.backQuote,
+      tt.bracketR,
+      tt.braceR,
+      tt.parenR,
+      tt.incDec,
+      tt._this,
+      tt._null,
+      tt._true,
+      tt._false,
+    ].includes(previousToken.type);
+    return isAfterLineBreak && canEndExpression ? ";" : "";
+  }
+
+  /**
+   * Determine if the `++` or `--` at the given index applies to the preceding expression rather
+   * than the following one. A line break before the operator always makes it a prefix operator.
+   */
+  private isPostfixOperatorAtIndex(index: number): boolean {
+    if (index === 0) {
+      return false;
+    }
+    const previousToken = this.tokens.tokens[index - 1];
+    if (![tt.name, tt.bracketR, tt.parenR].includes(previousToken.type)) {
+      return false;
+    }
+    return !this.tokens.code
+      .slice(previousToken.end, this.tokens.tokens[index].start)
+      .includes("\n");
+  }
+
   private processExportDefault(): void {
     if (
       this.tokens.matches4(tt._export, tt._default, tt._function, tt.name) ||
@@ -285,9 +860,9 @@ export default class ImportTransformer extends Transformer {
       this.tokens.removeInitialToken();
       this.tokens.removeToken();
       // Named function export case: change it to a top-level function
-      // declaration followed by exports statement.
-      const name = this.processNamedFunction();
-      this.tokens.appendCode(` exports.default = ${name};`);
+      // declaration and export it at the start of the module.
+      const name = this.rootTransformer.processNamedFunction();
+      this.exportHoistedFunction("default", name);
     } else if (
       this.tokens.matches4(tt._export, tt._default, tt._class, tt.name) ||
       this.tokens.matches5(tt._export, tt._default, tt._abstract, tt._class, tt.name)
@@ -298,7 +873,17 @@ export default class ImportTransformer extends Transformer {
         this.tokens.removeToken();
       }
       const name = this.rootTransformer.processNamedClass();
-      this.tokens.appendCode(` exports.default = ${name};`);
+      this.tokens.appendCode(` ${this.getExportCode(["default"], name)};`);
+    } else if (this.importProcessor.isSystemModule) {
+      const rhsEndIndex = this.tokens.tokens[this.tokens.currentIndex() + 1].rhsEndIndex;
+      if (rhsEndIndex == null) {
+        throw new Error("Expected rhsEndIndex on export default expression.");
+      }
+      const {prefix, suffix} = this.getExportAssignmentCode(["default"]);
+      this.tokens.replaceToken(prefix.trim());
+      this.tokens.removeToken();
+      this.processTokensUntilIndex(rhsEndIndex);
+      this.tokens.appendCode(suffix);
     } else {
       this.tokens.replaceToken("exports.");
       this.tokens.copyToken();
@@ -308,68 +893,78 @@ export default class ImportTransformer extends Transformer {
 
   /**
    * Transform this:
-   * export const x = 1;
+   * export const x = 1, y = 2;
    * into this:
-   * exports.x = 1;
+   * exports.x = 1, exports.y = 2;
+   *
+   * For SystemJS, this instead becomes `const x = _export("x", 1), y = _export("y", 2);`, and
+   * names declared in destructuring patterns are exported after the declaration.
    */
   private processExportVar(): void {
+    const declarators = getVariableDeclarators(this.tokens, this.tokens.currentIndex() + 2);
+    if (this.importProcessor.isSystemModule) {
+      // The declaration stays as-is, and each initializer is exported in processAssignment.
+      this.tokens.removeInitialToken();
+      const patternExportCodes = [];
+      for (const {isPattern, names} of declarators) {
+        if (isPattern) {
+          patternExportCodes.push(...names.map((name) => `${this.getExportCode([name], name)};`));
+        }
+      }
+      this.processTokensUntilIndex(declarators[declarators.length - 1].endIndex);
+      if (patternExportCodes.length > 0) {
+        if (this.tokens.matches1(tt.semi)) {
+          this.tokens.copyToken();
+        } else {
+          this.tokens.appendCode(";");
+        }
+        this.tokens.appendCode(` ${patternExportCodes.join(" ")}`);
+      }
+      return;
+    }
     this.tokens.removeInitialToken();
     this.tokens.removeToken();
-    if (!this.tokens.matches1(tt.name)) {
-      throw new Error("Expected a regular identifier after export var/let/const.");
-    }
-    const name = this.tokens.identifierName();
-    const replacement = this.importProcessor.getIdentifierReplacement(name);
-    if (replacement === null) {
-      throw new Error("Expected a replacement for `export var` syntax..");
+    for (const {isPattern, names, endIndex} of declarators) {
+      if (isPattern) {
+        throw new Error("Expected a regular identifier after export var/let/const.");
+      }
+      const replacement = this.importProcessor.getIdentifierReplacement(names[0]);
+      if (replacement === null) {
+        throw new Error("Expected a replacement for `export var` syntax..");
+      }
+      this.tokens.replaceToken(replacement);
+      this.processTokensUntilIndex(endIndex);
+      if (this.tokens.matches1(tt.comma)) {
+        this.tokens.copyToken();
+      }
     }
-    this.tokens.replaceToken(replacement);
   }
 
   /**
    * Transform this:
    * export function foo() {}
    * into this:
-   * function foo() {} exports.foo = foo;
+   * function foo() {}
+   * with `exports.foo = foo;` in the prefix.
    */
   private processExportFunction(): void {
     this.tokens.replaceToken("");
-    const name = this.processNamedFunction();
-    this.tokens.appendCode(` exports.${name} = ${name};`);
+    const name = this.rootTransformer.processNamedFunction();
+    this.exportHoistedFunction(name, name);
+  }
+
+  hasHoistedFunctionExports(): boolean {
+    return this.hoistedFunctionExportCodes.length > 0;
   }
 
   /**
-   * Skip past a function with a name and return that name.
+   * Export a function declaration at the start of the module, like Babel does, so that the export
+   * is available even if another module reads it before this module's body has run (e.g. with
+   * circular imports). In SystemJS modules, the module wrapper runs these exports in the
+   * declaration phase, before any setter or the execute function is called.
    */
-  private processNamedFunction(): string {
-    if (this.tokens.matches1(tt._function)) {
-      this.tokens.copyToken();
-    } else if (this.tokens.matches2(tt.name, tt._function)) {
-      if (!this.tokens.matchesContextual(ContextualKeyword._async)) {
-        throw new Error("Expected async keyword in function export.");
-      }
-      this.tokens.copyToken();
-      this.tokens.copyToken();
-    }
-    if (!this.tokens.matches1(tt.name)) {
-      throw new Error("Expected identifier for exported function name.");
-    }
-    const name = this.tokens.identifierName();
-    this.tokens.copyToken();
-    if (this.tokens.currentToken().isType) {
-      this.tokens.removeInitialToken();
-      while (this.tokens.currentToken().isType) {
-        this.tokens.removeToken();
-      }
-    }
-    this.tokens.copyExpectedToken(tt.parenL);
-    this.rootTransformer.processBalancedCode();
-    this.tokens.copyExpectedToken(tt.parenR);
-    this.rootTransformer.processPossibleTypeRange();
-    this.tokens.copyExpectedToken(tt.braceL);
-    this.rootTransformer.processBalancedCode();
-    this.tokens.copyExpectedToken(tt.braceR);
-    return name;
+  private exportHoistedFunction(exportedName: string, localName: string): void {
+    this.hoistedFunctionExportCodes.push(`${this.getExportCode([exportedName], localName)};`);
   }
 
   /**
@@ -384,7 +979,7 @@ export default class ImportTransformer extends Transformer {
       this.tokens.removeToken();
     }
     const name = this.rootTransformer.processNamedClass();
-    this.tokens.appendCode(` exports.${name} = ${name};`);
+    this.tokens.appendCode(` ${this.getExportCode([name], name)};`);
   }
 
   /**
@@ -416,7 +1011,15 @@ export default class ImportTransformer extends Transformer {
         exportedName = localName;
       }
       const newLocalName = this.importProcessor.getIdentifierReplacement(localName);
-      exportStatements.push(`exports.${exportedName} = ${newLocalName || localName};`);
+      if (this.importProcessor.isSystemExportedImportName(localName)) {
+        // The export is updated by the import's setter function.
+      } else if (newLocalName && this.importProcessor.isLazyImportName(localName)) {
+        // Reading a lazy import would load the module right away, so export it with a getter.
+        exportStatements.push(`Object.defineProperty(exports, '${exportedName}', \
+{enumerable: true, get: () => ${newLocalName}});`);
+      } else {
+        exportStatements.push(`${this.getExportCode([exportedName], newLocalName || localName)};`);
+      }
 
       if (this.tokens.matches1(tt.braceR)) {
         this.tokens.removeToken();
@@ -437,8 +1040,8 @@ export default class ImportTransformer extends Transformer {
       // This is an export...from, so throw away the normal named export code
       // and use the Object.defineProperty code from ImportProcessor.
       this.tokens.removeToken();
-      const path = this.tokens.stringValue();
-      this.tokens.replaceTokenTrimmingLeftWhitespace(this.importProcessor.claimImportCode(path));
+      const path = this.importProcessor.getPathAtIndex(this.tokens.currentIndex());
+      this.tokens.replaceTokenTrimmingLeftWhitespace(this.claimImportCode(path));
     } else {
       // This is a normal named export, so use that.
       this.tokens.appendCode(exportStatements.join(" "));
@@ -449,15 +1052,36 @@ export default class ImportTransformer extends Transformer {
     }
   }
 
-  private processExportStar(): void {
+  /**
+   * Transform an export...from statement with a star or default export specifier, like
+   * `export * as ns from 'foo';` or `export v from 'foo';`, into the pre-generated code from the
+   * ImportProcessor.
+   */
+  private processExportFrom(): void {
     this.tokens.removeInitialToken();
     while (!this.tokens.matches1(tt.string)) {
       this.tokens.removeToken();
     }
-    const path = this.tokens.stringValue();
-    this.tokens.replaceTokenTrimmingLeftWhitespace(this.importProcessor.claimImportCode(path));
+    const path = this.importProcessor.getPathAtIndex(this.tokens.currentIndex());
+    this.tokens.replaceTokenTrimmingLeftWhitespace(this.claimImportCode(path));
     if (this.tokens.matches1(tt.semi)) {
       this.tokens.removeToken();
     }
   }
+
+  /**
+   * Get the code to replace an import or export...from statement with. When hoisting imports, the
+   * code is instead saved to go in the prefix, so that all imports are evaluated before the rest
+   * of the module like in real ES modules.
+   */
+  private claimImportCode(path: string): string {
+    const importCode = this.importProcessor.claimImportCode(path);
+    if (this.shouldHoistImports) {
+      if (importCode) {
+        this.hoistedImportCodes.push(importCode);
+      }
+      return "";
+    }
+    return importCode;
+  }
 }
@@ -1,8 +1,12 @@
 import XHTMLEntities from "../../sucrase-babylon/plugins/jsx/xhtml";
+import {JSXRole} from "../../sucrase-babylon/tokenizer";
 import {TokenType as tt} from "../../sucrase-babylon/tokenizer/types";
+import HelperManager from "../HelperManager";
 import ImportProcessor from "../ImportProcessor";
+import {Options} from "../index";
 import NameManager from "../NameManager";
 import TokenProcessor from "../TokenProcessor";
+import {JSXPragmaInfo} from "../util/getJSXPragmaInfo";
 import RootTransformer from "./RootTransformer";
 import Transformer from "./Transformer";
 
@@ -11,17 +15,36 @@ const DECIMAL_NUMBER = /^\d+$/;
 
 export default class JSXTransformer extends Transformer {
   lastLineNumber: number = 1;
+  lastLineStart: number = 0;
   lastIndex: number = 0;
   filenameVarName: string | null = null;
+  readonly filePath: string | null;
+  readonly isProduction: boolean;
+  readonly isAutomaticRuntime: boolean;
+  readonly jsxImportSource: string;
+  readonly shouldTransformObjectSpread: boolean;
+  // When the imports transform is enabled, names from the automatic runtime are accessed through a
+  // required module. These are the module variable names, keyed by import path.
+  cjsRuntimeModuleNames: Map<string, string> = new Map();
+  // Otherwise, names are imported individually. These are the local names, keyed by import path
+  // and then by imported name.
+  esmRuntimeImportNames: Map<string, Map<string, string>> = new Map();
 
   constructor(
     readonly rootTransformer: RootTransformer,
     readonly tokens: TokenProcessor,
-    readonly importProcessor: ImportProcessor,
+    readonly importProcessor: ImportProcessor | null,
     readonly nameManager: NameManager,
-    readonly filePath: string | null,
+    readonly helperManager: HelperManager,
+    readonly jsxPragmaInfo: JSXPragmaInfo,
+    options: Options,
   ) {
     super();
+    this.filePath = options.filePath || null;
+    this.isProduction = Boolean(options.production);
+    this.isAutomaticRuntime = options.jsxRuntime === "automatic";
+    this.jsxImportSource = options.jsxImportSource || "react";
+    this.shouldTransformObjectSpread = options.transforms.includes("object-rest-spread");
   }
 
   process(): boolean {
@@ -33,26 +56,36 @@ export default class JSXTransformer extends Transformer {
   }
 
   getPrefixCode(): string {
+    let prefix = "";
     if (this.filenameVarName) {
-      return `const ${this.filenameVarName} = ${JSON.stringify(this.filePath || "")};`;
-    } else {
-      return "";
+      prefix += `const ${this.filenameVarName} = ${JSON.stringify(this.filePath || "")};`;
+    }
+    for (const [path, moduleName] of this.cjsRuntimeModuleNames) {
+      prefix += `var ${moduleName} = require(${JSON.stringify(path)});`;
+    }
+    for (const [path, importNames] of this.esmRuntimeImportNames) {
+      const importSpecifiers = [...importNames].map(
+        ([importedName, localName]) => `${importedName} as ${localName}`,
+      );
+      prefix += `import {${importSpecifiers.join(", ")}} from ${JSON.stringify(path)};`;
     }
+    return prefix;
   }
 
   /**
-   * Lazily calculate line numbers to avoid unneeded work. We assume this is always called in
-   * increasing order by index.
+   * Lazily calculate line and column numbers to avoid unneeded work. We assume this is always
+   * called in increasing order by index. Both line and column numbers are 1-based.
    */
-  getLineNumberForIndex(index: number): number {
+  getLineAndColumnForIndex(index: number): {lineNumber: number; columnNumber: number} {
     const code = this.tokens.code;
     while (this.lastIndex < index && this.lastIndex < code.length) {
       if (code[this.lastIndex] === "\n") {
         this.lastLineNumber++;
+        this.lastLineStart = this.lastIndex + 1;
       }
       this.lastIndex++;
     }
-    return this.lastLineNumber;
+    return {lineNumber: this.lastLineNumber, columnNumber: index - this.lastLineStart + 1};
   }
 
   getFilenameVarName(): string {
@@ -62,33 +95,132 @@ export default class JSXTransformer extends Transformer {
     return this.filenameVarName;
   }
 
+  getDevProps(firstTokenStart: number): string {
+    return `__self: this, __source: ${this.getSourceCode(firstTokenStart)}`;
+  }
+
+  getSourceCode(firstTokenStart: number): string {
+    const {lineNumber, columnNumber} = this.getLineAndColumnForIndex(firstTokenStart);
+    return `{fileName: ${this.getFilenameVarName()}, lineNumber: ${lineNumber}, columnNumber: ${columnNumber}}`;
+  }
+
+  /**
+   * Get the code to access the given name exported by the automatic JSX runtime, e.g. `_jsx` or
+   * `_jsxruntime.jsx`. The import is added to the prefix the first time each name is used.
+   */
+  claimRuntimeName(importedName: string, path: string): string {
+    if (this.importProcessor) {
+      let moduleName = this.cjsRuntimeModuleNames.get(path);
+      if (!moduleName) {
+        moduleName = this.importProcessor.getFreeIdentifierForPath(path);
+        this.cjsRuntimeModuleNames.set(path, moduleName);
+        this.importProcessor.addGeneratedRequirePath(path);
+      }
+      return `${moduleName}.${importedName}`;
+    }
+    let importNames = this.esmRuntimeImportNames.get(path);
+    if (!importNames) {
+      importNames = new Map();
+      this.esmRuntimeImportNames.set(path, importNames);
+    }
+    let localName = importNames.get(importedName);
+    if (!localName) {
+      localName = this.nameManager.claimFreeName(`_${importedName}`);
+      importNames.set(importedName, localName);
+    }
+    return localName;
+  }
+
+  getRuntimePath(): string {
+    return this.isProduction
+      ? `${this.jsxImportSource}/jsx-runtime`
+      : `${this.jsxImportSource}/jsx-dev-runtime`;
+  }
+
   processProps(firstTokenStart: number): void {
-    const lineNumber = this.getLineNumberForIndex(firstTokenStart);
-    const devProps = `__self: this, __source: {fileName: ${this.getFilenameVarName()}, lineNumber: ${lineNumber}}`;
+    const devProps = this.isProduction ? null : this.getDevProps(firstTokenStart);
     if (!this.tokens.matches1(tt.jsxName) && !this.tokens.matches1(tt.braceL)) {
-      this.tokens.appendCode(`, {${devProps}}`);
+      this.tokens.appendCode(devProps ? `, {${devProps}}` : ", null");
       return;
     }
-    this.tokens.appendCode(`, {`);
+    const {propsStartCode, propsEndCode} = this.getPropsObjectCode();
+    this.tokens.appendCode(`, ${propsStartCode}`);
+    this.processPropKeyValuePairs(false);
+    if (devProps) {
+      this.tokens.appendCode(` ${devProps}${propsEndCode}`);
+    } else {
+      this.tokens.appendCode(propsEndCode);
+    }
+  }
+
+  /**
+   * Get the code to start and end the props object for the current tag. When compiling object
+   * spread, a tag with a prop spread gets an `_extends` call instead of an object literal, and each
+   * spread closes the current object and opens a new one.
+   */
+  getPropsObjectCode(): {propsStartCode: string; propsEndCode: string} {
+    if (this.shouldTransformObjectSpread && this.hasPropSpread()) {
+      const helperName = this.helperManager.getHelperName("extends");
+      return {propsStartCode: `${helperName}({`, propsEndCode: "})"};
+    }
+    return {propsStartCode: "{", propsEndCode: "}"};
+  }
+
+  /**
+   * Determine if the props of the current tag include a spread like `{...a}`.
+   */
+  hasPropSpread(): boolean {
+    let braceDepth = 0;
+    for (let i = this.tokens.currentIndex(); i < this.tokens.tokens.length; i++) {
+      const tokenType = this.tokens.tokens[i].type;
+      if (tokenType === tt.braceL || tokenType === tt.dollarBraceL) {
+        if (braceDepth === 0 && this.tokens.matchesAtIndex(i + 1, [tt.ellipsis])) {
+          return true;
+        }
+        braceDepth++;
+      } else if (tokenType === tt.braceR) {
+        braceDepth--;
+      } else if (tokenType === tt.jsxTagEnd && braceDepth === 0) {
+        return false;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Process all props on the tag as object key/value pairs, each followed by a comma. If
+   * shouldExtractKey is true, the key prop is removed, and the code for its value is returned.
+   */
+  processPropKeyValuePairs(shouldExtractKey: boolean): string | null {
+    let keyCode = null;
     while (true) {
       if (this.tokens.matches2(tt.jsxName, tt.eq)) {
         const keyName = this.tokens.identifierName();
+        if (shouldExtractKey && keyName === "key") {
+          // key=
+          this.tokens.removeToken();
+          this.tokens.removeToken();
+          const snapshot = this.tokens.snapshot();
+          this.processPropValue();
+          keyCode = this.tokens.dangerouslyGetAndRemoveCodeSinceSnapshot(snapshot);
+          continue;
+        }
         if (keyName.includes("-")) {
           this.tokens.replaceToken(`'${keyName}'`);
         } else {
           this.tokens.copyToken();
         }
         this.tokens.replaceToken(": ");
-        if (this.tokens.matches1(tt.braceL)) {
-          this.tokens.replaceToken("");
-          this.rootTransformer.processBalancedCode();
-          this.tokens.replaceToken("");
-        } else {
-          this.processStringPropValue();
-        }
+        this.processPropValue();
       } else if (this.tokens.matches1(tt.jsxName)) {
         this.tokens.copyToken();
         this.tokens.appendCode(": true");
+      } else if (this.tokens.matches2(tt.braceL, tt.ellipsis) && this.shouldTransformObjectSpread) {
+        this.tokens.replaceToken("");
+        this.tokens.replaceToken("}, ");
+        this.rootTransformer.processBalancedCode();
+        this.tokens.replaceToken(", {");
+        continue;
       } else if (this.tokens.matches1(tt.braceL)) {
         this.tokens.replaceToken("");
         this.rootTransformer.processBalancedCode();
@@ -98,7 +230,17 @@ export default class JSXTransformer extends Transformer {
       }
       this.tokens.appendCode(",");
     }
-    this.tokens.appendCode(` ${devProps}}`);
+    return keyCode;
+  }
+
+  processPropValue(): void {
+    if (this.tokens.matches1(tt.braceL)) {
+      this.tokens.replaceToken("");
+      this.rootTransformer.processBalancedCode();
+      this.tokens.replaceToken("");
+    } else {
+      this.processStringPropValue();
+    }
   }
 
   processStringPropValue(): void {
@@ -138,7 +280,12 @@ export default class JSXTransformer extends Transformer {
     }
   }
 
-  processChildren(): void {
+  /**
+   * Process the children of a tag, separated by commas. If needsInitialComma is true, the first
+   * child is also preceded by a comma.
+   */
+  processChildren(needsInitialComma: boolean): void {
+    let needsComma = needsInitialComma;
     while (true) {
       if (this.tokens.matches2(tt.jsxTagStart, tt.slash)) {
         // Closing tag, so no more children.
@@ -152,39 +299,88 @@ export default class JSXTransformer extends Transformer {
           this.tokens.replaceToken("");
         } else {
           // Interpolated expression.
-          this.tokens.replaceToken(", ");
+          this.tokens.replaceToken(needsComma ? ", " : "");
           this.rootTransformer.processBalancedCode();
           this.tokens.replaceToken("");
+          needsComma = true;
         }
       } else if (this.tokens.matches1(tt.jsxTagStart)) {
         // Child JSX element
-        this.tokens.appendCode(", ");
+        this.tokens.appendCode(needsComma ? ", " : "");
         this.processJSXTag();
+        needsComma = true;
       } else if (this.tokens.matches1(tt.jsxText)) {
-        this.processChildTextElement();
+        if (this.processChildTextElement(needsComma)) {
+          needsComma = true;
+        }
       } else {
         throw new Error("Unexpected token when processing JSX children.");
       }
     }
   }
 
-  processChildTextElement(): void {
+  /**
+   * Returns true if the text produced a child, or false if it was only whitespace.
+   */
+  processChildTextElement(needsComma: boolean): boolean {
     const token = this.tokens.currentToken();
     const valueCode = this.tokens.code.slice(token.start, token.end);
     const replacementCode = formatJSXTextReplacement(valueCode);
     const literalCode = formatJSXTextLiteral(valueCode);
     if (literalCode === '""') {
       this.tokens.replaceToken(replacementCode);
+      return false;
     } else {
-      this.tokens.replaceToken(`, ${literalCode}${replacementCode}`);
+      this.tokens.replaceToken(`${needsComma ? ", " : ""}${literalCode}${replacementCode}`);
+      return true;
     }
   }
 
+  /**
+   * Get the code for the JSX pragma or fragment pragma, resolving the first identifier through
+   * imports if necessary.
+   */
+  getPragmaCode(base: string, suffix: string): string {
+    const resolvedBase =
+      (this.importProcessor && this.importProcessor.getIdentifierReplacement(base)) || base;
+    return resolvedBase + suffix;
+  }
+
+  /**
+   * Transform this:
+   * <>{a}</>
+   * into this:
+   * React.createElement(React.Fragment, null, a)
+   */
+  processFragment(createElementCode: string): void {
+    const {fragmentBase, fragmentSuffix} = this.jsxPragmaInfo;
+    this.tokens.replaceToken(`${createElementCode}(`);
+    this.tokens.replaceToken(`${this.getPragmaCode(fragmentBase, fragmentSuffix)}, null`);
+    this.processChildren(true);
+    // </>
+    this.tokens.replaceToken("");
+    this.tokens.replaceToken("");
+    this.tokens.replaceToken(")");
+  }
+
   processJSXTag(): void {
-    const resolvedReactName = this.importProcessor.getIdentifierReplacement("React") || "React";
+    const {jsxRole} = this.tokens.currentToken();
+    if (this.isAutomaticRuntime && jsxRole !== JSXRole.KeyAfterPropSpread) {
+      this.processAutomaticJSXTag(jsxRole);
+      return;
+    }
+    // The automatic runtime can't handle a key after a prop spread, so those elements fall back to
+    // createElement.
+    const createElementCode = this.isAutomaticRuntime
+      ? this.claimRuntimeName("createElement", this.jsxImportSource)
+      : this.getPragmaCode(this.jsxPragmaInfo.base, this.jsxPragmaInfo.suffix);
     const firstTokenStart = this.tokens.currentToken().start;
+    if (this.tokens.matches2(tt.jsxTagStart, tt.jsxTagEnd)) {
+      this.processFragment(createElementCode);
+      return;
+    }
     // First tag is always jsxTagStart.
-    this.tokens.replaceToken(`${resolvedReactName}.createElement(`);
+    this.tokens.replaceToken(`${createElementCode}(`);
     this.processTagIntro();
     this.processProps(firstTokenStart);
 
@@ -195,7 +391,7 @@ export default class JSXTransformer extends Transformer {
     } else if (this.tokens.matches1(tt.jsxTagEnd)) {
       this.tokens.replaceToken("");
       // Tag with children.
-      this.processChildren();
+      this.processChildren(true);
       while (!this.tokens.matches1(tt.jsxTagEnd)) {
         this.tokens.replaceToken("");
       }
@@ -204,6 +400,76 @@ export default class JSXTransformer extends Transformer {
       throw new Error("Expected either /> or > at the end of the tag.");
     }
   }
+
+  /**
+   * Transform a tag into a call to the automatic JSX runtime. For example, transform this:
+   * <div a="b" key={c}>{d}</div>
+   * into this:
+   * _jsx('div', { a: "b", children: d}, c)
+   *
+   * Elements with multiple children use jsxs with an array of children, and development mode uses
+   * jsxDEV with additional arguments.
+   */
+  processAutomaticJSXTag(jsxRole: JSXRole | null): void {
+    const isStaticChildren = jsxRole === JSXRole.StaticChildren;
+    const runtimePath = this.getRuntimePath();
+    let funcName;
+    if (!this.isProduction) {
+      funcName = "jsxDEV";
+    } else if (isStaticChildren) {
+      funcName = "jsxs";
+    } else {
+      funcName = "jsx";
+    }
+    // Compute the source location up front, since we need to compute locations in order.
+    const sourceCode = this.isProduction
+      ? null
+      : this.getSourceCode(this.tokens.currentToken().start);
+    this.tokens.replaceToken(`${this.claimRuntimeName(funcName, runtimePath)}(`);
+    let keyCode = null;
+    let propsEndCode = "}";
+    if (this.tokens.matches1(tt.jsxTagEnd)) {
+      // Fragment.
+      this.tokens.appendCode(`${this.claimRuntimeName("Fragment", runtimePath)}, {`);
+    } else {
+      this.processTagIntro();
+      const propsObjectCode = this.getPropsObjectCode();
+      propsEndCode = propsObjectCode.propsEndCode;
+      this.tokens.appendCode(`, ${propsObjectCode.propsStartCode}`);
+      keyCode = this.processPropKeyValuePairs(true);
+    }
+
+    if (this.tokens.matches2(tt.slash, tt.jsxTagEnd)) {
+      // Self-closing tag.
+      this.tokens.appendCode(propsEndCode);
+      this.tokens.replaceToken("");
+    } else if (this.tokens.matches1(tt.jsxTagEnd)) {
+      this.tokens.replaceToken("");
+      // Tag with children.
+      if (jsxRole === JSXRole.OneChild) {
+        this.tokens.appendCode(" children: ");
+      } else if (isStaticChildren) {
+        this.tokens.appendCode(" children: [");
+      }
+      this.processChildren(false);
+      this.tokens.appendCode(isStaticChildren ? `]${propsEndCode}` : propsEndCode);
+      while (!this.tokens.matches1(tt.jsxTagEnd)) {
+        this.tokens.replaceToken("");
+      }
+    } else {
+      throw new Error("Expected either /> or > at the end of the tag.");
+    }
+
+    if (sourceCode) {
+      this.tokens.replaceToken(
+        `, ${keyCode || "undefined"}, ${isStaticChildren}, ${sourceCode}, this)`,
+      );
+    } else if (keyCode) {
+      this.tokens.replaceToken(`, ${keyCode})`);
+    } else {
+      this.tokens.replaceToken(")");
+    }
+  }
 }
 
 function startsWithLowerCase(s: string): boolean {
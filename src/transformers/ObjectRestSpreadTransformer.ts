@@ -0,0 +1,656 @@
+import {ContextualKeyword, IdentifierRole} from "../../sucrase-babylon/tokenizer";
+import {TokenType as tt} from "../../sucrase-babylon/tokenizer/types";
+import HelperManager from "../HelperManager";
+import NameManager from "../NameManager";
+import TokenProcessor from "../TokenProcessor";
+import RootTransformer from "./RootTransformer";
+import Transformer from "./Transformer";
+
+/**
+ * Transformer for object spread (`{...a, b}`) and object rest (`const {a, ...b} = c;`), for tools
+ * and runtimes that don't support them.
+ *
+ * Object spread becomes a call to an `_extends` helper that works like `Object.assign`, e.g.
+ * `{a, ...b, c}` becomes `_extends({a, }, b, {c})`.
+ *
+ * Each object pattern with a rest element is replaced by a temporary variable, and the pattern
+ * without its rest element is destructured from that variable in an extra declaration, along with
+ * the rest variable computed by an `_objectWithoutProperties` helper. For example,
+ * `const {a, ...b} = c;` becomes
+ * `const _ref = c, {a, } = _ref, b = _objectWithoutProperties(_ref, ["a"]);`. For parameters and
+ * catch clause bindings, the extra declarations are added as a `let` at the start of the body, and
+ * for for-in and for-of loop variables, they're added at the start of the loop body. Destructuring
+ * assignments work the same way, but become a comma expression with assignments instead of
+ * declarators.
+ *
+ * Like Babel's loose mode, symbol keys are copied by the helpers, but getters are invoked rather
+ * than copied.
+ */
+export default class ObjectRestSpreadTransformer extends Transformer {
+  // Declarations to add at the start of function and catch bodies, keyed by the index of the `{`
+  // or `=>` token starting the body.
+  private bodyDeclarations: Map<number, Array<string>> = new Map();
+  // True while processing the pattern of a destructuring assignment, where targets can be any
+  // assignable expression and temporary variables need to be declared separately.
+  private isProcessingAssignmentPattern: boolean = false;
+
+  constructor(
+    readonly rootTransformer: RootTransformer,
+    readonly tokens: TokenProcessor,
+    readonly nameManager: NameManager,
+    readonly helperManager: HelperManager,
+  ) {
+    super();
+  }
+
+  getPrefixCode(): string {
+    return this.helperManager.emitHelpers(["extends", "objectWithoutProperties"]);
+  }
+
+  process(): boolean {
+    const token = this.tokens.currentToken();
+    if (token.isType) {
+      return false;
+    }
+    if (
+      (token.startsObjectRestBinding || token.startsObjectRestAssignment) &&
+      this.isForAwaitHeadPattern()
+    ) {
+      // The loop itself was transformed by AsyncToGeneratorTransformer, so its head isn't a
+      // pattern anymore.
+      throw new Error(
+        "Object rest in for await loop heads is not supported when compiling async functions.",
+      );
+    }
+    if (token.startsObjectRestBinding) {
+      this.processObjectRestBinding();
+      return true;
+    }
+    if (token.startsObjectRestAssignment) {
+      this.processObjectRestAssignment();
+      return true;
+    }
+    if (this.tokens.matches1(tt._for) && this.isForInOfLoopWithObjectRest()) {
+      this.processForInOfLoop();
+      return true;
+    }
+    if (this.bodyDeclarations.has(this.tokens.currentIndex())) {
+      this.processBodyStart();
+      return true;
+    }
+    if (this.tokens.matches1(tt.braceL) && this.hasObjectSpread()) {
+      this.processObjectSpread();
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Transform a variable, parameter, or catch clause binding with an object rest element in its
+   * pattern. Variable declarations get the extra declarators right after their initializer, and
+   * other bindings get them at the start of the function or catch body.
+   */
+  private processObjectRestBinding(): void {
+    const patternStartIndex = this.tokens.currentIndex();
+    const declarators: Array<string> = [];
+    this.processBindingPattern(declarators);
+    this.rootTransformer.processPossibleTypeRange();
+    if (this.tokens.matches1(tt.eq) && this.tokens.currentToken().rhsEndIndex !== null) {
+      const rhsEndIndex = this.tokens.currentToken().rhsEndIndex!;
+      this.tokens.copyToken();
+      while (this.tokens.currentIndex() < rhsEndIndex) {
+        this.rootTransformer.processToken();
+      }
+      if (declarators.length > 0) {
+        this.tokens.appendCode(`, ${declarators.join(", ")}`);
+      }
+    } else if (declarators.length > 0) {
+      this.checkLaterParameters(patternStartIndex);
+      const bodyIndex = this.getBodyIndex();
+      const existingDeclarators = this.bodyDeclarations.get(bodyIndex) || [];
+      this.bodyDeclarations.set(bodyIndex, [...existingDeclarators, ...declarators]);
+    }
+  }
+
+  /**
+   * Transform a destructuring assignment with an object rest element in its pattern into a comma
+   * expression, e.g. `({a, ...b} = c)` becomes
+   * `(_ref = c, {a, } = _ref, b = _objectWithoutProperties(_ref, ["a"]), _ref)`. The result of the
+   * expression is still the assigned value, and any exported variables in the pattern are updated.
+   */
+  private processObjectRestAssignment(): void {
+    const patternStartIndex = this.tokens.currentIndex();
+    const assignments: Array<string> = [];
+    const {leadingWhitespace, patternCode} = this.processAssignmentPattern(assignments);
+    const rhsEndIndex = this.tokens.currentToken().rhsEndIndex;
+    if (!this.tokens.matches1(tt.eq) || rhsEndIndex == null) {
+      throw new Error("Expected rhsEndIndex on destructuring assignment.");
+    }
+    const exportAssignments = this.rootTransformer.getPatternExportAssignments(
+      patternStartIndex,
+      this.tokens.currentIndex(),
+    );
+
+    // If the whole pattern was replaced by a temporary variable, it also holds the result.
+    let resultName = patternCode;
+    let targetCode = patternCode;
+    if (!/^[\w$]+$/.test(patternCode)) {
+      resultName = this.rootTransformer.claimGeneratedVariable("_temp");
+      targetCode = `${resultName} = ${patternCode}`;
+    }
+    this.tokens.appendCode(`${leadingWhitespace}(${targetCode}`);
+    this.tokens.copyToken();
+    while (this.tokens.currentIndex() < rhsEndIndex) {
+      this.rootTransformer.processToken();
+    }
+    this.tokens.appendCode(`, ${[...assignments, ...exportAssignments, resultName].join(", ")})`);
+  }
+
+  /**
+   * Process the pattern of a destructuring assignment, and remove its code so that it can be
+   * placed elsewhere.
+   */
+  private processAssignmentPattern(
+    assignments: Array<string>,
+  ): {leadingWhitespace: string; patternCode: string} {
+    const snapshot = this.tokens.snapshot();
+    this.isProcessingAssignmentPattern = true;
+    this.processBindingPattern(assignments);
+    this.isProcessingAssignmentPattern = false;
+    const code = this.tokens.dangerouslyGetAndRemoveCodeSinceSnapshot(snapshot);
+    const leadingWhitespace = code.match(/^\s*/)![0];
+    return {leadingWhitespace, patternCode: code.slice(leadingWhitespace.length)};
+  }
+
+  /**
+   * Determine if the current `for` token starts a for-in or for-of loop with object rest in the
+   * pattern of its loop variable or assignment target.
+   */
+  private isForInOfLoopWithObjectRest(): boolean {
+    if (this.tokens.currentToken().rhsEndIndex == null) {
+      return false;
+    }
+    const patternToken = this.tokens.tokens[this.getForHeadPatternIndex()];
+    return patternToken.startsObjectRestBinding || patternToken.startsObjectRestAssignment;
+  }
+
+  /**
+   * Determine if the current token starts the pattern in the head of a `for await` loop.
+   */
+  private isForAwaitHeadPattern(): boolean {
+    let index = this.tokens.currentIndex() - 1;
+    if (index >= 0 && [tt._var, tt._let, tt._const].includes(this.tokens.tokens[index].type)) {
+      index--;
+    }
+    return (
+      index >= 2 &&
+      this.tokens.matchesAtIndex(index - 2, [tt._for]) &&
+      this.tokens.matchesContextualAtIndex(index - 1, ContextualKeyword._await) &&
+      this.tokens.matchesAtIndex(index, [tt.parenL])
+    );
+  }
+
+  /**
+   * Get the index of the first token of the pattern in the head of the for loop at the current
+   * token, skipping past `await`, `(`, and any declaration keyword.
+   */
+  private getForHeadPatternIndex(): number {
+    let index = this.tokens.currentIndex() + 1;
+    if (this.tokens.matchesContextualAtIndex(index, ContextualKeyword._await)) {
+      index++;
+    }
+    index++;
+    if ([tt._var, tt._let, tt._const].includes(this.tokens.tokens[index].type)) {
+      index++;
+    }
+    return index;
+  }
+
+  /**
+   * Transform a for-in or for-of loop with object rest in its head. The pattern is replaced by a
+   * temporary variable, which is destructured at the start of the loop body, e.g.
+   * `for (const {a, ...b} of c) f();` becomes
+   * `for (const _ref of c) { const {a, } = _ref, b = _objectWithoutProperties(_ref, ["a"]); f(); }`.
+   * Without a declaration, the destructuring is done with a comma expression instead.
+   */
+  private processForInOfLoop(): void {
+    const loopEndIndex = this.tokens.currentToken().rhsEndIndex!;
+    const patternStartIndex = this.getForHeadPatternIndex();
+    const bodyStartIndex = this.getBodyStartIndexForLoop(patternStartIndex);
+    let declarationKeyword = null;
+    while (this.tokens.currentIndex() < patternStartIndex) {
+      if (
+        this.tokens.matches1(tt._var) ||
+        this.tokens.matches1(tt._let) ||
+        this.tokens.matches1(tt._const)
+      ) {
+        declarationKeyword = this.tokens.currentTokenCode();
+      }
+      this.tokens.copyToken();
+    }
+
+    const declarators: Array<string> = [];
+    let statementCode;
+    if (declarationKeyword) {
+      this.processBindingPattern(declarators);
+      statementCode = `${declarationKeyword} ${declarators.join(", ")};`;
+    } else {
+      const {leadingWhitespace, patternCode} = this.processAssignmentPattern(declarators);
+      this.tokens.appendCode(`${leadingWhitespace}${patternCode}`);
+      const exportAssignments = this.rootTransformer.getPatternExportAssignments(
+        patternStartIndex,
+        this.tokens.currentIndex(),
+      );
+      statementCode = `(${[...declarators, ...exportAssignments].join(", ")});`;
+    }
+    while (this.tokens.currentIndex() < bodyStartIndex) {
+      this.rootTransformer.processToken();
+    }
+
+    if (this.tokens.matches1(tt.braceL)) {
+      this.tokens.copyToken();
+      this.tokens.appendCode(` ${statementCode}`);
+      while (this.tokens.currentIndex() < loopEndIndex) {
+        this.rootTransformer.processToken();
+      }
+    } else {
+      this.tokens.appendCode(` { ${statementCode}`);
+      while (this.tokens.currentIndex() < loopEndIndex) {
+        this.rootTransformer.processToken();
+      }
+      this.tokens.appendCode(" }");
+    }
+  }
+
+  /**
+   * Starting from the pattern in the head of a for loop, find the index of the first token of the
+   * loop body, just after the `)` ending the head.
+   */
+  private getBodyStartIndexForLoop(patternStartIndex: number): number {
+    let depth = 0;
+    let index = patternStartIndex;
+    while (depth >= 0) {
+      const tokenType = this.tokens.tokens[index].type;
+      if (
+        tokenType === tt.braceL ||
+        tokenType === tt.dollarBraceL ||
+        tokenType === tt.bracketL ||
+        tokenType === tt.parenL
+      ) {
+        depth++;
+      } else if (tokenType === tt.braceR || tokenType === tt.bracketR || tokenType === tt.parenR) {
+        depth--;
+      }
+      index++;
+    }
+    return index;
+  }
+
+  /**
+   * Starting after a parameter whose bindings are moved into the function body, make sure that no
+   * later parameter refers to those bindings, e.g. in a default value like `b = a` in
+   * `function f({a, ...r}, b = a) {}`, since the later parameters are evaluated before the body.
+   */
+  private checkLaterParameters(patternStartIndex: number): void {
+    const movedNames = new Set<string>();
+    for (let index = patternStartIndex; index < this.tokens.currentIndex(); index++) {
+      const token = this.tokens.tokens[index];
+      if (
+        token.type === tt.name &&
+        !token.isType &&
+        (token.identifierRole === IdentifierRole.FunctionScopedDeclaration ||
+          token.identifierRole === IdentifierRole.BlockScopedDeclaration ||
+          token.identifierRole === IdentifierRole.ObjectShorthand)
+      ) {
+        movedNames.add(this.tokens.identifierNameAtIndex(index));
+      }
+    }
+    let depth = 0;
+    for (let index = this.tokens.currentIndex(); depth >= 0; index++) {
+      const token = this.tokens.tokens[index];
+      if (
+        token.type === tt.braceL ||
+        token.type === tt.dollarBraceL ||
+        token.type === tt.bracketL ||
+        token.type === tt.parenL
+      ) {
+        depth++;
+      } else if (
+        token.type === tt.braceR ||
+        token.type === tt.bracketR ||
+        token.type === tt.parenR
+      ) {
+        depth--;
+      } else if (
+        token.type === tt.name &&
+        !token.isType &&
+        (token.identifierRole === IdentifierRole.Access ||
+          token.identifierRole === IdentifierRole.ObjectShorthand) &&
+        movedNames.has(this.tokens.identifierNameAtIndex(index))
+      ) {
+        throw new Error(
+          `Parameters after a parameter with object rest can't refer to its bindings, but ` +
+            `${this.tokens.identifierNameAtIndex(index)} is referenced in a later parameter.`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Starting after a parameter or catch clause binding, find the `{` token that starts the body of
+   * its function or catch clause, or the `=>` token before an arrow function's expression body.
+   */
+  private getBodyIndex(): number {
+    let depth = 0;
+    let index = this.tokens.currentIndex();
+    while (depth >= 0) {
+      const tokenType = this.tokens.tokens[index].type;
+      if (
+        tokenType === tt.braceL ||
+        tokenType === tt.dollarBraceL ||
+        tokenType === tt.bracketL ||
+        tokenType === tt.parenL
+      ) {
+        depth++;
+      } else if (tokenType === tt.braceR || tokenType === tt.bracketR || tokenType === tt.parenR) {
+        depth--;
+      }
+      index++;
+    }
+    while (this.tokens.tokens[index].isType) {
+      index++;
+    }
+    if (this.tokens.matchesAtIndex(index, [tt.arrow, tt.braceL])) {
+      // An arrow function with a block body.
+      index++;
+    }
+    if (
+      !this.tokens.matchesAtIndex(index, [tt.braceL]) &&
+      !this.tokens.matchesAtIndex(index, [tt.arrow])
+    ) {
+      throw new Error("Expected a function or catch body after a binding with object rest.");
+    }
+    return index;
+  }
+
+  /**
+   * Add the pending declarations at the start of a function or catch body. Arrow functions with an
+   * expression body get a block body so that there's somewhere to declare the variables.
+   */
+  private processBodyStart(): void {
+    const declarationCode = `let ${this.bodyDeclarations.get(this.tokens.currentIndex())!.join(
+      ", ",
+    )};`;
+    if (this.tokens.matches1(tt.braceL)) {
+      this.tokens.copyToken();
+      this.tokens.appendCode(` ${declarationCode}`);
+      return;
+    }
+    const rhsEndIndex = this.tokens.currentToken().rhsEndIndex;
+    if (rhsEndIndex == null) {
+      throw new Error("Expected rhsEndIndex on arrow function with an expression body.");
+    }
+    this.tokens.copyExpectedToken(tt.arrow);
+    this.tokens.appendCode(` { ${declarationCode} return (`);
+    while (this.tokens.currentIndex() < rhsEndIndex) {
+      this.rootTransformer.processToken();
+    }
+    this.tokens.appendCode("); }");
+  }
+
+  private processBindingPattern(declarators: Array<string>): void {
+    if (this.tokens.matches1(tt.braceL)) {
+      this.processObjectPattern(declarators);
+    } else if (this.tokens.matches1(tt.bracketL)) {
+      this.processArrayPattern(declarators);
+    } else if (this.isProcessingAssignmentPattern) {
+      this.processAssignmentTarget();
+    } else {
+      this.rootTransformer.processToken();
+    }
+  }
+
+  /**
+   * Process an assignment target in a destructuring assignment pattern, like `a` or `this.a[b]`,
+   * up to its default value or the end of its pattern element.
+   */
+  private processAssignmentTarget(): void {
+    let depth = 0;
+    while (true) {
+      const tokenType = this.tokens.currentToken().type;
+      if (
+        tokenType === tt.braceL ||
+        tokenType === tt.dollarBraceL ||
+        tokenType === tt.bracketL ||
+        tokenType === tt.parenL
+      ) {
+        depth++;
+      } else if (tokenType === tt.braceR || tokenType === tt.bracketR || tokenType === tt.parenR) {
+        if (depth === 0) {
+          return;
+        }
+        depth--;
+      } else if ((tokenType === tt.comma || tokenType === tt.eq) && depth === 0) {
+        return;
+      }
+      this.rootTransformer.processToken();
+    }
+  }
+
+  private processArrayPattern(declarators: Array<string>): void {
+    this.tokens.copyExpectedToken(tt.bracketL);
+    while (!this.tokens.matches1(tt.bracketR)) {
+      if (this.tokens.matches1(tt.comma)) {
+        this.tokens.copyToken();
+        continue;
+      }
+      if (this.tokens.matches1(tt.ellipsis)) {
+        this.tokens.copyToken();
+      }
+      this.processBindingPattern(declarators);
+      this.processPossibleDefault();
+    }
+    this.tokens.copyExpectedToken(tt.bracketR);
+  }
+
+  /**
+   * Process an object pattern. If it has a rest element, it's replaced by a temporary variable,
+   * and the declarators to destructure that variable are added to the list.
+   */
+  private processObjectPattern(declarators: Array<string>): void {
+    const contextId = this.tokens.currentToken().contextId;
+    if (contextId == null) {
+      throw new Error("Expected context ID on object pattern.");
+    }
+    if (!this.hasElementInObject(tt.ellipsis)) {
+      this.tokens.copyToken();
+      while (!this.tokens.matchesContextIdAndLabel(tt.braceR, contextId)) {
+        this.processObjectPatternProperty(declarators, null);
+      }
+      this.tokens.copyToken();
+      return;
+    }
+
+    // In an assignment, the temporary variable isn't declared by the pattern itself.
+    const tempName = this.isProcessingAssignmentPattern
+      ? this.rootTransformer.claimGeneratedVariable("_ref")
+      : this.nameManager.claimFreeName("_ref");
+    const innerDeclarators: Array<string> = [];
+    const excludedKeyCodes: Array<string> = [];
+    let restName = null;
+    const snapshot = this.tokens.snapshot();
+    this.tokens.copyToken();
+    while (!this.tokens.matchesContextIdAndLabel(tt.braceR, contextId)) {
+      if (this.tokens.matchesContextIdAndLabel(tt.ellipsis, contextId)) {
+        this.tokens.removeToken();
+        if (this.isProcessingAssignmentPattern) {
+          const restSnapshot = this.tokens.snapshot();
+          this.processAssignmentTarget();
+          restName = this.tokens.dangerouslyGetAndRemoveCodeSinceSnapshot(restSnapshot).trim();
+        } else {
+          restName = this.tokens.identifierName();
+          this.tokens.removeToken();
+        }
+      } else {
+        this.processObjectPatternProperty(innerDeclarators, excludedKeyCodes);
+      }
+    }
+    this.tokens.copyToken();
+    const patternCode = this.tokens.dangerouslyGetAndRemoveCodeSinceSnapshot(snapshot);
+    const leadingWhitespace = patternCode.match(/^\s*/)![0];
+    this.tokens.appendCode(`${leadingWhitespace}${tempName}`);
+
+    const helperName = this.helperManager.getHelperName("objectWithoutProperties");
+    declarators.push(
+      `${patternCode.slice(leadingWhitespace.length)} = ${tempName}`,
+      `${restName} = ${helperName}(${tempName}, [${excludedKeyCodes.join(", ")}])`,
+      ...innerDeclarators,
+    );
+  }
+
+  /**
+   * Process a property in an object pattern, including its trailing comma. If excludedKeyCodes is
+   * non-null, the pattern has a rest element, so the code for the key is added to that list.
+   */
+  private processObjectPatternProperty(
+    declarators: Array<string>,
+    excludedKeyCodes: Array<string> | null,
+  ): void {
+    if (this.tokens.matches1(tt.bracketL)) {
+      this.tokens.copyToken();
+      if (excludedKeyCodes) {
+        // The computed key is saved so that it's only evaluated once.
+        const keyName = this.rootTransformer.claimGeneratedVariable("_key");
+        this.tokens.appendCode(`${keyName} = `);
+        excludedKeyCodes.push(keyName);
+      }
+      this.processExpressionInList();
+      this.tokens.copyExpectedToken(tt.bracketR);
+    } else {
+      if (excludedKeyCodes) {
+        const keyCode = this.tokens.currentTokenCode();
+        excludedKeyCodes.push(this.tokens.matches1(tt.string) ? keyCode : `"${keyCode}"`);
+      }
+      if (this.isProcessingAssignmentPattern) {
+        // A shorthand property may assign to a variable that other transformers replace.
+        this.rootTransformer.processToken();
+      } else {
+        this.tokens.copyToken();
+      }
+    }
+    if (this.tokens.matches1(tt.colon)) {
+      this.tokens.copyToken();
+      this.processBindingPattern(declarators);
+    }
+    this.processPossibleDefault();
+    if (this.tokens.matches1(tt.comma)) {
+      this.tokens.copyToken();
+    }
+  }
+
+  private processPossibleDefault(): void {
+    if (this.tokens.matches1(tt.eq)) {
+      this.tokens.copyToken();
+      this.processExpressionInList();
+    }
+  }
+
+  /**
+   * Process tokens up to the next comma or closing bracket or brace that isn't nested in the
+   * expression, like the end of a default value in a pattern or an item in an object literal.
+   */
+  private processExpressionInList(): void {
+    let depth = 0;
+    let endIndex = this.tokens.currentIndex();
+    while (true) {
+      const tokenType = this.tokens.tokens[endIndex].type;
+      if (
+        tokenType === tt.braceL ||
+        tokenType === tt.dollarBraceL ||
+        tokenType === tt.bracketL ||
+        tokenType === tt.parenL
+      ) {
+        depth++;
+      } else if (tokenType === tt.braceR || tokenType === tt.bracketR || tokenType === tt.parenR) {
+        if (depth === 0) {
+          break;
+        }
+        depth--;
+      } else if (tokenType === tt.comma && depth === 0) {
+        break;
+      }
+      endIndex++;
+    }
+    while (this.tokens.currentIndex() < endIndex) {
+      this.rootTransformer.processToken();
+    }
+  }
+
+  /**
+   * Determine if the current `{` starts an object literal with a spread element.
+   */
+  private hasObjectSpread(): boolean {
+    const contextId = this.tokens.currentToken().contextId;
+    if (contextId == null) {
+      return false;
+    }
+    // Object keys have the object's context ID, except for a key named `async`, so checking the
+    // next token quickly rules out most function and class bodies.
+    const nextToken = this.tokens.tokenAtRelativeIndex(1);
+    if (nextToken.contextId !== contextId && nextToken.type !== tt.name) {
+      return false;
+    }
+    return this.hasElementInObject(tt.ellipsis);
+  }
+
+  /**
+   * Determine if the object starting at the current `{` has a token of the given type with the
+   * object's context ID, i.e. at the top level of the object.
+   */
+  private hasElementInObject(tokenType: tt): boolean {
+    const contextId = this.tokens.currentToken().contextId;
+    for (let i = this.tokens.currentIndex() + 1; i < this.tokens.tokens.length; i++) {
+      const token = this.tokens.tokens[i];
+      if (token.contextId === contextId) {
+        if (token.type === tokenType) {
+          return true;
+        }
+        if (token.type === tt.braceR) {
+          return false;
+        }
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Transform an object literal with spread elements into a call to the `_extends` helper, with
+   * each spread value as its own argument and the other properties grouped into object literals.
+   */
+  private processObjectSpread(): void {
+    const contextId = this.tokens.currentToken().contextId!;
+    const helperName = this.helperManager.getHelperName("extends");
+    this.tokens.replaceToken(`${helperName}({`);
+    let isInObject = true;
+    while (!this.tokens.matchesContextIdAndLabel(tt.braceR, contextId)) {
+      if (this.tokens.matchesContextIdAndLabel(tt.ellipsis, contextId)) {
+        this.tokens.replaceToken(isInObject ? "}, " : "");
+        isInObject = false;
+      } else if (!isInObject) {
+        this.tokens.appendCode(" {");
+        isInObject = true;
+      }
+      this.processExpressionInList();
+      if (this.tokens.matches1(tt.comma)) {
+        const nextToken = this.tokens.tokenAtRelativeIndex(1);
+        if (!isInObject && nextToken.type === tt.braceR && nextToken.contextId === contextId) {
+          // Trailing commas aren't allowed in function calls in older JS versions.
+          this.tokens.removeToken();
+        } else {
+          this.tokens.copyToken();
+        }
+      }
+    }
+    this.tokens.replaceToken(isInObject ? "})" : ")");
+  }
+}
@@ -0,0 +1,167 @@
+import {TokenType as tt} from "../../sucrase-babylon/tokenizer/types";
+import HelperManager from "../HelperManager";
+import NameManager from "../NameManager";
+import TokenProcessor, {GENERATOR_CALLBACK_END_CODE} from "../TokenProcessor";
+import Transformer from "./Transformer";
+
+/**
+ * Transformer for optional chaining (`a?.b`) and nullish coalescing (`a ?? b`), for runtimes that
+ * don't support them. Each optional chain becomes a call to an `_optionalChain` helper with the
+ * base value and a list of operations, e.g. `a?.b.c()` becomes
+ * `_optionalChain([a, 'optionalAccess', _ => _.b, 'access', _2 => _2.c, 'call', _3 => _3()])`,
+ * so the base is only evaluated once and method calls get the right `this`. Each nullish
+ * coalescing expression becomes `_nullishCoalesce(a, () => (b))`.
+ *
+ * The helper call prefixes and suffixes are added by TokenProcessor, since the tokens at the start
+ * and end of these expressions may be processed by any transformer; this transformer only handles
+ * the operators.
+ *
+ * When these expressions contain `await` within an async function that's compiled to a generator
+ * function, the helper call is awaited with `yield` and each callback wraps a generator function
+ * with `_asyncToGenerator`, e.g. `_ => _asyncToGenerator(function* () { return _[(yield x)];
+ * }).apply(this, arguments)`.
+ */
+export default class OptionalChainingNullishTransformer extends Transformer {
+  constructor(
+    readonly tokens: TokenProcessor,
+    readonly nameManager: NameManager,
+    readonly helperManager: HelperManager,
+  ) {
+    super();
+  }
+
+  getPrefixCode(): string {
+    return this.helperManager.emitHelpers([
+      "optionalChain",
+      "asyncOptionalChain",
+      "nullishCoalesce",
+      "asyncNullishCoalesce",
+    ]);
+  }
+
+  process(): boolean {
+    if (this.tokens.matches1(tt.nullishCoalescing)) {
+      const startIndex = this.tokens.currentToken().nullishStartIndex!;
+      if (this.tokens.isGeneratorAsyncOperation(startIndex)) {
+        this.tokens.replaceTokenTrimmingLeftWhitespace(
+          `, () => ${this.getGeneratorCallbackStartCode()}(`,
+        );
+      } else {
+        const asyncCode = this.tokens.tokens[startIndex].isAsyncOperation ? "async " : "";
+        this.tokens.replaceTokenTrimmingLeftWhitespace(`, ${asyncCode}() => (`);
+      }
+      return true;
+    }
+    if (
+      this.tokens.matches1(tt._delete) &&
+      this.tokens.tokenAtRelativeIndex(1).isOptionalChainStart
+    ) {
+      // The delete is moved into the callback for the last subscript.
+      this.tokens.removeInitialToken();
+      return true;
+    }
+    const chainStartIndex = this.tokens.currentToken().subscriptStartIndex;
+    if (chainStartIndex === null || !this.tokens.tokens[chainStartIndex].isOptionalChainStart) {
+      return false;
+    }
+    const isSuper = this.tokens.matchesAtIndex(chainStartIndex, [tt._super]);
+    if (isSuper && this.tokens.currentIndex() === chainStartIndex + 1) {
+      // `super` can't be used as a value, so the first access stays as part of the base.
+      return false;
+    }
+    const param = this.nameManager.claimFreeName("_");
+    let callbackBodyCode = param;
+    if (
+      this.tokens.matchesAtIndex(chainStartIndex - 1, [tt._delete]) &&
+      this.isLastSubscriptInChain(chainStartIndex)
+    ) {
+      callbackBodyCode = `delete ${param}`;
+    }
+    let callbackCode = `${param} => ${callbackBodyCode}`;
+    if (this.tokens.isGeneratorAsyncOperation(chainStartIndex)) {
+      callbackCode = `${param} => ${this.getGeneratorCallbackStartCode()}${callbackBodyCode}`;
+      const previousSubscriptIndex = this.getPreviousSubscriptIndex(chainStartIndex);
+      if (
+        previousSubscriptIndex !== null &&
+        !(isSuper && previousSubscriptIndex === chainStartIndex + 1)
+      ) {
+        // End the callback for the previous subscript.
+        this.tokens.appendCode(GENERATOR_CALLBACK_END_CODE);
+      }
+    } else if (this.tokens.tokens[chainStartIndex].isAsyncOperation) {
+      callbackCode = `async ${callbackCode}`;
+    }
+    const isCall =
+      this.tokens.matches2(tt.questionDot, tt.parenL) || this.tokens.matches1(tt.parenL);
+    if (
+      isCall &&
+      isSuper &&
+      this.getPreviousSubscriptIndex(chainStartIndex) === chainStartIndex + 1
+    ) {
+      // The method was accessed on `super` in the base, so it needs to be bound to `this`.
+      this.tokens.appendCode(".bind(this)");
+    }
+    if (this.tokens.matches2(tt.questionDot, tt.parenL)) {
+      this.tokens.replaceTokenTrimmingLeftWhitespace(`, 'optionalCall', ${callbackCode}`);
+    } else if (this.tokens.matches2(tt.questionDot, tt.bracketL)) {
+      this.tokens.replaceTokenTrimmingLeftWhitespace(`, 'optionalAccess', ${callbackCode}`);
+    } else if (this.tokens.matches1(tt.questionDot)) {
+      this.tokens.replaceTokenTrimmingLeftWhitespace(`, 'optionalAccess', ${callbackCode}.`);
+    } else if (this.tokens.matches1(tt.dot)) {
+      this.tokens.replaceTokenTrimmingLeftWhitespace(`, 'access', ${callbackCode}.`);
+    } else if (this.tokens.matches1(tt.bracketL)) {
+      this.tokens.replaceTokenTrimmingLeftWhitespace(`, 'access', ${callbackCode}[`);
+    } else if (this.tokens.matches1(tt.parenL)) {
+      this.tokens.replaceTokenTrimmingLeftWhitespace(`, 'call', ${callbackCode}(`);
+    } else {
+      throw new Error("Unexpected subscript operator in optional chain.");
+    }
+    return true;
+  }
+
+  /**
+   * Get the code starting the body of a callback for an async operation within an async function
+   * compiled to a generator function. The code to end it is added before the next subscript or at
+   * the end of the expression.
+   */
+  private getGeneratorCallbackStartCode(): string {
+    return `${this.helperManager.getHelperName("asyncToGenerator")}(function* () { return `;
+  }
+
+  /**
+   * Determine if the current subscript is the last one in the optional chain starting at
+   * chainStartIndex, skipping over any nested optional chains.
+   */
+  private isLastSubscriptInChain(chainStartIndex: number): boolean {
+    let depth = 0;
+    for (let i = this.tokens.currentIndex() + 1; i < this.tokens.tokens.length; i++) {
+      const token = this.tokens.tokens[i];
+      if (token.subscriptStartIndex === chainStartIndex) {
+        return false;
+      }
+      if (token.isOptionalChainStart) {
+        depth++;
+      }
+      if (token.isOptionalChainEnd) {
+        if (depth === 0) {
+          return true;
+        }
+        depth--;
+      }
+    }
+    throw new Error("Reached the end of the code while finding the end of the optional chain.");
+  }
+
+  /**
+   * Get the index of the subscript before the current one in the optional chain starting at
+   * chainStartIndex, or null if this is the first one.
+   */
+  private getPreviousSubscriptIndex(chainStartIndex: number): number | null {
+    for (let i = this.tokens.currentIndex() - 1; i > chainStartIndex; i--) {
+      if (this.tokens.tokens[i].subscriptStartIndex === chainStartIndex) {
+        return i;
+      }
+    }
+    return null;
+  }
+}
@@ -0,0 +1,315 @@
+import {ContextualKeyword} from "../../sucrase-babylon/tokenizer";
+import {TokenType, TokenType as tt} from "../../sucrase-babylon/tokenizer/types";
+import HelperManager from "../HelperManager";
+import NameManager from "../NameManager";
+import TokenProcessor from "../TokenProcessor";
+import RootTransformer from "./RootTransformer";
+import Transformer from "./Transformer";
+
+type PrivateNameUsage =
+  | {
+      kind: "access";
+      // Code replacing the `.#x` in the member expression, ending the helper call.
+      suffixCode: string;
+      isCall: boolean;
+    }
+  | {
+      kind: "brandCheck";
+      mapName: string;
+    };
+
+/**
+ * Transformer for usages of private class members, like `this.#x`, and private brand checks, like
+ * `#x in obj`. Each private name is backed by a WeakMap from each object with that member to a
+ * property descriptor for it, which are set up by RootTransformer when compiling the class. The
+ * WeakMaps are declared next to the class, so that each evaluation of the class, like in a class
+ * factory function, gets its own private names.
+ *
+ * Member accesses become helper calls that check that the object has the private member, e.g.
+ * `this.#x` becomes `_classPrivateFieldGet(this, _x)` and `this.#x += 1` becomes
+ * `_classPrivateFieldRef(this, _x).value += 1`, so that all assignment operators work as usual.
+ * Like with optional chaining, the start of the helper call is added by TokenProcessor, since the
+ * first token of the object expression may be processed by any transformer.
+ */
+export default class PrivateNameTransformer extends Transformer {
+  // The WeakMap variable for each private name declared by each class, keyed by the index of the
+  // `class` token.
+  private privateNamesByClassIndex: Map<number, Map<string, string>> = new Map();
+  // Transformations for private name usages, keyed by the index of the `.` token before the
+  // private name in member accesses, or the `#` token in brand checks.
+  private usages: Map<number, PrivateNameUsage> = new Map();
+
+  constructor(
+    readonly rootTransformer: RootTransformer,
+    readonly tokens: TokenProcessor,
+    readonly nameManager: NameManager,
+    readonly helperManager: HelperManager,
+  ) {
+    super();
+  }
+
+  getPrefixCode(): string {
+    return this.helperManager.emitHelpers(["classPrivateFieldGet", "classPrivateFieldRef"]);
+  }
+
+  process(): boolean {
+    const usage = this.usages.get(this.tokens.currentIndex());
+    if (!usage) {
+      return false;
+    }
+    if (usage.kind === "brandCheck") {
+      const rhsEndIndex = this.tokens.tokenAtRelativeIndex(2).rhsEndIndex;
+      if (rhsEndIndex == null) {
+        throw new Error("Expected rhsEndIndex on private brand check.");
+      }
+      this.tokens.replaceToken(`${usage.mapName}.has(`);
+      this.tokens.removeToken();
+      this.tokens.removeToken();
+      while (this.tokens.currentIndex() < rhsEndIndex) {
+        this.rootTransformer.processToken();
+      }
+      this.tokens.appendCode(")");
+      return true;
+    }
+    this.tokens.replaceTokenTrimmingLeftWhitespace(usage.suffixCode);
+    this.tokens.removeToken();
+    this.tokens.removeToken();
+    if (usage.isCall) {
+      this.rootTransformer.processPossibleTypeRange();
+      // The arguments are passed after the object in the `.call` started by the suffix code.
+      if (this.tokens.matches2(tt.parenL, tt.parenR)) {
+        this.tokens.removeToken();
+      } else {
+        this.tokens.replaceTokenTrimmingLeftWhitespace(", ");
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Given the index of a `class` token, claim a WeakMap variable for each private name that the
+   * class declares, and plan the transformation of each usage of those names within the class.
+   * Returns the WeakMap variable for each private name.
+   */
+  prepareClass(classIndex: number): Map<string, string> {
+    const existingPrivateNames = this.privateNamesByClassIndex.get(classIndex);
+    if (existingPrivateNames) {
+      return existingPrivateNames;
+    }
+    const privateNames = new Map();
+    for (const name of this.getDeclaredPrivateNames(classIndex)) {
+      privateNames.set(name, this.nameManager.claimFreeName(`_${name}`));
+    }
+    this.privateNamesByClassIndex.set(classIndex, privateNames);
+    if (privateNames.size === 0) {
+      return privateNames;
+    }
+
+    // Private names declared by nested classes shadow the ones from this class.
+    const nestedClasses: Array<{endIndex: number; privateNames: Set<string>}> = [];
+    const {startIndex, endIndex} = this.getClassBodyRange(classIndex);
+    for (let i = startIndex + 1; i < endIndex; i++) {
+      while (nestedClasses.length > 0 && nestedClasses[nestedClasses.length - 1].endIndex < i) {
+        nestedClasses.pop();
+      }
+      const token = this.tokens.tokens[i];
+      if (token.type === tt._class && !token.isType) {
+        nestedClasses.push({
+          endIndex: this.getClassBodyRange(i).endIndex,
+          privateNames: new Set(this.getDeclaredPrivateNames(i)),
+        });
+      } else if (token.type === tt.hash && this.tokens.tokens[i + 1].contextId === null) {
+        const name = this.tokens.identifierNameAtIndex(i + 1);
+        const mapName = privateNames.get(name);
+        if (mapName && !nestedClasses.some((nestedClass) => nestedClass.privateNames.has(name))) {
+          this.planUsage(i, mapName);
+        }
+      }
+    }
+    return privateNames;
+  }
+
+  private planUsage(hashIndex: number, mapName: string): void {
+    if (this.tokens.matchesAtIndex(hashIndex + 2, [tt._in])) {
+      this.usages.set(hashIndex, {kind: "brandCheck", mapName});
+      return;
+    }
+    const dotIndex = hashIndex - 1;
+    const startIndex = this.tokens.tokens[dotIndex].subscriptStartIndex;
+    if (startIndex === null) {
+      throw new Error("Expected private name to be used in a member access.");
+    }
+    // The helper call would need to be skipped when the chain short-circuits, e.g. for `a?.#x` or
+    // `a?.b.#x`.
+    if (
+      this.tokens.matchesAtIndex(dotIndex, [tt.questionDot]) ||
+      this.tokens.tokens[startIndex].isOptionalChainStart
+    ) {
+      throw new Error("Private names are not supported in optional chains.");
+    }
+    if (!this.tokens.matchesAtIndex(dotIndex, [tt.dot])) {
+      throw new Error("Expected private name to be used in a member access.");
+    }
+    let nextIndex = hashIndex + 2;
+    while (this.tokens.tokens[nextIndex].isType) {
+      nextIndex++;
+    }
+    const nextType = this.tokens.tokens[nextIndex].type;
+    let prefixCode;
+    let suffixCode;
+    if (nextType === tt.parenL) {
+      // Method calls need the object as `this`, so store it in a variable unless it's just `this`.
+      let receiverCode = "this";
+      prefixCode = `${this.helperManager.getHelperName("classPrivateFieldGet")}(`;
+      if (startIndex !== dotIndex - 1 || !this.tokens.matchesAtIndex(startIndex, [tt._this])) {
+        receiverCode = this.rootTransformer.claimGeneratedVariable("_obj");
+        prefixCode += `${receiverCode} = `;
+      }
+      suffixCode = `, ${mapName}).call(${receiverCode}`;
+    } else if (
+      nextType & TokenType.IS_ASSIGN ||
+      nextType === tt.incDec ||
+      (this.tokens.matchesAtIndex(startIndex - 1, [tt.incDec]) && !isSubscriptStart(nextType)) ||
+      this.isDestructuringTarget(startIndex, nextIndex)
+    ) {
+      prefixCode = `${this.helperManager.getHelperName("classPrivateFieldRef")}(`;
+      suffixCode = `, ${mapName}).value`;
+    } else {
+      prefixCode = `${this.helperManager.getHelperName("classPrivateFieldGet")}(`;
+      suffixCode = `, ${mapName})`;
+    }
+    this.tokens.addTokenPrefixCode(startIndex, prefixCode);
+    this.usages.set(dotIndex, {kind: "access", suffixCode, isCall: nextType === tt.parenL});
+  }
+
+  /**
+   * Determine if the member expression between the given indices is assigned by a destructuring
+   * assignment or as the variable of a for-in or for-of loop, like `this.#x` in
+   * `[this.#x] = a;`, `({b: this.#x} = c);`, or `for (this.#x of a)`. Starting from the member
+   * expression, walk out through each enclosing array or object pattern to find the `=` or the
+   * loop head.
+   */
+  private isDestructuringTarget(startIndex: number, endIndex: number): boolean {
+    while (true) {
+      const nextToken = this.tokens.tokens[endIndex];
+      if (
+        nextToken.type === tt._in ||
+        (nextToken.type === tt.name && nextToken.contextualKeyword === ContextualKeyword._of)
+      ) {
+        return (
+          this.tokens.matchesAtIndex(startIndex - 2, [tt._for, tt.parenL]) ||
+          (this.tokens.matchesAtIndex(startIndex - 2, [tt.name, tt.parenL]) &&
+            this.tokens.tokens[startIndex - 2].contextualKeyword === ContextualKeyword._await)
+        );
+      }
+      if (nextToken.type === tt.eq) {
+        return true;
+      }
+      // Within a pattern, each target is an element, a rest element, or a property value.
+      if (
+        ![tt.comma, tt.bracketR, tt.braceR].includes(nextToken.type) ||
+        ![tt.bracketL, tt.braceL, tt.comma, tt.ellipsis, tt.colon].includes(
+          this.tokens.tokens[startIndex - 1].type,
+        )
+      ) {
+        return false;
+      }
+      const patternStartIndex = this.getEnclosingBracketIndex(startIndex);
+      if (
+        patternStartIndex === null ||
+        ![tt.bracketL, tt.braceL].includes(this.tokens.tokens[patternStartIndex].type) ||
+        // A computed member access like `a[this.#x] = 1` only reads the private member.
+        this.tokens.tokens[patternStartIndex].subscriptStartIndex !== null
+      ) {
+        return false;
+      }
+      startIndex = patternStartIndex;
+      endIndex = this.getMatchingBracketIndex(patternStartIndex) + 1;
+    }
+  }
+
+  /**
+   * Get the index of the innermost unclosed bracket, brace, or paren before the given index, or
+   * null if there isn't one.
+   */
+  private getEnclosingBracketIndex(index: number): number | null {
+    let depth = 0;
+    for (let i = index - 1; i >= 0; i--) {
+      const tokenType = this.tokens.tokens[i].type;
+      if ([tt.bracketR, tt.braceR, tt.parenR].includes(tokenType)) {
+        depth++;
+      } else if ([tt.bracketL, tt.braceL, tt.dollarBraceL, tt.parenL].includes(tokenType)) {
+        if (depth === 0) {
+          return i;
+        }
+        depth--;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Get the index of the bracket or brace closing the one at the given index.
+   */
+  private getMatchingBracketIndex(index: number): number {
+    let depth = 0;
+    for (let i = index; ; i++) {
+      const tokenType = this.tokens.tokens[i].type;
+      if ([tt.bracketL, tt.braceL, tt.dollarBraceL, tt.parenL].includes(tokenType)) {
+        depth++;
+      } else if ([tt.bracketR, tt.braceR, tt.parenR].includes(tokenType)) {
+        depth--;
+        if (depth === 0) {
+          return i;
+        }
+      }
+    }
+  }
+
+  /**
+   * Get the names of the private fields, methods, and accessors declared in the body of the class
+   * at the given index, which are the ones whose name has the class's context ID.
+   */
+  private getDeclaredPrivateNames(classIndex: number): Array<string> {
+    const contextId = this.tokens.tokens[classIndex].contextId;
+    const {startIndex, endIndex} = this.getClassBodyRange(classIndex);
+    const names: Array<string> = [];
+    for (let i = startIndex + 1; i < endIndex; i++) {
+      if (
+        this.tokens.matchesAtIndex(i, [tt.hash]) &&
+        this.tokens.tokens[i + 1].contextId === contextId
+      ) {
+        const name = this.tokens.identifierNameAtIndex(i + 1);
+        // A getter and setter pair shares a private name.
+        if (!names.includes(name)) {
+          names.push(name);
+        }
+      }
+    }
+    return names;
+  }
+
+  /**
+   * Get the indices of the `{` and `}` tokens of the body of the class at the given index.
+   */
+  private getClassBodyRange(classIndex: number): {startIndex: number; endIndex: number} {
+    const contextId = this.tokens.tokens[classIndex].contextId;
+    if (contextId == null) {
+      throw new Error("Expected class to have a context ID.");
+    }
+    const tokens = this.tokens.tokens;
+    let startIndex = classIndex;
+    while (tokens[startIndex].type !== tt.braceL || tokens[startIndex].contextId !== contextId) {
+      startIndex++;
+    }
+    let endIndex = startIndex + 1;
+    while (tokens[endIndex].type !== tt.braceR || tokens[endIndex].contextId !== contextId) {
+      endIndex++;
+    }
+    return {startIndex, endIndex};
+  }
+}
+
+function isSubscriptStart(tokenType: TokenType): boolean {
+  return [tt.dot, tt.questionDot, tt.bracketL, tt.parenL, tt.backQuote].includes(tokenType);
+}
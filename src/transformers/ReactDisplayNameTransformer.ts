@@ -17,7 +17,7 @@ export default class ReactDisplayNameTransformer extends Transformer {
   constructor(
     readonly rootTransformer: RootTransformer,
     readonly tokens: TokenProcessor,
-    readonly importProcessor: ImportProcessor,
+    readonly importProcessor: ImportProcessor | null,
   ) {
     super();
   }
@@ -25,7 +25,8 @@ export default class ReactDisplayNameTransformer extends Transformer {
   process(): boolean {
     const startIndex = this.tokens.currentIndex();
     if (this.tokens.matchesContextual(ContextualKeyword._createReactClass)) {
-      const newName = this.importProcessor.getIdentifierReplacement("createReactClass");
+      const newName =
+        this.importProcessor && this.importProcessor.getIdentifierReplacement("createReactClass");
       if (newName) {
         this.tokens.replaceToken(`(0, ${newName})`);
       } else {
@@ -42,7 +43,8 @@ export default class ReactDisplayNameTransformer extends Transformer {
         ContextualKeyword._createClass,
       )
     ) {
-      const newName = this.importProcessor.getIdentifierReplacement("React");
+      const newName =
+        this.importProcessor && this.importProcessor.getIdentifierReplacement("React");
       if (newName) {
         this.tokens.replaceToken(newName);
         this.tokens.copyToken();
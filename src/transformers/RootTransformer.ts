@@ -1,13 +1,24 @@
+import {ContextualKeyword} from "../../sucrase-babylon/tokenizer";
 import {TokenType as tt} from "../../sucrase-babylon/tokenizer/types";
-import {SucraseContext, Transform} from "../index";
+import HelperManager, {HelperName} from "../HelperManager";
+import ImportProcessor from "../ImportProcessor";
+import {Options, SucraseContext} from "../index";
 import NameManager from "../NameManager";
-import TokenProcessor from "../TokenProcessor";
-import getClassInfo, {ClassInfo} from "../util/getClassInfo";
+import TokenProcessor, {TokenProcessorResult} from "../TokenProcessor";
+import getClassInfo, {ClassInfo, ParamDecorator, PrivateMethod} from "../util/getClassInfo";
+import getDecoratorCode from "../util/getDecoratorCode";
+import getDesignTypeCode from "../util/getDesignTypeCode";
+import getModuleWrapper, {ModuleWrapper} from "../util/getModuleWrapper";
+import AsyncToGeneratorTransformer from "./AsyncToGeneratorTransformer";
+import ESMImportTransformer from "./ESMImportTransformer";
 import FlowTransformer from "./FlowTransformer";
 import ImportTransformer from "./ImportTransformer";
 import JSXTransformer from "./JSXTransformer";
 import NumericSeparatorTransformer from "./NumericSeparatorTransformer";
+import ObjectRestSpreadTransformer from "./ObjectRestSpreadTransformer";
 import OptionalCatchBindingTransformer from "./OptionalCatchBindingTransformer";
+import OptionalChainingNullishTransformer from "./OptionalChainingNullishTransformer";
+import PrivateNameTransformer from "./PrivateNameTransformer";
 import ReactDisplayNameTransformer from "./ReactDisplayNameTransformer";
 import Transformer from "./Transformer";
 import TypeScriptTransformer from "./TypeScriptTransformer";
@@ -15,74 +26,154 @@ import TypeScriptTransformer from "./TypeScriptTransformer";
 export default class RootTransformer {
   private transformers: Array<Transformer> = [];
   private nameManager: NameManager;
+  private helperManager: HelperManager;
   private tokens: TokenProcessor;
+  private privateNameTransformer: PrivateNameTransformer | null = null;
   private generatedVariables: Array<string> = [];
+  private importProcessor: ImportProcessor | null;
+  private isDecoratorTransformEnabled: boolean;
+  private emitDecoratorMetadata: boolean;
+  // Code for the decorators preceding the class that is about to be processed.
+  private pendingClassDecoratorCodes: Array<string> = [];
+  // Wrapper code for AMD and UMD output, or null for CommonJS and ES modules.
+  private moduleWrapper: ModuleWrapper | null = null;
 
-  constructor(
-    sucraseContext: SucraseContext,
-    transforms: Array<Transform>,
-    filePath: string | null,
-  ) {
+  constructor(sucraseContext: SucraseContext, readonly options: Options) {
     this.nameManager = sucraseContext.nameManager;
-    const {tokenProcessor, importProcessor} = sucraseContext;
+    this.helperManager = sucraseContext.helperManager;
+    const {tokenProcessor, importProcessor, jsxPragmaInfo} = sucraseContext;
+    const {transforms} = options;
     this.tokens = tokenProcessor;
+    this.importProcessor = importProcessor;
+    this.isDecoratorTransformEnabled = transforms.includes("typescript");
+    this.emitDecoratorMetadata = Boolean(options.emitDecoratorMetadata);
 
     this.transformers.push(new NumericSeparatorTransformer(tokenProcessor));
     this.transformers.push(new OptionalCatchBindingTransformer(tokenProcessor, this.nameManager));
+    if (transforms.includes("private-class-members")) {
+      this.privateNameTransformer = new PrivateNameTransformer(
+        this,
+        tokenProcessor,
+        this.nameManager,
+        this.helperManager,
+      );
+      this.transformers.push(this.privateNameTransformer);
+    }
+    if (transforms.includes("optional-chaining")) {
+      this.transformers.push(
+        new OptionalChainingNullishTransformer(
+          tokenProcessor,
+          this.nameManager,
+          this.helperManager,
+        ),
+      );
+    }
+    if (transforms.includes("async-to-generator")) {
+      this.transformers.push(
+        new AsyncToGeneratorTransformer(this, tokenProcessor, this.nameManager, this.helperManager),
+      );
+    }
+    if (transforms.includes("object-rest-spread")) {
+      this.transformers.push(
+        new ObjectRestSpreadTransformer(this, tokenProcessor, this.nameManager, this.helperManager),
+      );
+    }
     if (transforms.includes("jsx")) {
       this.transformers.push(
-        new JSXTransformer(this, tokenProcessor, importProcessor, this.nameManager, filePath),
+        new JSXTransformer(
+          this,
+          tokenProcessor,
+          importProcessor,
+          this.nameManager,
+          this.helperManager,
+          jsxPragmaInfo,
+          options,
+        ),
       );
       this.transformers.push(
         new ReactDisplayNameTransformer(this, tokenProcessor, importProcessor),
       );
     }
 
-    if (transforms.includes("imports")) {
+    if (importProcessor) {
       const shouldAddModuleExports = transforms.includes("add-module-exports");
       this.transformers.push(
-        new ImportTransformer(this, tokenProcessor, importProcessor, shouldAddModuleExports),
+        new ImportTransformer(
+          this,
+          tokenProcessor,
+          importProcessor,
+          shouldAddModuleExports,
+          options.moduleFormat === "amd",
+          options.moduleFormat === "umd",
+          Boolean(options.hoistImports),
+          options.importMetaObject || null,
+        ),
       );
+    } else if (transforms.includes("typescript")) {
+      this.transformers.push(new ESMImportTransformer(tokenProcessor, jsxPragmaInfo));
     }
 
     if (transforms.includes("flow")) {
       this.transformers.push(new FlowTransformer(this, tokenProcessor));
     }
     if (transforms.includes("typescript")) {
-      if (!transforms.includes("imports")) {
-        throw new Error(
-          "The TypeScript transform without the import transform is not yet supported.",
-        );
-      }
-      this.transformers.push(new TypeScriptTransformer(this, tokenProcessor));
+      this.transformers.push(
+        new TypeScriptTransformer(
+          this,
+          tokenProcessor,
+          transforms.includes("imports"),
+          sucraseContext.constEnumValues,
+          sucraseContext.scopes,
+        ),
+      );
     }
   }
 
-  transform(): string {
+  transform(): TokenProcessorResult {
     this.tokens.reset();
     this.processBalancedCode();
+    if (this.importProcessor) {
+      // The module wrapper depends on which helpers were used, so it's computed afterward.
+      this.moduleWrapper = getModuleWrapper(
+        this.importProcessor,
+        this.helperManager,
+        this.options,
+        this.hasHoistedFunctionExports(),
+      );
+    }
     const shouldAddUseStrict = this.transformers.some((t) => t instanceof ImportTransformer);
     // "use strict" always needs to be first, so override the normal transformer order.
     let prefix = shouldAddUseStrict ? '"use strict";' : "";
+    if (this.moduleWrapper) {
+      prefix = this.moduleWrapper.prefix + prefix;
+    }
     for (const transformer of this.transformers) {
       prefix += transformer.getPrefixCode();
     }
+    prefix += this.helperManager.emitHelpers(["defineProperty"]);
+    prefix += this.getDecoratorHelperCode();
     prefix += this.generatedVariables.map((v) => ` var ${v};`).join("");
     let suffix = "";
     for (const transformer of this.transformers) {
       suffix += transformer.getSuffixCode();
     }
-    let code = this.tokens.finish();
+    if (this.moduleWrapper) {
+      suffix += this.moduleWrapper.suffix;
+    }
+    let {code, mappings} = this.tokens.finish();
     if (code.startsWith("#!")) {
       let newlineIndex = code.indexOf("\n");
       if (newlineIndex === -1) {
         newlineIndex = code.length;
         code += "\n";
       }
-      return code.slice(0, newlineIndex + 1) + prefix + code.slice(newlineIndex + 1) + suffix;
+      mappings = shiftMappings(mappings, newlineIndex + 1, prefix.length);
+      code = code.slice(0, newlineIndex + 1) + prefix + code.slice(newlineIndex + 1) + suffix;
     } else {
-      return prefix + this.tokens.finish() + suffix;
+      mappings = shiftMappings(mappings, 0, prefix.length);
+      code = prefix + code + suffix;
     }
+    return {code, mappings};
   }
 
   processBalancedCode(): void {
@@ -114,6 +205,10 @@ export default class RootTransformer {
       this.processClass();
       return;
     }
+    if (this.isDecoratorTransformEnabled && this.tokens.matches1(tt.at)) {
+      this.processClassDecorators();
+      return;
+    }
     for (const transformer of this.transformers) {
       const wasProcessed = transformer.process();
       if (wasProcessed) {
@@ -123,6 +218,79 @@ export default class RootTransformer {
     this.tokens.copyToken();
   }
 
+  /**
+   * Claim a name for a temporary variable. It will be declared with `var` at the top of the file,
+   * along with the given initializer, if any.
+   */
+  claimGeneratedVariable(baseName: string, initializerCode: string | null = null): string {
+    const name = this.nameManager.claimFreeName(baseName);
+    this.generatedVariables.push(initializerCode === null ? name : `${name} = ${initializerCode}`);
+    return name;
+  }
+
+  private hasHoistedFunctionExports(): boolean {
+    for (const transformer of this.transformers) {
+      if (transformer instanceof ImportTransformer) {
+        return transformer.hasHoistedFunctionExports();
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Get the code to update the exports of any exported variables assigned in the pattern between
+   * the given token indices, for transformers that move a destructuring assignment elsewhere.
+   */
+  getPatternExportAssignments(startIndex: number, endIndex: number): Array<string> {
+    for (const transformer of this.transformers) {
+      if (transformer instanceof ImportTransformer) {
+        return transformer.getPatternExportAssignments(startIndex, endIndex);
+      }
+    }
+    return [];
+  }
+
+  /**
+   * Skip past a function with a name and return that name.
+   */
+  processNamedFunction(): string {
+    if (this.tokens.matches1(tt._function)) {
+      this.tokens.copyToken();
+    } else if (this.tokens.matches2(tt.name, tt._function)) {
+      if (!this.tokens.matchesContextual(ContextualKeyword._async)) {
+        throw new Error("Expected async keyword in function export.");
+      }
+      this.processToken();
+      this.tokens.copyToken();
+    }
+    if (!this.tokens.matches1(tt.name)) {
+      throw new Error("Expected identifier for exported function name.");
+    }
+    const name = this.tokens.identifierName();
+    this.tokens.copyToken();
+    if (this.tokens.currentToken().isType) {
+      this.tokens.removeInitialToken();
+      while (this.tokens.currentToken().isType) {
+        this.tokens.removeToken();
+      }
+    }
+    this.tokens.copyExpectedToken(tt.parenL);
+    this.processBalancedCode();
+    this.tokens.copyExpectedToken(tt.parenR);
+    this.processPossibleTypeRange();
+    if (!this.tokens.matches1(tt.braceL)) {
+      throw new Error("Expected function body.");
+    }
+    // The body start and end go through the transformers in case code needs to be added there.
+    this.processToken();
+    this.processBalancedCode();
+    if (!this.tokens.matches1(tt.braceR)) {
+      throw new Error("Expected end of function body.");
+    }
+    this.processToken();
+    return name;
+  }
+
   /**
    * Skip past a class with a name and return that name.
    */
@@ -135,16 +303,84 @@ export default class RootTransformer {
     return name;
   }
 
+  /**
+   * Remove the decorators preceding a class and save their code to be applied after the class
+   * definition. Subsequent tokens (e.g. an export) are processed as usual until reaching the class.
+   */
+  processClassDecorators(): void {
+    const snapshot = this.tokens.snapshot();
+    const decoratorCodes = [];
+    while (this.tokens.matches1(tt.at)) {
+      decoratorCodes.push(getDecoratorCode(this, this.tokens));
+    }
+    const endIndex = this.tokens.currentIndex();
+    this.tokens.restoreToSnapshot(snapshot);
+    this.tokens.removeInitialToken();
+    while (this.tokens.currentIndex() < endIndex) {
+      this.tokens.removeToken();
+    }
+    this.pendingClassDecoratorCodes = decoratorCodes;
+
+    if (
+      !this.importProcessor &&
+      this.tokens.matches4(tt._export, tt._default, tt._class, tt.name)
+    ) {
+      // `export default let` isn't valid, so declare the class and export it separately.
+      const className = this.tokens.identifierNameAtIndex(this.tokens.currentIndex() + 3);
+      this.tokens.removeInitialToken();
+      this.tokens.removeToken();
+      this.processClass();
+      this.tokens.appendCode(` export default ${className};`);
+    }
+  }
+
   processClass(): void {
-    const classInfo = getClassInfo(this, this.tokens);
+    const classDecoratorCodes = this.pendingClassDecoratorCodes;
+    this.pendingClassDecoratorCodes = [];
+    const privateNames = this.privateNameTransformer
+      ? this.privateNameTransformer.prepareClass(this.tokens.currentIndex())
+      : null;
+    const classInfo = getClassInfo(this, this.tokens, this.nameManager, privateNames);
 
-    const needsCommaExpression =
-      classInfo.headerInfo.isExpression && classInfo.staticInitializerSuffixes.length > 0;
+    let allClassDecoratorCodes: Array<string> = [];
+    let hasMemberDecorators = false;
+    // Variables holding the computed keys of decorated methods and accessors, by the token index
+    // of the key's open-bracket.
+    const computedKeyNames: Map<number, string> = new Map();
+    if (this.isDecoratorTransformEnabled) {
+      allClassDecoratorCodes = [
+        ...classDecoratorCodes,
+        ...this.getParamDecoratorCodes(classInfo.constructorParamDecorators),
+      ];
+      hasMemberDecorators = classInfo.decoratedMembers.length > 0;
+      for (const {computedKeyIndex} of classInfo.decoratedMembers) {
+        if (computedKeyIndex !== null) {
+          computedKeyNames.set(computedKeyIndex, this.claimGeneratedVariable("_key"));
+        }
+      }
+    }
+    const hasClassDecorators = allClassDecoratorCodes.length > 0;
+    const hasPrivateNames = privateNames !== null && privateNames.size > 0;
+    const needsStatementsAfterClass =
+      hasPrivateNames ||
+      classInfo.staticInitializers.length > 0 ||
+      hasMemberDecorators ||
+      hasClassDecorators;
+
+    // Anonymous classes (other than class expressions) can only come from `export default class`.
+    const isExpression =
+      classInfo.headerInfo.isExpression || classInfo.headerInfo.className === null;
+    // The WeakMaps and functions for private names are declared along with the class, so class
+    // expressions using them need a function to declare them in.
+    const needsScopeFunction = isExpression && hasPrivateNames;
+    const needsCommaExpression = isExpression && needsStatementsAfterClass && !needsScopeFunction;
 
     let className = classInfo.headerInfo.className;
-    if (needsCommaExpression) {
+    if (needsScopeFunction) {
       className = this.nameManager.claimFreeName("_class");
-      this.generatedVariables.push(className);
+      this.tokens.appendCode(` (() => { let ${className} =`);
+    } else if (needsCommaExpression) {
+      className = this.claimGeneratedVariable("_class");
       this.tokens.appendCode(` (${className} =`);
     }
 
@@ -153,30 +389,147 @@ export default class RootTransformer {
     if (contextId == null) {
       throw new Error("Expected class to have a context ID.");
     }
-    this.tokens.copyExpectedToken(tt._class);
+    if (hasClassDecorators && !isExpression) {
+      // Class decorators may replace the class, so it needs to be a reassignable binding.
+      this.tokens.replaceToken(`let ${className} = class`);
+    } else {
+      this.tokens.copyExpectedToken(tt._class);
+    }
     while (!this.tokens.matchesContextIdAndLabel(tt.braceL, contextId)) {
       this.processToken();
     }
 
-    this.processClassBody(classInfo);
-
-    const staticInitializerStatements = classInfo.staticInitializerSuffixes.map(
-      (suffix) => `${className}${suffix}`,
+    const statementsAfterClass = this.getPrivateNameDeclarations(privateNames);
+    statementsAfterClass.push(...this.processClassBody(classInfo, computedKeyNames));
+    statementsAfterClass.push(
+      ...classInfo.staticInitializers.map((getInitializer) => getInitializer(className!)),
     );
-    if (needsCommaExpression) {
-      this.tokens.appendCode(`, ${staticInitializerStatements.join(", ")}, ${className})`);
-    } else if (classInfo.staticInitializerSuffixes.length > 0) {
-      this.tokens.appendCode(` ${staticInitializerStatements.join("; ")};`);
+    if (hasMemberDecorators) {
+      statementsAfterClass.push(
+        ...this.getMemberDecoratorStatements(classInfo, className!, computedKeyNames),
+      );
     }
+    if (hasClassDecorators) {
+      const decorate = this.getDecoratorHelperName("decorate");
+      statementsAfterClass.push(
+        `${className} = ${decorate}([${allClassDecoratorCodes.join(", ")}], ${className})`,
+      );
+    }
+    if (needsScopeFunction) {
+      this.tokens.appendCode(`; ${statementsAfterClass.join("; ")}; return ${className}; })()`);
+    } else if (needsCommaExpression) {
+      this.tokens.appendCode(`, ${statementsAfterClass.join(", ")}, ${className})`);
+    } else if (hasClassDecorators) {
+      // The class is now an expression in a let declaration, so end that statement first.
+      this.tokens.appendCode(`; ${statementsAfterClass.join("; ")};`);
+    } else if (statementsAfterClass.length > 0) {
+      this.tokens.appendCode(` ${statementsAfterClass.join("; ")};`);
+    }
+  }
+
+  /**
+   * Get the declaration of the WeakMap for each private name declared by a class, which runs right
+   * after the class definition, before anything can create an instance.
+   */
+  getPrivateNameDeclarations(privateNames: Map<string, string> | null): Array<string> {
+    if (privateNames === null || privateNames.size === 0) {
+      return [];
+    }
+    const declarators = [...privateNames.values()].map((mapName) => `${mapName} = new WeakMap()`);
+    return [`const ${declarators.join(", ")}`];
+  }
+
+  /**
+   * Get the decorator helper calls to run after the class definition for each decorated member,
+   * like this:
+   * __decorate([foo], C.prototype, "bar", null)
+   *
+   * Computed method and accessor keys were saved in variables when defining the class, so those
+   * variables are passed instead of evaluating the key again.
+   */
+  getMemberDecoratorStatements(
+    classInfo: ClassInfo,
+    className: string,
+    computedKeyNames: Map<number, string>,
+  ): Array<string> {
+    const decorate = this.getDecoratorHelperName("decorate");
+    return classInfo.decoratedMembers.map((member) => {
+      const decoratorCodes = [
+        ...member.decoratorCodes,
+        ...this.getParamDecoratorCodes(member.paramDecorators),
+      ];
+      if (this.emitDecoratorMetadata) {
+        const designTypeCode =
+          member.kind === "method"
+            ? "Function"
+            : getDesignTypeCode(this.tokens, member.typeRange, this.importProcessor);
+        const metadata = this.getDecoratorHelperName("metadata");
+        decoratorCodes.push(`${metadata}("design:type", ${designTypeCode})`);
+      }
+      const target = member.isStatic ? className : `${className}.prototype`;
+      // Fields don't have a property descriptor, which is signaled by passing undefined.
+      const descriptorCode = member.kind === "field" ? "void 0" : "null";
+      const keyCode =
+        member.computedKeyIndex !== null
+          ? computedKeyNames.get(member.computedKeyIndex)
+          : member.keyCode;
+      return `${decorate}([${decoratorCodes.join(
+        ", ",
+      )}], ${target}, ${keyCode}, ${descriptorCode})`;
+    });
+  }
+
+  getParamDecoratorCodes(paramDecorators: Array<ParamDecorator>): Array<string> {
+    if (paramDecorators.length === 0) {
+      return [];
+    }
+    const param = this.getDecoratorHelperName("param");
+    return paramDecorators.map(({paramIndex, code}) => `${param}(${paramIndex}, ${code})`);
+  }
+
+  getHelperName(helperName: HelperName): string {
+    return this.helperManager.getHelperName(helperName);
+  }
+
+  getDecoratorHelperName(helperName: HelperName): string {
+    if (!this.helperManager.importHelpers) {
+      // The inline __decorate and __param helpers are always defined together, like in the
+      // TypeScript compiler output.
+      this.helperManager.getHelperName("decorate");
+      this.helperManager.getHelperName("param");
+    }
+    return this.helperManager.getHelperName(helperName);
+  }
+
+  /**
+   * Get the definitions or imports of the decorator helpers, or nothing if no decorators were
+   * compiled.
+   */
+  getDecoratorHelperCode(): string {
+    return this.helperManager.emitHelpers(["decorate", "param", "metadata"]);
   }
 
   /**
    * We want to just handle class fields in all contexts, since TypeScript supports them. Later,
    * when some JS implementations support class fields, this should be made optional.
+   *
+   * Private methods are moved out of the class body, so this returns the statements defining them,
+   * which need to run after the class. Computed keys of decorated members are assigned to the
+   * variables in computedKeyNames.
    */
-  processClassBody(classInfo: ClassInfo): void {
-    const {headerInfo, constructorInsertPos, initializerStatements, fieldRanges} = classInfo;
+  processClassBody(classInfo: ClassInfo, computedKeyNames: Map<number, string>): Array<string> {
+    const {
+      headerInfo,
+      constructorInsertPos,
+      initializerStatements,
+      fieldRanges,
+      privateMethods,
+      decoratorRanges,
+    } = classInfo;
+    const privateMethodStatements = [];
     let fieldIndex = 0;
+    let privateMethodIndex = 0;
+    let decoratorIndex = 0;
     const classContextId = this.tokens.currentToken().contextId;
     if (classContextId == null) {
       throw new Error("Expected non-null context ID on class.");
@@ -197,6 +550,16 @@ export default class RootTransformer {
 
     while (!this.tokens.matchesContextIdAndLabel(tt.braceR, classContextId)) {
       if (
+        this.isDecoratorTransformEnabled &&
+        decoratorIndex < decoratorRanges.length &&
+        this.tokens.currentIndex() === decoratorRanges[decoratorIndex].start
+      ) {
+        this.tokens.removeInitialToken();
+        while (this.tokens.currentIndex() < decoratorRanges[decoratorIndex].end) {
+          this.tokens.removeToken();
+        }
+        decoratorIndex++;
+      } else if (
         fieldIndex < fieldRanges.length &&
         this.tokens.currentIndex() === fieldRanges[fieldIndex].start
       ) {
@@ -205,8 +568,18 @@ export default class RootTransformer {
           this.tokens.removeToken();
         }
         fieldIndex++;
+      } else if (
+        privateMethodIndex < privateMethods.length &&
+        this.tokens.currentIndex() === privateMethods[privateMethodIndex].range.start
+      ) {
+        privateMethodStatements.push(this.processPrivateMethod(privateMethods[privateMethodIndex]));
+        privateMethodIndex++;
+      } else if (computedKeyNames.has(this.tokens.currentIndex())) {
+        const keyName = computedKeyNames.get(this.tokens.currentIndex());
+        this.tokens.copyExpectedToken(tt.bracketL);
+        this.tokens.appendCode(`${keyName} = `);
       } else if (this.tokens.currentIndex() === constructorInsertPos) {
-        this.tokens.copyToken();
+        this.processToken();
         if (initializerStatements.length > 0) {
           this.tokens.appendCode(`;${initializerStatements.join(";")};`);
         }
@@ -216,6 +589,34 @@ export default class RootTransformer {
       }
     }
     this.tokens.copyExpectedToken(tt.braceR);
+    return privateMethodStatements;
+  }
+
+  /**
+   * Transform a private method or accessor into a function expression and remove it from the class
+   * body, leaving only its newlines. Returns the statement declaring the function's variable.
+   */
+  processPrivateMethod({range, functionName}: PrivateMethod): string {
+    const snapshot = this.tokens.snapshot();
+    let isGenerator = false;
+    while (!this.tokens.matches1(tt.hash)) {
+      if (this.tokens.matches1(tt._async)) {
+        this.processToken();
+      } else {
+        if (this.tokens.matches1(tt.star)) {
+          isGenerator = true;
+        }
+        this.tokens.removeToken();
+      }
+    }
+    this.tokens.replaceToken(isGenerator ? "function*" : "function");
+    this.tokens.removeToken();
+    while (this.tokens.currentIndex() < range.end) {
+      this.processToken();
+    }
+    const functionCode = this.tokens.dangerouslyGetAndRemoveCodeSinceSnapshot(snapshot);
+    this.tokens.appendCode(functionCode.replace(/[^\n]/g, ""));
+    return `const ${functionName} = ${functionCode.trim()}`;
   }
 
   processPossibleTypeRange(): boolean {
@@ -229,3 +630,16 @@ export default class RootTransformer {
     return false;
   }
 }
+
+/**
+ * Adjust the result code positions to account for code inserted at the given position.
+ */
+function shiftMappings(
+  mappings: Array<number | undefined>,
+  insertPos: number,
+  insertLength: number,
+): Array<number | undefined> {
+  return mappings.map(
+    (mapping) => (mapping !== undefined && mapping >= insertPos ? mapping + insertLength : mapping),
+  );
+}
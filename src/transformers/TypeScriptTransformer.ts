@@ -1,11 +1,49 @@
+import {IdentifierRole} from "../../sucrase-babylon/tokenizer";
+import {Scope} from "../../sucrase-babylon/tokenizer/state";
 import {TokenType as tt} from "../../sucrase-babylon/tokenizer/types";
 import TokenProcessor from "../TokenProcessor";
+import computeEnumValues, {EnumValues, getEnumValueCode} from "../util/computeEnumValues";
+import getVariableDeclarators, {getDefaultValueEndIndex} from "../util/getVariableDeclarators";
 import isIdentifier from "../util/isIdentifier";
 import RootTransformer from "./RootTransformer";
 import Transformer from "./Transformer";
 
+type NamespaceBody = {
+  // Name of the namespace object within the body, e.g. `B` for `namespace A.B {}`.
+  namespaceName: string;
+  // Names whose references within the body are properties of the namespace object: exported
+  // variables of this body, and anything exported by other bodies of the same namespace.
+  memberNames: Set<string>;
+  // Names declared directly in the body, whose references stay as they are.
+  localNames: Set<string>;
+  // Token ranges of nested scopes redeclaring a member name, keyed by the name.
+  shadowedRanges: Map<string, Array<{start: number; end: number}>>;
+};
+
+/**
+ * Names exported by the body of a namespace. Exported variables only exist as properties of the
+ * namespace object, while other exported declarations also stay as local declarations.
+ */
+type NamespaceExports = {
+  variableNames: Array<string>;
+  variableNameIndices: Array<number>;
+  otherNames: Array<string>;
+};
+
 export default class TypeScriptTransformer extends Transformer {
-  constructor(readonly rootTransformer: RootTransformer, readonly tokens: TokenProcessor) {
+  // Token index of the start of the innermost namespace body being processed, or 0 at the top
+  // level. Used to find declarations that a namespace might merge with.
+  private scopeStartIndex: number = 0;
+  // The namespace bodies enclosing the current token, from outermost to innermost.
+  private namespaceBodies: Array<NamespaceBody> = [];
+
+  constructor(
+    readonly rootTransformer: RootTransformer,
+    readonly tokens: TokenProcessor,
+    readonly isImportsTransformEnabled: boolean,
+    readonly constEnumValues: Map<string, EnumValues>,
+    readonly scopes: Array<Scope>,
+  ) {
     super();
   }
 
@@ -25,6 +63,20 @@ export default class TypeScriptTransformer extends Transformer {
       this.tokens.removeInitialToken();
       return true;
     }
+    if (
+      (this.tokens.matches1(tt.name) && this.processNamespaceMemberReference()) ||
+      (this.tokens.matches1(tt.name) && this.processConstEnumAccess())
+    ) {
+      return true;
+    }
+    if (
+      this.tokens.matches3(tt._const, tt._enum, tt.name) &&
+      this.constEnumValues.has(this.tokens.identifierNameAtIndex(this.tokens.currentIndex() + 2))
+    ) {
+      // All uses of the enum are inlined, so it doesn't need to exist at runtime.
+      this.removeConstEnum();
+      return true;
+    }
     if (this.tokens.matches1(tt._enum) || this.tokens.matches2(tt._const, tt._enum)) {
       this.processEnum();
       return true;
@@ -33,37 +85,635 @@ export default class TypeScriptTransformer extends Transformer {
       this.tokens.matches2(tt._export, tt._enum) ||
       this.tokens.matches3(tt._export, tt._const, tt._enum)
     ) {
-      this.processEnum(true);
+      if (this.isImportsTransformEnabled) {
+        this.processEnum(true);
+      } else {
+        // Keep the export keyword so that the enum var is exported as an ES module binding.
+        this.tokens.copyToken();
+        this.processEnum();
+      }
+      return true;
+    }
+    if (this.tokens.matches1(tt._namespace) || this.tokens.matches2(tt._export, tt._namespace)) {
+      this.processNamespace(null);
       return true;
     }
     return false;
   }
 
-  processEnum(isExport: boolean = false): void {
+  /**
+   * Get the argument to pass to an enum or namespace IIFE. This creates the object if it doesn't
+   * exist yet, and if the declaration is exported, also assigns it to the export.
+   */
+  getIIFEArgCode(name: string, isExport: boolean, namespaceName: string | null): string {
+    if (isExport && namespaceName) {
+      return `${name} = ${namespaceName}.${name} || (${namespaceName}.${name} = {})`;
+    } else if (isExport) {
+      return `${name} || (exports.${name} = ${name} = {})`;
+    } else {
+      return `${name} || (${name} = {})`;
+    }
+  }
+
+  processEnum(isExport: boolean = false, namespaceName: string | null = null): void {
     // We might have "export const enum", so just remove all relevant tokens.
     this.tokens.removeInitialToken();
     while (this.tokens.matches1(tt._const) || this.tokens.matches1(tt._enum)) {
       this.tokens.removeToken();
     }
     const enumName = this.tokens.identifierName();
+    const enumValues = computeEnumValues(
+      this.tokens,
+      enumName,
+      this.tokens.currentIndex() + 1,
+      this.constEnumValues,
+    );
     this.tokens.removeToken();
     this.tokens.appendCode(`var ${enumName}; (function (${enumName})`);
     this.tokens.copyExpectedToken(tt.braceL);
-    this.processEnumBody(enumName);
+    this.processEnumBody(enumName, enumValues);
     this.tokens.copyExpectedToken(tt.braceR);
-    if (isExport) {
-      this.tokens.appendCode(`)(${enumName} || (exports.${enumName} = ${enumName} = {}));`);
+    this.tokens.appendCode(`)(${this.getIIFEArgCode(enumName, isExport, namespaceName)});`);
+  }
+
+  /**
+   * Transform this:
+   * namespace A.B { export const x = 1; }
+   * into this:
+   * var A; (function (A) {var B; (function (B) { B.x = 1; })(B = A.B || (A.B = {}));})(A || (A = {}));
+   *
+   * Like in tsc, exported variables only exist as properties of the namespace object, so every
+   * reference to them within the namespace is rewritten, e.g. to `B.x`. The same goes for
+   * references to anything exported by another declaration of the same namespace. Namespaces that
+   * only contain types are removed entirely.
+   *
+   * namespaceName is the name of the enclosing namespace, if any.
+   */
+  processNamespace(namespaceName: string | null): void {
+    const startIndex = this.tokens.currentIndex();
+    const isExport = this.tokens.matches1(tt._export);
+    let bodyStartIndex = startIndex;
+    while (!this.tokens.matchesAtIndex(bodyStartIndex, [tt.braceL])) {
+      bodyStartIndex++;
+    }
+    if (this.isTypeOnlyNamespaceBody(bodyStartIndex)) {
+      this.removeNamespace();
+      return;
+    }
+
+    const names = [];
+    for (let i = startIndex + (isExport ? 2 : 1); i < bodyStartIndex; i += 2) {
+      names.push(this.tokens.identifierNameAtIndex(i));
+    }
+    const outerName = names[0];
+    const needsVarDeclaration = !this.hasClassDeclaration(outerName, startIndex);
+    if (isExport && !namespaceName && !this.isImportsTransformEnabled && needsVarDeclaration) {
+      // Keep the export keyword so that the namespace var is exported as an ES module binding.
+      this.tokens.copyToken();
+      this.tokens.removeToken();
+      this.tokens.appendCode(" ");
+    } else {
+      this.tokens.removeInitialToken();
+      if (isExport) {
+        this.tokens.removeToken();
+      }
+    }
+    while (!this.tokens.matches1(tt.braceL)) {
+      this.tokens.removeToken();
+    }
+
+    const closingCode = [];
+    for (let i = 0; i < names.length; i++) {
+      const name = names[i];
+      let argCode;
+      if (i === 0) {
+        const isExternalExport =
+          isExport && (namespaceName !== null || this.isImportsTransformEnabled);
+        argCode = this.getIIFEArgCode(name, isExternalExport, namespaceName);
+      } else {
+        argCode = this.getIIFEArgCode(name, true, names[i - 1]);
+      }
+      const varCode = i > 0 || needsVarDeclaration ? `var ${name}; ` : "";
+      if (i < names.length - 1) {
+        this.tokens.appendCode(`${varCode}(function (${name}) {`);
+        closingCode.unshift(`})(${argCode});`);
+      } else {
+        this.tokens.appendCode(`${varCode}(function (${name})`);
+        closingCode.unshift(`)(${argCode});`);
+      }
+    }
+
+    const innerName = names[names.length - 1];
+    this.namespaceBodies.push(this.getNamespaceBody(innerName, names, bodyStartIndex));
+    this.tokens.copyExpectedToken(tt.braceL);
+    const oldScopeStartIndex = this.scopeStartIndex;
+    this.scopeStartIndex = this.tokens.currentIndex();
+    this.processNamespaceBody(innerName);
+    this.scopeStartIndex = oldScopeStartIndex;
+    this.tokens.copyExpectedToken(tt.braceR);
+    this.namespaceBodies.pop();
+    this.tokens.appendCode(closingCode.join(""));
+  }
+
+  processNamespaceBody(namespaceName: string): void {
+    let braceDepth = 0;
+    while (true) {
+      if (this.tokens.matches1(tt.braceL) || this.tokens.matches1(tt.dollarBraceL)) {
+        braceDepth++;
+      } else if (this.tokens.matches1(tt.braceR)) {
+        if (braceDepth === 0) {
+          return;
+        }
+        braceDepth--;
+      }
+      if (
+        braceDepth === 0 &&
+        this.tokens.matches1(tt._export) &&
+        !this.tokens.currentToken().isType
+      ) {
+        this.processNamespaceExport(namespaceName);
+      } else {
+        this.rootTransformer.processToken();
+      }
+    }
+  }
+
+  processNamespaceExport(namespaceName: string): void {
+    if (this.tokens.matches2(tt._export, tt._namespace)) {
+      this.processNamespace(namespaceName);
+    } else if (
+      this.tokens.matches2(tt._export, tt._enum) ||
+      this.tokens.matches3(tt._export, tt._const, tt._enum)
+    ) {
+      this.processEnum(true, namespaceName);
+    } else if (
+      this.tokens.matches2(tt._export, tt._var) ||
+      this.tokens.matches2(tt._export, tt._let) ||
+      this.tokens.matches2(tt._export, tt._const)
+    ) {
+      this.processNamespaceExportVar(namespaceName);
+    } else if (
+      this.tokens.matches2(tt._export, tt._function) ||
+      this.tokens.matches3(tt._export, tt.name, tt._function)
+    ) {
+      this.tokens.removeInitialToken();
+      const name = this.rootTransformer.processNamedFunction();
+      this.tokens.appendCode(` ${namespaceName}.${name} = ${name};`);
+    } else if (
+      this.tokens.matches2(tt._export, tt._class) ||
+      this.tokens.matches3(tt._export, tt._abstract, tt._class)
+    ) {
+      this.tokens.removeInitialToken();
+      if (this.tokens.matches1(tt._abstract)) {
+        this.tokens.removeToken();
+      }
+      const name = this.rootTransformer.processNamedClass();
+      this.tokens.appendCode(` ${namespaceName}.${name} = ${name};`);
+    } else if (this.tokens.matches4(tt._export, tt._import, tt.name, tt.eq)) {
+      this.tokens.removeInitialToken();
+      this.tokens.replaceToken("const");
+      const name = this.tokens.identifierName();
+      this.tokens.copyToken();
+      this.tokens.copyToken();
+      this.tokens.appendCode(` ${namespaceName}.${name} =`);
+    } else {
+      throw new Error("Unrecognized export syntax in namespace.");
+    }
+  }
+
+  /**
+   * Transform this:
+   * export const a = 1, {b, c: [d]} = e;
+   * into this:
+   * N.a = 1, ({b: N.b, c: [N.d]} = e);
+   */
+  processNamespaceExportVar(namespaceName: string): void {
+    const declarators = getVariableDeclarators(this.tokens, this.tokens.currentIndex() + 2);
+    this.tokens.removeInitialToken();
+    this.tokens.removeToken();
+    for (const {startIndex, isPattern, nameIndices, endIndex} of declarators) {
+      // The brackets of the pattern enclosing the current token, to detect shorthand properties.
+      const bracketTypes = [];
+      while (this.tokens.currentIndex() < endIndex) {
+        const index = this.tokens.currentIndex();
+        if (nameIndices.includes(index)) {
+          const name = this.tokens.identifierName();
+          const isShorthand =
+            bracketTypes[bracketTypes.length - 1] === tt.braceL &&
+            (this.tokens.matchesAtIndex(index - 1, [tt.braceL]) ||
+              this.tokens.matchesAtIndex(index - 1, [tt.comma]));
+          this.tokens.replaceToken(
+            isShorthand ? `${name}: ${namespaceName}.${name}` : `${namespaceName}.${name}`,
+          );
+        } else if (bracketTypes.length === 0 && this.tokens.matches1(tt.eq)) {
+          this.processTokensUntil(endIndex);
+        } else if (
+          isPattern &&
+          (this.tokens.matches1(tt.braceL) || this.tokens.matches1(tt.bracketL))
+        ) {
+          const bracketType = this.tokens.currentToken().type;
+          bracketTypes.push(bracketType);
+          // Copy rather than process the bracket, since an object rest in an assignment pattern
+          // doesn't need any transformation.
+          if (index === startIndex) {
+            this.tokens.replaceToken(bracketType === tt.braceL ? "({" : "([");
+          } else {
+            this.tokens.copyToken();
+          }
+        } else if (
+          isPattern &&
+          (this.tokens.matches1(tt.braceR) || this.tokens.matches1(tt.bracketR))
+        ) {
+          bracketTypes.pop();
+          this.tokens.copyToken();
+        } else if (this.tokens.matches1(tt.eq)) {
+          this.tokens.copyToken();
+          this.processTokensUntil(getDefaultValueEndIndex(this.tokens, index));
+        } else {
+          this.rootTransformer.processToken();
+        }
+      }
+      if (isPattern) {
+        this.tokens.appendCode(")");
+      }
+      if (this.tokens.matches1(tt.comma)) {
+        this.tokens.copyToken();
+      }
+    }
+  }
+
+  processTokensUntil(endIndex: number): void {
+    while (this.tokens.currentIndex() < endIndex) {
+      this.rootTransformer.processToken();
+    }
+  }
+
+  /**
+   * Gather the names to rewrite as namespace properties within the namespace body starting at the
+   * given open-brace, whose dotted name is given by names.
+   */
+  private getNamespaceBody(
+    namespaceName: string,
+    names: Array<string>,
+    bodyStartIndex: number,
+  ): NamespaceBody {
+    const ownExports = this.getNamespaceExports(bodyStartIndex);
+    const memberNames = new Set(ownExports.variableNames);
+    for (const otherBodyStartIndex of this.getMergedNamespaceBodyStartIndices(
+      names,
+      bodyStartIndex,
+    )) {
+      const otherExports = this.getNamespaceExports(otherBodyStartIndex);
+      for (const name of [...otherExports.variableNames, ...otherExports.otherNames]) {
+        memberNames.add(name);
+      }
+    }
+
+    const localNames: Set<string> = new Set();
+    const shadowedRanges: Map<string, Array<{start: number; end: number}>> = new Map();
+    const bodyEndIndex = this.getMatchingBraceIndex(bodyStartIndex);
+    for (let i = bodyStartIndex + 1; i < bodyEndIndex; i++) {
+      const token = this.tokens.tokens[i];
+      if (
+        token.type !== tt.name ||
+        token.isType ||
+        (token.identifierRole !== IdentifierRole.FunctionScopedDeclaration &&
+          token.identifierRole !== IdentifierRole.BlockScopedDeclaration) ||
+        ownExports.variableNameIndices.includes(i)
+      ) {
+        continue;
+      }
+      const name = this.tokens.identifierNameAtIndex(i);
+      const scope = this.getDeclarationScope(
+        i,
+        token.identifierRole === IdentifierRole.FunctionScopedDeclaration,
+      );
+      if (scope.startTokenIndex === bodyStartIndex) {
+        localNames.add(name);
+      } else if (memberNames.has(name)) {
+        const ranges = shadowedRanges.get(name) || [];
+        ranges.push({start: scope.startTokenIndex, end: scope.endTokenIndex});
+        shadowedRanges.set(name, ranges);
+      }
+    }
+    return {namespaceName, memberNames, localNames, shadowedRanges};
+  }
+
+  /**
+   * Get the names exported by the namespace body starting at the given open-brace.
+   */
+  private getNamespaceExports(bodyStartIndex: number): NamespaceExports {
+    const variableNames = [];
+    const variableNameIndices = [];
+    const otherNames = [];
+    const bodyEndIndex = this.getMatchingBraceIndex(bodyStartIndex);
+    let depth = 0;
+    for (let i = bodyStartIndex + 1; i < bodyEndIndex; i++) {
+      const token = this.tokens.tokens[i];
+      if (token.type === tt.braceL || token.type === tt.dollarBraceL) {
+        depth++;
+      } else if (token.type === tt.braceR) {
+        depth--;
+      }
+      if (depth > 0 || token.type !== tt._export || token.isType) {
+        continue;
+      }
+      if (
+        this.tokens.matchesAtIndex(i + 1, [tt._var]) ||
+        this.tokens.matchesAtIndex(i + 1, [tt._let]) ||
+        (this.tokens.matchesAtIndex(i + 1, [tt._const]) &&
+          !this.tokens.matchesAtIndex(i + 2, [tt._enum]))
+      ) {
+        for (const {names, nameIndices} of getVariableDeclarators(this.tokens, i + 2)) {
+          variableNames.push(...names);
+          variableNameIndices.push(...nameIndices);
+        }
+        continue;
+      }
+      // Find the declared name, e.g. `C` in `export abstract class C`.
+      let nameIndex = i + 1;
+      while (
+        nameIndex < bodyEndIndex &&
+        !this.tokens.matchesAtIndex(nameIndex, [tt.braceL]) &&
+        (!this.tokens.matchesAtIndex(nameIndex, [tt.name]) ||
+          this.tokens.matchesAtIndex(nameIndex + 1, [tt._function]))
+      ) {
+        nameIndex++;
+      }
+      if (
+        this.tokens.matchesAtIndex(nameIndex, [tt.name]) &&
+        !this.tokens.tokens[nameIndex].isType
+      ) {
+        otherNames.push(this.tokens.identifierNameAtIndex(nameIndex));
+      }
+    }
+    return {variableNames, variableNameIndices, otherNames};
+  }
+
+  /**
+   * Get the body start indices of the other declarations of the namespace with the given dotted
+   * name in the current scope.
+   */
+  getMergedNamespaceBodyStartIndices(names: Array<string>, bodyStartIndex: number): Array<number> {
+    const bodyStartIndices = [];
+    let depth = 0;
+    for (let i = this.scopeStartIndex; i < this.tokens.tokens.length; i++) {
+      const token = this.tokens.tokens[i];
+      if (token.type === tt.braceL || token.type === tt.dollarBraceL) {
+        depth++;
+      } else if (token.type === tt.braceR) {
+        if (depth === 0) {
+          break;
+        }
+        depth--;
+      } else if (depth === 0 && token.type === tt._namespace && !token.isType) {
+        let otherBodyStartIndex = i + 1;
+        const otherNames = [];
+        while (this.tokens.matchesAtIndex(otherBodyStartIndex, [tt.name])) {
+          otherNames.push(this.tokens.identifierNameAtIndex(otherBodyStartIndex));
+          otherBodyStartIndex += this.tokens.matchesAtIndex(otherBodyStartIndex + 1, [tt.dot])
+            ? 2
+            : 1;
+        }
+        if (
+          otherBodyStartIndex !== bodyStartIndex &&
+          this.tokens.matchesAtIndex(otherBodyStartIndex, [tt.braceL]) &&
+          otherNames.join(".") === names.join(".")
+        ) {
+          bodyStartIndices.push(otherBodyStartIndex);
+        }
+      }
+    }
+    return bodyStartIndices;
+  }
+
+  getMatchingBraceIndex(braceIndex: number): number {
+    let depth = 0;
+    for (let i = braceIndex + 1; ; i++) {
+      const token = this.tokens.tokens[i];
+      if (token.type === tt.braceL || token.type === tt.dollarBraceL) {
+        depth++;
+      } else if (token.type === tt.braceR) {
+        if (depth === 0) {
+          return i;
+        }
+        depth--;
+      }
+    }
+  }
+
+  /**
+   * Get the innermost scope containing the declaration at the given index. `var` and function
+   * declarations belong to the innermost function scope.
+   */
+  getDeclarationScope(index: number, isFunctionScoped: boolean): Scope {
+    let innermostScope = null;
+    for (const scope of this.scopes) {
+      if (
+        scope.startTokenIndex <= index &&
+        index < scope.endTokenIndex &&
+        (scope.isFunctionScope || !isFunctionScoped) &&
+        (!innermostScope || scope.startTokenIndex >= innermostScope.startTokenIndex)
+      ) {
+        innermostScope = scope;
+      }
+    }
+    if (!innermostScope) {
+      throw new Error("Expected a scope containing the declaration.");
+    }
+    return innermostScope;
+  }
+
+  /**
+   * Transform this:
+   * x
+   * into this:
+   * N.x
+   *
+   * for references to exported variables of the enclosing namespace and to anything exported by
+   * another declaration of the same namespace. Returns false if the current token isn't such a
+   * reference.
+   */
+  processNamespaceMemberReference(): boolean {
+    const token = this.tokens.currentToken();
+    if (
+      token.isType ||
+      (token.identifierRole !== IdentifierRole.Access &&
+        token.identifierRole !== IdentifierRole.ObjectShorthand)
+    ) {
+      return false;
+    }
+    const index = this.tokens.currentIndex();
+    const name = this.tokens.identifierName();
+    for (let i = this.namespaceBodies.length - 1; i >= 0; i--) {
+      const {namespaceName, memberNames, localNames, shadowedRanges} = this.namespaceBodies[i];
+      if (localNames.has(name)) {
+        return false;
+      }
+      if (!memberNames.has(name)) {
+        continue;
+      }
+      const ranges = shadowedRanges.get(name) || [];
+      if (ranges.some(({start, end}) => start <= index && index < end)) {
+        return false;
+      }
+      const code = `${namespaceName}.${name}`;
+      if (token.identifierRole === IdentifierRole.ObjectShorthand) {
+        this.tokens.replaceToken(`${name}: ${code}`);
+      } else {
+        this.tokens.replaceToken(code);
+      }
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Determine if the namespace body starting at the given open-brace only declares types, in which
+   * case it has no runtime representation.
+   */
+  isTypeOnlyNamespaceBody(bodyStartIndex: number): boolean {
+    let index = bodyStartIndex + 1;
+    let depth = 0;
+    while (true) {
+      const token = this.tokens.tokens[index];
+      if (token.type === tt.braceR) {
+        if (depth === 0) {
+          return true;
+        }
+        depth--;
+        index++;
+      } else if (token.isType || token.type === tt._export) {
+        index++;
+      } else if (token.type === tt._namespace) {
+        // A nested namespace is fine as long as its body is also type-only.
+        while (!this.tokens.matchesAtIndex(index, [tt.braceL])) {
+          index++;
+        }
+        depth++;
+        index++;
+      } else {
+        return false;
+      }
+    }
+  }
+
+  removeNamespace(): void {
+    this.tokens.removeInitialToken();
+    let depth = 0;
+    while (true) {
+      if (this.tokens.matches1(tt.braceL)) {
+        depth++;
+      } else if (this.tokens.matches1(tt.braceR)) {
+        depth--;
+        if (depth === 0) {
+          this.tokens.removeToken();
+          return;
+        }
+      }
+      this.tokens.removeToken();
+    }
+  }
+
+  /**
+   * Determine if there's a class declaration with the given name earlier in the current scope. A
+   * namespace merged with a class shouldn't redeclare the name with `var`.
+   */
+  hasClassDeclaration(name: string, endIndex: number): boolean {
+    let depth = 0;
+    for (let i = this.scopeStartIndex; i < endIndex; i++) {
+      const token = this.tokens.tokens[i];
+      if (token.type === tt.braceL || token.type === tt.dollarBraceL) {
+        depth++;
+      } else if (token.type === tt.braceR) {
+        depth--;
+      } else if (
+        depth === 0 &&
+        token.type === tt._class &&
+        token.isExpression === false &&
+        this.tokens.matchesAtIndex(i + 1, [tt.name]) &&
+        this.tokens.identifierNameAtIndex(i + 1) === name
+      ) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Transform this:
+   * Color.Red
+   * into this:
+   * 0 /* Color.Red *\/
+   *
+   * for members of const enums declared at the top level of this file. Returns false if the current
+   * token isn't the start of such an access.
+   */
+  processConstEnumAccess(): boolean {
+    const token = this.tokens.currentToken();
+    if (token.isType || token.shadowsGlobal || token.identifierRole !== IdentifierRole.Access) {
+      return false;
+    }
+    const enumName = this.tokens.identifierName();
+    const enumValues = this.constEnumValues.get(enumName);
+    if (!enumValues) {
+      return false;
+    }
+    let memberName;
+    let numTokens;
+    if (this.tokens.matches3(tt.name, tt.dot, tt.name)) {
+      memberName = this.tokens.identifierNameAtIndex(this.tokens.currentIndex() + 2);
+      numTokens = 3;
+    } else if (this.tokens.matches4(tt.name, tt.bracketL, tt.string, tt.bracketR)) {
+      memberName = this.tokens.stringValueForToken(this.tokens.tokenAtRelativeIndex(2));
+      numTokens = 4;
     } else {
-      this.tokens.appendCode(`)(${enumName} || (${enumName} = {}));`);
+      return false;
+    }
+    const value = enumValues.get(memberName);
+    if (value === undefined) {
+      return false;
+    }
+    let code = getEnumValueCode(value);
+    if (code.startsWith("-")) {
+      // The access may be an operand, e.g. in `a - E.A`, so keep the value from combining with the
+      // preceding operator.
+      code = `(${code})`;
+    }
+    if (isIdentifier(memberName)) {
+      code += ` /* ${enumName}.${memberName} */`;
+    }
+    this.tokens.replaceToken(code);
+    for (let i = 1; i < numTokens; i++) {
+      this.tokens.removeToken();
+    }
+    return true;
+  }
+
+  removeConstEnum(): void {
+    this.tokens.removeInitialToken();
+    let depth = 0;
+    while (true) {
+      if (this.tokens.matches1(tt.braceL) || this.tokens.matches1(tt.dollarBraceL)) {
+        depth++;
+      } else if (this.tokens.matches1(tt.braceR)) {
+        depth--;
+        if (depth === 0) {
+          this.tokens.removeToken();
+          return;
+        }
+      }
+      this.tokens.removeToken();
     }
   }
 
   /**
-   * Rather than try to compute the actual enum values at compile time, we just create variables for
-   * each one and let everything evaluate at runtime. There's some additional complexity due to
-   * handling string literal names, including ones that happen to be valid identifiers.
+   * Transform an enum body into statements assigning each member. Members with a value known at
+   * compile time use that value directly rather than evaluating the initializer at runtime. There's
+   * some additional complexity due to handling string literal names, including ones that happen to
+   * be valid identifiers.
    */
-  processEnumBody(enumName: string): void {
+  processEnumBody(enumName: string, enumValues: EnumValues): void {
     let isPreviousValidIdentifier = false;
     let lastValueReference = null;
     while (true) {
@@ -122,6 +772,11 @@ export default class TypeScriptTransformer extends Transformer {
           valueCode = "0";
         }
       }
+      const value = enumValues.get(name);
+      if (value !== undefined) {
+        valueIsString = typeof value === "string";
+        valueCode = getEnumValueCode(value);
+      }
       if (this.tokens.matches1(tt.comma)) {
         this.tokens.removeToken();
       }
@@ -0,0 +1,265 @@
+import {Token} from "../../sucrase-babylon/tokenizer";
+import {TokenType as tt} from "../../sucrase-babylon/tokenizer/types";
+import TokenProcessor from "../TokenProcessor";
+import getStringLiteralValue from "./getStringLiteralValue";
+
+export type EnumValue = number | string;
+export type EnumValues = Map<string, EnumValue>;
+
+/**
+ * Find the `const enum` declarations at the top level of the file and compute the values of their
+ * members. Like the TypeScript compiler with isolatedModules, we only know about const enums
+ * declared in the same file.
+ */
+export function getConstEnumValues(tokens: TokenProcessor): Map<string, EnumValues> {
+  const constEnumValues = new Map();
+  let depth = 0;
+  for (let i = 0; i < tokens.tokens.length; i++) {
+    const token = tokens.tokens[i];
+    if (token.type === tt.braceL || token.type === tt.dollarBraceL) {
+      depth++;
+    } else if (token.type === tt.braceR) {
+      depth--;
+    } else if (
+      depth === 0 &&
+      !token.isType &&
+      tokens.matchesAtIndex(i, [tt._const, tt._enum, tt.name, tt.braceL])
+    ) {
+      const enumName = tokens.identifierNameAtIndex(i + 2);
+      constEnumValues.set(enumName, computeEnumValues(tokens, enumName, i + 3, constEnumValues));
+    }
+  }
+  return constEnumValues;
+}
+
+/**
+ * Compute the values of all enum members whose values are known at compile time, given the index
+ * of the open-brace starting the enum body. Members without an initializer count up from the
+ * previous member, and initializers may use literals, arithmetic and bitwise operators, and
+ * references to earlier members or const enum members.
+ */
+export default function computeEnumValues(
+  tokens: TokenProcessor,
+  enumName: string,
+  bodyStartIndex: number,
+  constEnumValues: Map<string, EnumValues>,
+): EnumValues {
+  const values = new Map();
+  let index = bodyStartIndex + 1;
+  let previousValue: EnumValue | null | undefined;
+  while (!tokens.matchesAtIndex(index, [tt.braceR])) {
+    const name = getMemberName(tokens, tokens.tokens[index]);
+    index++;
+    let value: EnumValue | null;
+    if (tokens.matchesAtIndex(index, [tt.eq])) {
+      const rhsEndIndex = tokens.tokens[index].rhsEndIndex;
+      if (rhsEndIndex == null) {
+        throw new Error("Expected rhsEndIndex on enum assign.");
+      }
+      const evaluator = new ConstantEvaluator(tokens, enumName, values, constEnumValues);
+      value = evaluator.evaluate(index + 1, rhsEndIndex);
+      index = rhsEndIndex;
+    } else if (previousValue === undefined) {
+      value = 0;
+    } else if (typeof previousValue === "number") {
+      value = previousValue + 1;
+    } else {
+      value = null;
+    }
+    if (value !== null) {
+      values.set(name, value);
+    }
+    previousValue = value;
+    if (tokens.matchesAtIndex(index, [tt.comma])) {
+      index++;
+    }
+  }
+  return values;
+}
+
+function getMemberName(tokens: TokenProcessor, token: Token): string {
+  if (token.type === tt.name) {
+    return tokens.identifierNameForToken(token);
+  } else if (token.type === tt.string) {
+    return tokens.stringValueForToken(token);
+  } else {
+    throw new Error("Expected name or string at beginning of enum element.");
+  }
+}
+
+/**
+ * Get the code for a known enum value, suitable for use as an expression on its own. Negative
+ * numbers need parens when used as an operand.
+ */
+export function getEnumValueCode(value: EnumValue): string {
+  if (typeof value === "string") {
+    return JSON.stringify(value);
+  }
+  // String(-0) is "0", so negative zero needs to be handled separately.
+  return Object.is(value, -0) ? "-0" : String(value);
+}
+
+/**
+ * Evaluator for constant enum initializers. Each method returns null if the expression isn't a
+ * compile-time constant.
+ */
+class ConstantEvaluator {
+  private index: number = 0;
+  private endIndex: number = 0;
+
+  constructor(
+    readonly tokens: TokenProcessor,
+    readonly enumName: string,
+    readonly values: EnumValues,
+    readonly constEnumValues: Map<string, EnumValues>,
+  ) {}
+
+  evaluate(startIndex: number, endIndex: number): EnumValue | null {
+    this.index = startIndex;
+    this.endIndex = endIndex;
+    const value = this.evaluateBinary(0);
+    return this.index === endIndex ? value : null;
+  }
+
+  /**
+   * Evaluate a sequence of binary operations, only consuming operators with a higher precedence
+   * than minPrecedence.
+   */
+  private evaluateBinary(minPrecedence: number): EnumValue | null {
+    let left = this.evaluateUnary();
+    while (left !== null && this.index < this.endIndex) {
+      const operatorToken = this.tokens.tokens[this.index];
+      const precedence = operatorToken.type & tt.PRECEDENCE_MASK;
+      if (precedence <= minPrecedence) {
+        break;
+      }
+      this.index++;
+      const isRightAssociative = (operatorToken.type & tt.IS_RIGHT_ASSOCIATIVE) !== 0;
+      const right = this.evaluateBinary(isRightAssociative ? precedence - 1 : precedence);
+      if (right === null) {
+        return null;
+      }
+      left = this.applyBinaryOperator(operatorToken, left, right);
+    }
+    return left;
+  }
+
+  private applyBinaryOperator(
+    operatorToken: Token,
+    left: EnumValue,
+    right: EnumValue,
+  ): EnumValue | null {
+    if (operatorToken.type === tt.plus) {
+      return typeof left === "string" || typeof right === "string"
+        ? String(left) + String(right)
+        : left + right;
+    }
+    if (typeof left !== "number" || typeof right !== "number") {
+      return null;
+    }
+    switch (operatorToken.type) {
+      case tt.minus:
+        return left - right;
+      case tt.star:
+        return left * right;
+      case tt.slash:
+        return left / right;
+      case tt.modulo:
+        return left % right;
+      case tt.exponent:
+        return left ** right;
+      case tt.bitwiseOR:
+        return left | right;
+      case tt.bitwiseXOR:
+        return left ^ right;
+      case tt.bitwiseAND:
+        return left & right;
+      case tt.bitShift: {
+        const operator = this.tokens.code.slice(operatorToken.start, operatorToken.end);
+        if (operator === "<<") {
+          return left << right;
+        } else if (operator === ">>") {
+          return left >> right;
+        } else {
+          return left >>> right;
+        }
+      }
+      default:
+        return null;
+    }
+  }
+
+  private evaluateUnary(): EnumValue | null {
+    if (this.index >= this.endIndex) {
+      return null;
+    }
+    const token = this.tokens.tokens[this.index];
+    if (token.type === tt.plus || token.type === tt.minus || token.type === tt.tilde) {
+      this.index++;
+      const value = this.evaluateUnary();
+      if (typeof value !== "number") {
+        return null;
+      }
+      if (token.type === tt.plus) {
+        return value;
+      } else if (token.type === tt.minus) {
+        return -value;
+      } else {
+        return ~value;
+      }
+    }
+    return this.evaluateAtom();
+  }
+
+  private evaluateAtom(): EnumValue | null {
+    const token = this.tokens.tokens[this.index];
+    this.index++;
+    switch (token.type) {
+      case tt.num:
+        return Number(this.tokens.code.slice(token.start, token.end).replace(/_/g, ""));
+      case tt.string:
+        return getStringLiteralValue(this.tokens, token);
+      case tt.parenL: {
+        const value = this.evaluateBinary(0);
+        if (value === null || !this.tokens.matchesAtIndex(this.index, [tt.parenR])) {
+          return null;
+        }
+        this.index++;
+        return value;
+      }
+      case tt.name:
+        return this.evaluateReference(this.tokens.identifierNameForToken(token));
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Resolve a reference to an earlier member, either directly (`A`) or through an enum name
+   * (`E.A` or `E["A"]`).
+   */
+  private evaluateReference(name: string): EnumValue | null {
+    let enumValues = null;
+    if (name === this.enumName) {
+      enumValues = this.values;
+    } else if (this.constEnumValues.has(name)) {
+      enumValues = this.constEnumValues.get(name)!;
+    }
+    let memberName = null;
+    if (enumValues && this.tokens.matchesAtIndex(this.index, [tt.dot, tt.name])) {
+      memberName = this.tokens.identifierNameAtIndex(this.index + 1);
+      this.index += 2;
+    } else if (
+      enumValues &&
+      this.tokens.matchesAtIndex(this.index, [tt.bracketL, tt.string, tt.bracketR])
+    ) {
+      memberName = this.tokens.stringValueForToken(this.tokens.tokens[this.index + 1]);
+      this.index += 3;
+    } else {
+      enumValues = this.values;
+      memberName = name;
+    }
+    const value = enumValues.get(memberName);
+    return value === undefined ? null : value;
+  }
+}
@@ -1,7 +1,9 @@
 import {ContextualKeyword, Token} from "../../sucrase-babylon/tokenizer";
 import {TokenType as tt} from "../../sucrase-babylon/tokenizer/types";
+import NameManager from "../NameManager";
 import TokenProcessor from "../TokenProcessor";
 import RootTransformer from "../transformers/RootTransformer";
+import getDecoratorCode from "./getDecoratorCode";
 
 export type ClassHeaderInfo = {
   isExpression: boolean;
@@ -9,27 +11,67 @@ export type ClassHeaderInfo = {
   hasSuperclass: boolean;
 };
 
+export type TokenRange = {start: number; end: number};
+
+export type ParamDecorator = {
+  paramIndex: number;
+  code: string;
+};
+
+export type DecoratedMember = {
+  // Transformed code for each decorator expression on the member itself.
+  decoratorCodes: Array<string>;
+  paramDecorators: Array<ParamDecorator>;
+  isStatic: boolean;
+  // Property key expression to pass to the decorator helper, e.g. `"foo"`.
+  keyCode: string;
+  // Token index of the open-bracket of a computed method or accessor name, whose key needs to be
+  // saved in a variable so that it isn't evaluated again for the decorator helper.
+  computedKeyIndex: number | null;
+  kind: "field" | "method" | "get" | "set";
+  // Token range of the type annotation describing the member's value (the field type, getter
+  // return type, or setter parameter type), if there is one.
+  typeRange: TokenRange | null;
+};
+
+export type PrivateMethod = {
+  // Token range of the method, which is moved out of the class and assigned as a function.
+  range: TokenRange;
+  // Generated variable for the function, which is declared along with the class.
+  functionName: string;
+};
+
 export type ClassInfo = {
   headerInfo: ClassHeaderInfo;
   // Array of non-semicolon-delimited code strings to go in the constructor, after super if
   // necessary.
   initializerStatements: Array<string>;
-  // Array of static initializer statements, with the class name omitted. For example, if we need to
-  // run `C.x = 3;`, an element of this array will be `.x = 3`.
-  staticInitializerSuffixes: Array<string>;
+  // Array of functions producing static initializer statements from the class name. For example,
+  // if we need to run `C.x = 3;`, an element of this array will return `${className}.x = 3`.
+  staticInitializers: Array<(className: string) => string>;
   // Token index after which we should insert initializer statements (either the start of the
   // constructor, or after the super call), or null if there was no constructor.
   constructorInsertPos: number | null;
-  fieldRanges: Array<{start: number; end: number}>;
+  fieldRanges: Array<TokenRange>;
+  privateMethods: Array<PrivateMethod>;
+  // Members that have decorators on themselves or on their parameters.
+  decoratedMembers: Array<DecoratedMember>;
+  // Decorators on constructor parameters, which are applied along with the class decorators.
+  constructorParamDecorators: Array<ParamDecorator>;
+  // Token ranges of all member and parameter decorators, which should be removed from the class.
+  decoratorRanges: Array<TokenRange>;
 };
 
 /**
  * Get information about the class fields for this class, given a token processor pointing to the
- * open-brace at the start of the class.
+ * open-brace at the start of the class. privateNames has the WeakMap variable for each private
+ * name declared by the class, or is null if private members should be left in the class body.
  */
 export default function getClassInfo(
   rootTransformer: RootTransformer,
   tokens: TokenProcessor,
+  nameManager: NameManager,
+  privateNames: Map<string, string> | null,
 ): ClassInfo {
   const snapshot = tokens.snapshot();
 
@@ -37,9 +79,20 @@ export default function getClassInfo(
 
   let constructorInitializers: Array<string> = [];
   const classInitializers: Array<string> = [];
-  const staticInitializerSuffixes: Array<string> = [];
+  const staticInitializers: Array<(className: string) => string> = [];
   let constructorInsertPos = null;
   const fieldRanges = [];
+  const privateMethods: Array<PrivateMethod> = [];
+  // Property descriptor entries for private methods and accessors, which are shared by getter and
+  // setter pairs, e.g. `get: _get_x, set: _set_x`.
+  const privateMethodDescriptors: Map<
+    string,
+    {isStatic: boolean; entries: Array<string>}
+  > = new Map();
+  const decoratedMembers: Array<DecoratedMember> = [];
+  let constructorParamDecorators: Array<ParamDecorator> = [];
+  const decoratorRanges: Array<TokenRange> = [];
+  let decoratorCodes: Array<string> = [];
 
   const classContextId = tokens.currentToken().contextId;
   if (classContextId == null) {
@@ -48,41 +101,153 @@ export default function getClassInfo(
 
   tokens.nextToken();
   while (!tokens.matchesContextIdAndLabel(tt.braceR, classContextId)) {
-    if (tokens.matchesContextual(ContextualKeyword._constructor)) {
-      ({constructorInitializers, constructorInsertPos} = processConstructor(tokens));
+    if (tokens.matches1(tt.at)) {
+      const decoratorStartIndex = tokens.currentIndex();
+      decoratorCodes.push(getDecoratorCode(rootTransformer, tokens));
+      decoratorRanges.push({start: decoratorStartIndex, end: tokens.currentIndex()});
+    } else if (tokens.currentToken().isType) {
+      // Overload signatures and abstract members are removed by the type transform.
+      tokens.nextToken();
+    } else if (tokens.matchesContextual(ContextualKeyword._constructor)) {
+      ({
+        constructorInitializers,
+        constructorInsertPos,
+        constructorParamDecorators,
+      } = processConstructor(rootTransformer, tokens, decoratorRanges));
     } else if (tokens.matches1(tt.semi)) {
       tokens.nextToken();
     } else {
       // Either a method or a field. Skip to the identifier part.
       const statementStartIndex = tokens.currentIndex();
       let isStatic = false;
-      while (isAccessModifier(tokens.currentToken())) {
+      let kind: "field" | "method" | "get" | "set" = "field";
+      while (isAccessModifier(tokens.currentToken()) || tokens.matches1(tt.star)) {
         if (tokens.matches1(tt._static)) {
           isStatic = true;
+        } else if (tokens.matches1(tt._get)) {
+          kind = "get";
+        } else if (tokens.matches1(tt._set)) {
+          kind = "set";
         }
         tokens.nextToken();
       }
       if (tokens.matchesContextual(ContextualKeyword._constructor)) {
-        ({constructorInitializers, constructorInsertPos} = processConstructor(tokens));
+        ({
+          constructorInitializers,
+          constructorInsertPos,
+          constructorParamDecorators,
+        } = processConstructor(rootTransformer, tokens, decoratorRanges));
         continue;
       }
-      const nameCode = getNameCode(tokens);
-      if (tokens.matches1(tt.lessThan) || tokens.matches1(tt.parenL)) {
-        // This is a method, so just skip to the next method/field. To do that, we seek forward to
-        // the next start of a class name (either an open bracket or an identifier, or the closing
-        // curly brace), then seek backward to include any access modifiers.
-        while (tokens.currentToken().contextId !== classContextId) {
+      let privateName = null;
+      let nameCode = "";
+      const nameStartIndex = tokens.currentIndex();
+      if (tokens.matches1(tt.hash)) {
+        tokens.nextToken();
+        privateName = tokens.identifierName();
+        tokens.nextToken();
+        if (decoratorCodes.length > 0) {
+          throw new Error("Decorators are not supported on private class members.");
+        }
+      } else {
+        nameCode = getNameCode(tokens);
+      }
+      // There might be type parameters or an optional marker before a method's parameters.
+      while (tokens.currentToken().isType && !tokens.matches1(tt.colon)) {
+        tokens.nextToken();
+      }
+      if (tokens.matches1(tt.parenL)) {
+        if (kind === "field") {
+          kind = "method";
+        }
+        // This is a method, so walk through the parameters (which may be decorated) and the body.
+        const methodContextId = tokens.currentToken().contextId;
+        if (methodContextId == null) {
+          throw new Error("Expected context ID on open-paren starting method params.");
+        }
+        const {paramDecorators, firstParamTypeRange} = processParams(
+          rootTransformer,
+          tokens,
+          decoratorRanges,
+        );
+        const returnTypeRange = getTypeAnnotationRange(tokens);
+        while (!tokens.matchesContextIdAndLabel(tt.braceR, methodContextId)) {
           tokens.nextToken();
         }
-        while (isAccessModifier(tokens.tokenAtRelativeIndex(-1))) {
-          tokens.previousToken();
+        tokens.nextToken();
+        if (privateName !== null) {
+          if (paramDecorators.length > 0) {
+            throw new Error("Decorators are not supported on private class members.");
+          }
+          if (privateNames === null) {
+            continue;
+          }
+          const range = {start: statementStartIndex, end: tokens.currentIndex()};
+          for (let i = range.start; i < range.end; i++) {
+            if (tokens.matchesAtIndex(i, [tt._super])) {
+              throw new Error("super is not supported within private methods.");
+            }
+          }
+          const functionName = nameManager.claimFreeName(
+            kind === "method" ? `_${privateName}` : `_${kind}_${privateName}`,
+          );
+          privateMethods.push({range, functionName});
+          const descriptor = privateMethodDescriptors.get(privateName) || {isStatic, entries: []};
+          descriptor.entries.push(`${kind === "method" ? "value" : kind}: ${functionName}`);
+          privateMethodDescriptors.set(privateName, descriptor);
+          continue;
+        }
+        if (decoratorCodes.length > 0 || paramDecorators.length > 0) {
+          let typeRange = null;
+          if (kind === "get") {
+            typeRange = returnTypeRange;
+          } else if (kind === "set") {
+            typeRange = firstParamTypeRange;
+          }
+          decoratedMembers.push({
+            decoratorCodes,
+            paramDecorators,
+            isStatic,
+            keyCode: getKeyCode(nameCode),
+            computedKeyIndex: tokens.matchesAtIndex(nameStartIndex, [tt.bracketL])
+              ? nameStartIndex
+              : null,
+            kind,
+            typeRange,
+          });
         }
+        decoratorCodes = [];
         continue;
       }
       // There might be a type annotation that we need to skip.
-      while (tokens.currentToken().isType) {
+      const typeRange = getTypeAnnotationRange(tokens);
+      if (decoratorCodes.length > 0) {
+        decoratedMembers.push({
+          decoratorCodes,
+          paramDecorators: [],
+          isStatic,
+          keyCode: getKeyCode(nameCode),
+          computedKeyIndex: null,
+          kind: "field",
+          typeRange,
+        });
+        decoratorCodes = [];
+      }
+      if (privateName !== null && privateNames === null) {
+        // Skip past the field, leaving it in the class body.
+        if (tokens.matches1(tt.eq)) {
+          const valueEnd = tokens.currentToken().rhsEndIndex;
+          if (valueEnd == null) {
+            throw new Error("Expected rhsEndIndex on class field assignment.");
+          }
+          while (tokens.currentIndex() < valueEnd) {
+            tokens.nextToken();
+          }
+        }
         tokens.nextToken();
+        continue;
       }
+      let expressionCode: string | null = null;
       if (tokens.matches1(tt.eq)) {
         const valueEnd = tokens.currentToken().rhsEndIndex;
         if (valueEnd == null) {
@@ -97,11 +262,25 @@ export default function getClassInfo(
           rootTransformer.processToken();
         }
         // Note that this can adjust line numbers in the case of multiline expressions.
-        const expressionCode = tokens.getCodeInsertedSinceIndex(resultCodeStart);
+        expressionCode = tokens.getCodeInsertedSinceIndex(resultCodeStart);
+      }
+      if (privateName !== null) {
+        // Uninitialized private fields still need to be added to the object.
+        const descriptorCode = `{writable: true, value:${expressionCode || " void 0"}}`;
+        const mapName = getPrivateMapName(privateNames, privateName);
+        if (isStatic) {
+          staticInitializers.push((className) => `${mapName}.set(${className}, ${descriptorCode})`);
+        } else {
+          classInitializers.push(`${mapName}.set(this, ${descriptorCode})`);
+        }
+      } else if (expressionCode !== null || rootTransformer.options.useDefineForClassFields) {
+        const code = expressionCode;
         if (isStatic) {
-          staticInitializerSuffixes.push(`${nameCode} =${expressionCode}`);
+          staticInitializers.push((className) =>
+            getFieldInitializerCode(rootTransformer, className, nameCode, code),
+          );
         } else {
-          classInitializers.push(`this${nameCode} =${expressionCode}`);
+          classInitializers.push(getFieldInitializerCode(rootTransformer, "this", nameCode, code));
         }
       }
       tokens.nextToken();
@@ -109,13 +288,37 @@ export default function getClassInfo(
     }
   }
 
+  // Private methods and accessors are available as soon as the object is created, so they're added
+  // before any fields are initialized.
+  const privateMethodInitializers: Array<string> = [];
+  const privateStaticMethodInitializers: Array<(className: string) => string> = [];
+  for (const [name, {isStatic, entries}] of privateMethodDescriptors) {
+    const mapName = getPrivateMapName(privateNames, name);
+    const descriptorCode = `{${entries.join(", ")}}`;
+    if (isStatic) {
+      privateStaticMethodInitializers.push(
+        (className) => `${mapName}.set(${className}, ${descriptorCode})`,
+      );
+    } else {
+      privateMethodInitializers.push(`${mapName}.set(this, ${descriptorCode})`);
+    }
+  }
+
   tokens.restoreToSnapshot(snapshot);
   return {
     headerInfo,
-    initializerStatements: [...constructorInitializers, ...classInitializers],
-    staticInitializerSuffixes,
+    initializerStatements: [
+      ...privateMethodInitializers,
+      ...constructorInitializers,
+      ...classInitializers,
+    ],
+    staticInitializers: [...privateStaticMethodInitializers, ...staticInitializers],
     constructorInsertPos,
     fieldRanges,
+    privateMethods,
+    decoratedMembers,
+    constructorParamDecorators,
+    decoratorRanges,
   };
 }
 
@@ -148,34 +351,25 @@ function processClassHeader(tokens: TokenProcessor): ClassHeaderInfo {
  * Extract useful information out of a constructor, starting at the "constructor" name.
  */
 function processConstructor(
+  rootTransformer: RootTransformer,
   tokens: TokenProcessor,
-): {constructorInitializers: Array<string>; constructorInsertPos: number} {
-  const constructorInitializers = [];
-
+  decoratorRanges: Array<TokenRange>,
+): {
+  constructorInitializers: Array<string>;
+  constructorInsertPos: number;
+  constructorParamDecorators: Array<ParamDecorator>;
+} {
   tokens.nextToken();
   const constructorContextId = tokens.currentToken().contextId;
   if (constructorContextId == null) {
     throw new Error("Expected context ID on open-paren starting constructor params.");
   }
-  tokens.nextToken();
-  // Advance through parameters looking for access modifiers.
-  while (!tokens.matchesContextIdAndLabel(tt.parenR, constructorContextId)) {
-    if (isAccessModifier(tokens.currentToken())) {
-      tokens.nextToken();
-      while (isAccessModifier(tokens.currentToken())) {
-        tokens.nextToken();
-      }
-      const token = tokens.currentToken();
-      if (token.type !== tt.name) {
-        throw new Error("Expected identifier after access modifiers in constructor arg.");
-      }
-      const name = tokens.identifierNameForToken(token);
-      constructorInitializers.push(`this.${name} = ${name}`);
-    }
-    tokens.nextToken();
-  }
-  // )
-  tokens.nextToken();
+  const {paramDecorators, parameterPropertyNames} = processParams(
+    rootTransformer,
+    tokens,
+    decoratorRanges,
+  );
+  const constructorInitializers = parameterPropertyNames.map((name) => `this.${name} = ${name}`);
   let constructorInsertPos = tokens.currentIndex();
 
   // Advance through body looking for a super call.
@@ -196,7 +390,95 @@ function processConstructor(
   // }
   tokens.nextToken();
 
-  return {constructorInitializers, constructorInsertPos};
+  return {
+    constructorInitializers,
+    constructorInsertPos,
+    constructorParamDecorators: paramDecorators,
+  };
+}
+
+/**
+ * Advance through a parameter list, starting at the open-paren and ending just after the
+ * close-paren. Along the way, collect any parameter decorators and any parameter properties like
+ * `private x`, which need to be assigned in the constructor.
+ */
+function processParams(
+  rootTransformer: RootTransformer,
+  tokens: TokenProcessor,
+  decoratorRanges: Array<TokenRange>,
+): {
+  paramDecorators: Array<ParamDecorator>;
+  parameterPropertyNames: Array<string>;
+  firstParamTypeRange: TokenRange | null;
+} {
+  const paramDecorators = [];
+  const parameterPropertyNames = [];
+  let firstParamTypeRange = null;
+
+  const paramsContextId = tokens.currentToken().contextId;
+  if (paramsContextId == null) {
+    throw new Error("Expected context ID on open-paren starting params.");
+  }
+  tokens.nextToken();
+  let paramIndex = 0;
+  let depth = 0;
+  while (!tokens.matchesContextIdAndLabel(tt.parenR, paramsContextId)) {
+    const token = tokens.currentToken();
+    if (depth === 0 && token.type === tt.at) {
+      const decoratorStartIndex = tokens.currentIndex();
+      const code = getDecoratorCode(rootTransformer, tokens);
+      paramDecorators.push({paramIndex, code});
+      decoratorRanges.push({start: decoratorStartIndex, end: tokens.currentIndex()});
+      continue;
+    }
+    if (depth === 0 && isParameterPropertyModifier(token)) {
+      while (isParameterPropertyModifier(tokens.currentToken())) {
+        tokens.nextToken();
+      }
+      const nameToken = tokens.currentToken();
+      if (nameToken.type !== tt.name) {
+        throw new Error("Expected identifier after access modifiers in constructor arg.");
+      }
+      parameterPropertyNames.push(tokens.identifierNameForToken(nameToken));
+      continue;
+    }
+    if (depth === 0 && paramIndex === 0 && token.type === tt.colon && token.isType) {
+      firstParamTypeRange = getTypeAnnotationRange(tokens);
+      continue;
+    }
+    if (!token.isType) {
+      if ([tt.parenL, tt.bracketL, tt.braceL, tt.dollarBraceL].includes(token.type)) {
+        depth++;
+      } else if ([tt.parenR, tt.bracketR, tt.braceR].includes(token.type)) {
+        depth--;
+      } else if (depth === 0 && token.type === tt.comma) {
+        paramIndex++;
+      }
+    }
+    tokens.nextToken();
+  }
+  // )
+  tokens.nextToken();
+  return {paramDecorators, parameterPropertyNames, firstParamTypeRange};
+}
+
+/**
+ * Advance past any type tokens, returning the range of the type annotation after the colon, if
+ * there is one.
+ */
+function getTypeAnnotationRange(tokens: TokenProcessor): TokenRange | null {
+  let start = null;
+  while (tokens.currentToken().isType) {
+    if (start === null && tokens.matches1(tt.colon)) {
+      start = tokens.currentIndex() + 1;
+    }
+    tokens.nextToken();
+  }
+  return start === null ? null : {start, end: tokens.currentIndex()};
+}
+
+function isParameterPropertyModifier(token: Token): boolean {
+  return [tt._public, tt._private, tt._protected, tt._readonly].includes(token.type);
 }
 
 /**
@@ -247,3 +529,40 @@ function getNameCode(tokens: TokenProcessor): string {
     }
   }
 }
+
+/**
+ * Get the statement initializing a public field on the given object. Fields are assigned by default,
+ * and are defined with the `_defineProperty` helper if useDefineForClassFields is enabled, in which
+ * case fields without an initializer get the value undefined.
+ */
+function getFieldInitializerCode(
+  rootTransformer: RootTransformer,
+  objectCode: string,
+  nameCode: string,
+  expressionCode: string | null,
+): string {
+  if (!rootTransformer.options.useDefineForClassFields) {
+    return `${objectCode}${nameCode} =${expressionCode}`;
+  }
+  const defineProperty = rootTransformer.getHelperName("defineProperty");
+  return `${defineProperty}(${objectCode}, ${getKeyCode(nameCode)},${expressionCode || " void 0"})`;
+}
+
+function getPrivateMapName(privateNames: Map<string, string> | null, name: string): string {
+  const mapName = privateNames && privateNames.get(name);
+  if (mapName == null) {
+    throw new Error(`Expected WeakMap for private name #${name}.`);
+  }
+  return mapName;
+}
+
+/**
+ * Convert the code from getNameCode into the property key expression, e.g. `.foo` to `"foo"`.
+ */
+function getKeyCode(nameCode: string): string {
+  if (nameCode.startsWith(".")) {
+    return `"${nameCode.slice(1)}"`;
+  } else {
+    return nameCode.slice(1, -1);
+  }
+}
@@ -0,0 +1,27 @@
+import {TokenType as tt} from "../../sucrase-babylon/tokenizer/types";
+import TokenProcessor from "../TokenProcessor";
+import RootTransformer from "../transformers/RootTransformer";
+
+/**
+ * Get the transformed code for the decorator expression starting at the current `@` token, and
+ * advance past the decorator. Like getClassInfo, this appends to the result code as a side effect,
+ * so callers need to restore a snapshot afterward and then remove the decorator tokens.
+ */
+export default function getDecoratorCode(
+  rootTransformer: RootTransformer,
+  tokens: TokenProcessor,
+): string {
+  tokens.nextToken();
+  const resultCodeStart = tokens.getResultCodeIndex();
+  rootTransformer.processToken();
+  while (tokens.matches2(tt.dot, tt.name)) {
+    tokens.copyToken();
+    tokens.copyToken();
+  }
+  if (tokens.matches1(tt.parenL)) {
+    tokens.copyToken();
+    rootTransformer.processBalancedCode();
+    tokens.copyExpectedToken(tt.parenR);
+  }
+  return tokens.getCodeInsertedSinceIndex(resultCodeStart).trim();
+}
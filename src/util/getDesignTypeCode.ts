@@ -0,0 +1,94 @@
+import {TokenType as tt} from "../../sucrase-babylon/tokenizer/types";
+import ImportProcessor from "../ImportProcessor";
+import TokenProcessor from "../TokenProcessor";
+import {TokenRange} from "./getClassInfo";
+
+const PRIMITIVE_TYPE_CODES: Map<string, string> = new Map([
+  ["string", "String"],
+  ["number", "Number"],
+  ["boolean", "Boolean"],
+  ["symbol", "Symbol"],
+  ["bigint", "BigInt"],
+  ["undefined", "void 0"],
+  ["never", "void 0"],
+  ["any", "Object"],
+  ["unknown", "Object"],
+  ["object", "Object"],
+  ["Array", "Array"],
+]);
+
+/**
+ * Get the runtime value for a type annotation to use in `design:type` decorator metadata, using
+ * roughly the same rules as the TypeScript compiler. Since we don't have type information, a type
+ * reference like `Foo` is only used if `Foo` exists at runtime, falling back to Object. In
+ * particular, imports that are only used as types are removed, so they fall back to Object.
+ */
+export default function getDesignTypeCode(
+  tokens: TokenProcessor,
+  typeRange: TokenRange | null,
+  importProcessor: ImportProcessor | null,
+): string {
+  if (typeRange === null || typeRange.start === typeRange.end) {
+    return "Object";
+  }
+  const {start, end} = typeRange;
+  for (let i = start; i < end; i++) {
+    if (tokens.matchesAtIndex(i, [tt.bitwiseOR]) || tokens.matchesAtIndex(i, [tt.bitwiseAND])) {
+      return "Object";
+    }
+  }
+  if (end - start >= 2 && tokens.matchesAtIndex(end - 2, [tt.bracketL, tt.bracketR])) {
+    return "Array";
+  }
+  const firstToken = tokens.tokens[start];
+  switch (firstToken.type) {
+    case tt.parenL:
+    case tt._new:
+      for (let i = start; i < end; i++) {
+        if (tokens.matchesAtIndex(i, [tt.arrow])) {
+          return "Function";
+        }
+      }
+      return "Object";
+    case tt.string:
+    case tt.backQuote:
+      return "String";
+    case tt.num:
+      return "Number";
+    case tt._true:
+    case tt._false:
+      return "Boolean";
+    case tt._void:
+    case tt._null:
+      return "void 0";
+    case tt.name:
+      return getTypeReferenceCode(tokens, typeRange, importProcessor);
+    default:
+      return "Object";
+  }
+}
+
+function getTypeReferenceCode(
+  tokens: TokenProcessor,
+  {start, end}: TokenRange,
+  importProcessor: ImportProcessor | null,
+): string {
+  const name = tokens.identifierNameAtIndex(start);
+  let index = start + 1;
+  let memberAccessCode = "";
+  while (index + 1 < end && tokens.matchesAtIndex(index, [tt.dot, tt.name])) {
+    memberAccessCode += `.${tokens.identifierNameAtIndex(index + 1)}`;
+    index += 2;
+  }
+  // The only thing allowed after the name is a type argument list.
+  if (index < end && !tokens.matchesAtIndex(index, [tt.lessThan])) {
+    return "Object";
+  }
+  const primitiveTypeCode = PRIMITIVE_TYPE_CODES.get(name);
+  if (memberAccessCode === "" && primitiveTypeCode) {
+    return primitiveTypeCode;
+  }
+  const replacement = importProcessor ? importProcessor.getIdentifierReplacement(name) : null;
+  const baseCode = replacement || name;
+  return `typeof ${baseCode} === "undefined" ? Object : ${baseCode}${memberAccessCode}`;
+}
@@ -0,0 +1,82 @@
+import {Options} from "../index";
+
+// Extensions of files that compile to JS, which get replaced by the extension option.
+const SOURCE_EXTENSION_REGEX = /\.(js|jsx|ts|tsx)$/;
+
+/**
+ * Get a function that rewrites the module specifier of an import, export...from, dynamic import, or
+ * `import x = require()` according to the rewriteImportPaths option. Aliases are applied first,
+ * then the extension, and then the custom rewrite function.
+ */
+export default function getImportPathRewriter(options: Options): (path: string) => string {
+  const rewriteOptions = options.rewriteImportPaths;
+  if (!rewriteOptions) {
+    return (path) => path;
+  }
+  const {aliases, extension, rewrite} = rewriteOptions;
+  return (path) => {
+    let result = path;
+    if (aliases) {
+      result = applyAliases(result, aliases);
+    }
+    if (extension !== undefined && isRelativePath(result)) {
+      result = applyExtension(result, extension);
+    }
+    if (rewrite) {
+      result = rewrite(result, options.filePath);
+    }
+    return result;
+  };
+}
+
+/**
+ * Replace the path using the alias pattern with the longest prefix that matches, if any. A `*` in
+ * the pattern matches any string, which is then substituted for the `*` in the replacement.
+ */
+function applyAliases(path: string, aliases: {[pattern: string]: string}): string {
+  let bestPrefixLength = -1;
+  let result = path;
+  for (const pattern of Object.keys(aliases)) {
+    const replacement = aliases[pattern];
+    const starIndex = pattern.indexOf("*");
+    if (starIndex === -1) {
+      if (path === pattern && pattern.length > bestPrefixLength) {
+        bestPrefixLength = pattern.length;
+        result = replacement;
+      }
+      continue;
+    }
+    const prefix = pattern.slice(0, starIndex);
+    const suffix = pattern.slice(starIndex + 1);
+    if (
+      path.length >= prefix.length + suffix.length &&
+      path.startsWith(prefix) &&
+      path.endsWith(suffix) &&
+      prefix.length > bestPrefixLength
+    ) {
+      bestPrefixLength = prefix.length;
+      const matchedText = path.slice(prefix.length, path.length - suffix.length);
+      result = replacement.replace("*", () => matchedText);
+    }
+  }
+  return result;
+}
+
+export function isRelativePath(path: string): boolean {
+  return path === "." || path === ".." || path.startsWith("./") || path.startsWith("../");
+}
+
+/**
+ * Add the extension to a path without one, or replace a JS or TS extension. Paths with other
+ * extensions, like `.json` or `.css`, are left alone.
+ */
+function applyExtension(path: string, extension: string): string {
+  const lastComponent = path.slice(path.lastIndexOf("/") + 1);
+  if (SOURCE_EXTENSION_REGEX.test(lastComponent)) {
+    return path.replace(SOURCE_EXTENSION_REGEX, extension);
+  }
+  if (lastComponent.includes(".") || lastComponent === "") {
+    return path;
+  }
+  return path + extension;
+}
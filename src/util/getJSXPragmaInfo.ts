@@ -0,0 +1,46 @@
+import {Options} from "../index";
+
+export type JSXPragmaInfo = {
+  base: string;
+  suffix: string;
+  fragmentBase: string;
+  fragmentSuffix: string;
+};
+
+const JSX_PRAGMA_REGEX = /@jsx\s+(\S+)/;
+const JSX_FRAGMENT_PRAGMA_REGEX = /@jsxFrag\s+(\S+)/;
+const COMMENT_REGEX = /\/\*[\s\S]*?\*\/|\/\/.*/g;
+
+/**
+ * Determine the function used to create JSX elements and the value used for fragments. A per-file
+ * `@jsx` or `@jsxFrag` comment takes precedence over the jsxPragma and jsxFragmentPragma options.
+ *
+ * Each pragma is split into its first identifier (e.g. `React` in `React.createElement`) and the
+ * rest, since the first identifier may need to be resolved through an import.
+ */
+export default function getJSXPragmaInfo(code: string, options: Options): JSXPragmaInfo {
+  let pragma = options.jsxPragma || "React.createElement";
+  let fragmentPragma = options.jsxFragmentPragma || "React.Fragment";
+  const comments = code.match(COMMENT_REGEX) || [];
+  for (const comment of comments) {
+    const pragmaMatch = JSX_PRAGMA_REGEX.exec(comment);
+    if (pragmaMatch) {
+      pragma = pragmaMatch[1];
+    }
+    const fragmentPragmaMatch = JSX_FRAGMENT_PRAGMA_REGEX.exec(comment);
+    if (fragmentPragmaMatch) {
+      fragmentPragma = fragmentPragmaMatch[1];
+    }
+  }
+  const [base, suffix] = splitPragma(pragma);
+  const [fragmentBase, fragmentSuffix] = splitPragma(fragmentPragma);
+  return {base, suffix, fragmentBase, fragmentSuffix};
+}
+
+function splitPragma(pragma: string): [string, string] {
+  let dotIndex = pragma.indexOf(".");
+  if (dotIndex === -1) {
+    dotIndex = pragma.length;
+  }
+  return [pragma.slice(0, dotIndex), pragma.slice(dotIndex)];
+}
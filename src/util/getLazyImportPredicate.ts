@@ -0,0 +1,20 @@
+import {Options} from "../index";
+import {isRelativePath} from "./getImportPathRewriter";
+
+/**
+ * Get a function that decides whether the import of a given path should be lazy, according to the
+ * lazyImports option. With `lazyImports: true`, all imports other than relative imports are lazy,
+ * since local modules are more likely to have side effects that are expected to run right away.
+ */
+export default function getLazyImportPredicate(options: Options): (path: string) => boolean {
+  const {lazyImports} = options;
+  if (typeof lazyImports === "function") {
+    return lazyImports;
+  } else if (Array.isArray(lazyImports)) {
+    return (path) => lazyImports.includes(path);
+  } else if (lazyImports) {
+    return (path) => !isRelativePath(path);
+  } else {
+    return () => false;
+  }
+}
@@ -0,0 +1,146 @@
+import HelperManager, {HELPERS_MODULE_PATH} from "../HelperManager";
+import ImportProcessor from "../ImportProcessor";
+import {Options} from "../index";
+
+export type ModuleWrapper = {
+  prefix: string;
+  suffix: string;
+};
+
+/**
+ * Get the code to wrap around the output of the imports transform to make it an AMD, UMD, or
+ * SystemJS module. For AMD and UMD, the factory function takes `require`, `exports`, and `module`
+ * (the "simplified CommonJS wrapper" supported by AMD loaders), so the transformed code can keep
+ * using `require` calls for the modules listed as dependencies. For SystemJS, the code runs in the
+ * execute function, and the imports are assigned by the setter functions. If the module exports
+ * function declarations, which need to be exported in the declaration phase, the code instead
+ * runs in a generator that the declaration function starts and the execute function resumes, so
+ * the exports at the start of the generator can refer to the hoisted functions.
+ *
+ * The prefix goes before the "use strict" directive and doesn't contain any newlines, so line
+ * numbers are preserved.
+ */
+export default function getModuleWrapper(
+  importProcessor: ImportProcessor,
+  helperManager: HelperManager,
+  options: Options,
+  hasHoistedFunctionExports: boolean,
+): ModuleWrapper | null {
+  const dependencyPaths = importProcessor.getDependencyPaths();
+  if (helperManager.hasImportedHelpers()) {
+    dependencyPaths.push(HELPERS_MODULE_PATH);
+  }
+  if (options.moduleFormat === "system") {
+    return getSystemModuleWrapper(
+      importProcessor,
+      helperManager,
+      dependencyPaths,
+      hasHoistedFunctionExports,
+    );
+  }
+  // Modules required by generated code are resolved through the factory's `require` parameter, so
+  // they need to be loaded up front like any other dependency.
+  for (const path of importProcessor.getGeneratedRequirePaths()) {
+    if (!dependencyPaths.includes(path)) {
+      dependencyPaths.push(path);
+    }
+  }
+  const dependencyListCode = `[${["require", "exports", "module", ...dependencyPaths]
+    .map((path) => JSON.stringify(path))
+    .join(", ")}]`;
+  const factoryStartCode = "function (require, exports, module) {";
+  if (options.moduleFormat === "amd") {
+    return {
+      prefix: `define(${dependencyListCode}, ${factoryStartCode}`,
+      suffix: "\n});\n",
+    };
+  } else if (options.moduleFormat === "umd") {
+    const globalName = getUMDGlobalName(options);
+    const dependencyGlobalsCode = dependencyPaths
+      .map((path) => `${JSON.stringify(path)}: global.${getDependencyGlobalName(path, options)}`)
+      .join(", ");
+    const globalObjectCode =
+      'typeof globalThis !== "undefined" ? globalThis : typeof self !== "undefined" ? self : this';
+    const prefix = `
+      (function (global, factory) {
+        if (typeof module === "object" && typeof module.exports === "object") {
+          factory(require, exports, module);
+        } else if (typeof define === "function" && define.amd) {
+          define(${dependencyListCode}, factory);
+        } else {
+          var mod = {exports: {}};
+          var globals = {${dependencyGlobalsCode}};
+          factory(function (path) { return globals[path]; }, mod.exports, mod);
+          global.${globalName} = mod.exports;
+        }
+      })(${globalObjectCode}, ${factoryStartCode}`.replace(/\s+/g, " ");
+    return {prefix: prefix.trim(), suffix: "\n});\n"};
+  } else {
+    return null;
+  }
+}
+
+function getSystemModuleWrapper(
+  importProcessor: ImportProcessor,
+  helperManager: HelperManager,
+  dependencyPaths: Array<string>,
+  hasHoistedFunctionExports: boolean,
+): ModuleWrapper {
+  const dependencyListCode = dependencyPaths.map((path) => JSON.stringify(path)).join(", ");
+  const variableNames = [
+    ...importProcessor.getSystemVariableNames(),
+    ...helperManager.getImportedHelperNames(),
+  ];
+  const variablesCode = variableNames.length > 0 ? ` var ${variableNames.join(", ")};` : "";
+  const setterCodes = importProcessor.getSystemSetterCodes();
+  if (helperManager.hasImportedHelpers()) {
+    setterCodes.push(helperManager.getSystemSetterCode());
+  }
+  const settersCode = setterCodes.join(", ");
+  const {systemExportName, systemContextName, systemBodyName} = importProcessor;
+  const declarationStartCode = `System.register([${dependencyListCode}], function (\
+${systemExportName}, ${systemContextName}) {${variablesCode}`;
+  if (hasHoistedFunctionExports) {
+    return {
+      prefix: `${declarationStartCode} var ${systemBodyName} = (function* () {`,
+      suffix: `\n})(); ${systemBodyName}.next(); return {setters: [${settersCode}], \
+execute: function () { ${systemBodyName}.next(); }};\n});\n`,
+    };
+  }
+  return {
+    prefix: `${declarationStartCode} return {setters: [${settersCode}], execute: function () {`,
+    suffix: "\n}};\n});\n",
+  };
+}
+
+function getUMDGlobalName(options: Options): string {
+  if (options.umdGlobalName) {
+    return options.umdGlobalName;
+  }
+  if (!options.filePath) {
+    throw new Error("umdGlobalName or filePath must be specified for UMD output.");
+  }
+  return getGlobalNameForPath(options.filePath);
+}
+
+function getDependencyGlobalName(path: string, options: Options): string {
+  const umdGlobals = options.umdGlobals || {};
+  if (Object.prototype.hasOwnProperty.call(umdGlobals, path)) {
+    return umdGlobals[path];
+  }
+  return getGlobalNameForPath(path);
+}
+
+/**
+ * Come up with a global variable name for a module from its path, like `myModule` for
+ * `./lib/my-module.js`.
+ */
+function getGlobalNameForPath(path: string): string {
+  const components = path.split(/[\\/]/);
+  const baseName = components[components.length - 1].replace(/\.\w+$/, "");
+  const words = baseName.split(/[^a-zA-Z0-9_$]+/).filter((word) => word.length > 0);
+  const name = words
+    .map((word, i) => (i === 0 ? word : word[0].toUpperCase() + word.slice(1)))
+    .join("");
+  return /^[a-zA-Z_$]/.test(name) ? name : `_${name}`;
+}
@@ -0,0 +1,33 @@
+import {IdentifierRole} from "../../sucrase-babylon/tokenizer";
+import {TokenType as tt} from "../../sucrase-babylon/tokenizer/types";
+import TokenProcessor from "../TokenProcessor";
+import {JSXPragmaInfo} from "./getJSXPragmaInfo";
+
+/**
+ * Get all identifier names that are accessed somewhere outside of a type context. Imported names
+ * that don't appear in this set are only used as types, so their imports can be removed.
+ *
+ * JSX implicitly refers to the JSX pragma (React by default), so the pragma and fragment pragma
+ * names count as used whenever there are any JSX tags.
+ */
+export default function getNonTypeIdentifiers(
+  tokens: TokenProcessor,
+  jsxPragmaInfo: JSXPragmaInfo,
+): Set<string> {
+  const nonTypeIdentifiers: Set<string> = new Set();
+  for (const token of tokens.tokens) {
+    if (
+      token.type === tt.name &&
+      !token.isType &&
+      (token.identifierRole === IdentifierRole.Access ||
+        token.identifierRole === IdentifierRole.ObjectShorthand ||
+        token.identifierRole === IdentifierRole.ExportAccess)
+    ) {
+      nonTypeIdentifiers.add(tokens.identifierNameForToken(token));
+    } else if (token.type === tt.jsxTagStart) {
+      nonTypeIdentifiers.add(jsxPragmaInfo.base);
+      nonTypeIdentifiers.add(jsxPragmaInfo.fragmentBase);
+    }
+  }
+  return nonTypeIdentifiers;
+}
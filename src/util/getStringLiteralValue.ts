@@ -0,0 +1,48 @@
+import {Token} from "../../sucrase-babylon/tokenizer";
+import TokenProcessor from "../TokenProcessor";
+
+const SINGLE_CHARACTER_ESCAPES: {[char: string]: string} = {
+  b: "\b",
+  f: "\f",
+  n: "\n",
+  r: "\r",
+  t: "\t",
+  v: "\v",
+};
+
+const ESCAPE_REGEX = /\\(?:x([0-9a-fA-F]{2})|u\{([0-9a-fA-F]+)\}|u([0-9a-fA-F]{4})|([0-3][0-7]{0,2}|[4-7][0-7]?)|(\r\n|[\n\r\u2028\u2029])|([^]))/g;
+
+/**
+ * Get the runtime value of the string literal token, processing any escapes, unlike
+ * TokenProcessor.stringValueForToken, which returns the raw code between the quotes.
+ */
+export default function getStringLiteralValue(tokens: TokenProcessor, token: Token): string {
+  return tokens
+    .stringValueForToken(token)
+    .replace(
+      ESCAPE_REGEX,
+      (
+        match: string,
+        hexCode: string | undefined,
+        bracedCodePoint: string | undefined,
+        unicodeCode: string | undefined,
+        octalCode: string | undefined,
+        lineTerminator: string | undefined,
+        char: string,
+      ) => {
+        if (hexCode !== undefined) {
+          return String.fromCharCode(parseInt(hexCode, 16));
+        } else if (bracedCodePoint !== undefined) {
+          return String.fromCodePoint(parseInt(bracedCodePoint, 16));
+        } else if (unicodeCode !== undefined) {
+          return String.fromCharCode(parseInt(unicodeCode, 16));
+        } else if (octalCode !== undefined) {
+          return String.fromCharCode(parseInt(octalCode, 8));
+        } else if (lineTerminator !== undefined) {
+          // A line continuation doesn't add anything to the string.
+          return "";
+        }
+        return SINGLE_CHARACTER_ESCAPES[char] || char;
+      },
+    );
+}
@@ -0,0 +1,96 @@
+import {IdentifierRole} from "../../sucrase-babylon/tokenizer";
+import {TokenType as tt} from "../../sucrase-babylon/tokenizer/types";
+import TokenProcessor from "../TokenProcessor";
+
+export type VariableDeclarator = {
+  // Token index of the declared name or the start of the destructuring pattern.
+  startIndex: number;
+  // Token index just past the declarator, i.e. the following comma or the end of the declaration.
+  endIndex: number;
+  isPattern: boolean;
+  // Every name declared by the declarator, in source order, and the token index of each.
+  names: Array<string>;
+  nameIndices: Array<number>;
+};
+
+/**
+ * Get the declarators of the `var`, `let`, or `const` declaration whose first declarator starts at
+ * the given index, e.g. `a` and `{b, c: [d]}` in `let a = 1, {b, c: [d]} = o;`.
+ */
+export default function getVariableDeclarators(
+  tokens: TokenProcessor,
+  index: number,
+): Array<VariableDeclarator> {
+  const declarators = [];
+  while (true) {
+    const startIndex = index;
+    const isPattern = !tokens.matchesAtIndex(index, [tt.name]);
+    const names = [];
+    const nameIndices = [];
+    let depth = 0;
+    do {
+      const token = tokens.tokens[index];
+      if (token.type === tt.braceL || token.type === tt.bracketL) {
+        depth++;
+      } else if (token.type === tt.braceR || token.type === tt.bracketR) {
+        depth--;
+      } else if (token.type === tt.eq && depth > 0) {
+        // Skip over the default value, which can contain unrelated declarations, like the
+        // parameters of an arrow function.
+        index = getDefaultValueEndIndex(tokens, index);
+        continue;
+      } else if (
+        token.type === tt.name &&
+        !token.isType &&
+        (token.identifierRole === IdentifierRole.FunctionScopedDeclaration ||
+          token.identifierRole === IdentifierRole.BlockScopedDeclaration)
+      ) {
+        names.push(tokens.identifierNameAtIndex(index));
+        nameIndices.push(index);
+      }
+      index++;
+    } while (depth > 0);
+    while (tokens.tokens[index].isType) {
+      index++;
+    }
+    if (tokens.matchesAtIndex(index, [tt.eq])) {
+      const rhsEndIndex = tokens.tokens[index].rhsEndIndex;
+      if (rhsEndIndex == null) {
+        throw new Error("Expected rhsEndIndex on variable declarator.");
+      }
+      index = rhsEndIndex;
+    }
+    declarators.push({startIndex, endIndex: index, isPattern, names, nameIndices});
+    if (!tokens.matchesAtIndex(index, [tt.comma])) {
+      return declarators;
+    }
+    index++;
+  }
+}
+
+/**
+ * Given the index of the `=` of a default value in a pattern, get the index of the `,`, `}`, or
+ * `]` ending the default value.
+ */
+export function getDefaultValueEndIndex(tokens: TokenProcessor, index: number): number {
+  let depth = 0;
+  while (true) {
+    const tokenType = tokens.tokens[index].type;
+    if (
+      tokenType === tt.braceL ||
+      tokenType === tt.dollarBraceL ||
+      tokenType === tt.bracketL ||
+      tokenType === tt.parenL
+    ) {
+      depth++;
+    } else if (tokenType === tt.braceR || tokenType === tt.bracketR || tokenType === tt.parenR) {
+      if (depth === 0) {
+        return index;
+      }
+      depth--;
+    } else if (tokenType === tt.comma && depth === 0) {
+      return index;
+    }
+    index++;
+  }
+}
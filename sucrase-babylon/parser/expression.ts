@@ -54,7 +54,7 @@ import {
 } from "../tokenizer";
 import {TokenType, TokenType as tt} from "../tokenizer/types";
 import {getNextContextId, hasPlugin, raise, state} from "./base";
-import {parseMaybeDefault, parseRest, parseSpread} from "./lval";
+import {markObjectRestAssignment, parseMaybeDefault, parseRest, parseSpread} from "./lval";
 import {
   parseBlock,
   parseClass,
@@ -123,13 +123,20 @@ export function baseParseMaybeAssign(
     state.potentialArrowAt = state.start;
   }
 
+  const startTokenIndex = state.tokens.length;
   const wasArrow = parseMaybeConditional(noIn);
   if (afterLeftParse) {
     afterLeftParse();
   }
   if (state.type & TokenType.IS_ASSIGN) {
+    const operatorIndex = state.tokens.length;
+    const isPlainAssignment = state.type === tt.eq;
     next();
     parseMaybeAssign(noIn);
+    state.tokens[operatorIndex].rhsEndIndex = state.tokens.length;
+    if (isPlainAssignment) {
+      markObjectRestAssignment(startTokenIndex, operatorIndex);
+    }
     return false;
   }
   return wasArrow;
@@ -166,11 +173,12 @@ export function baseParseConditional(noIn: boolean | null, startPos: number): vo
 // Start the precedence parser.
 // Returns true if this was an arrow function
 function parseExprOps(noIn: boolean | null): boolean {
+  const startTokenIndex = state.tokens.length;
   const wasArrow = parseMaybeUnary();
   if (wasArrow) {
     return true;
   }
-  parseExprOp(-1, noIn);
+  parseExprOp(startTokenIndex, -1, noIn);
   return false;
 }
 
@@ -179,7 +187,8 @@ function parseExprOps(noIn: boolean | null): boolean {
 // `minPrec` provides context that allows the function to stop and
 // defer further parser to one of its callers when it encounters an
 // operator that has a lower precedence than the set it is parsing.
-function parseExprOp(minPrec: number, noIn: boolean | null): void {
+// `startTokenIndex` is the index of the first token of the left-hand side.
+function parseExprOp(startTokenIndex: number, minPrec: number, noIn: boolean | null): void {
   if (
     hasPlugin("typescript") &&
     (tt._in & TokenType.PRECEDENCE_MASK) > minPrec &&
@@ -190,7 +199,7 @@ function parseExprOp(minPrec: number, noIn: boolean | null): void {
     runInTypeContext(1, () => {
       tsParseType();
     });
-    parseExprOp(minPrec, noIn);
+    parseExprOp(startTokenIndex, minPrec, noIn);
     return;
   }
 
@@ -199,15 +208,28 @@ function parseExprOp(minPrec: number, noIn: boolean | null): void {
     if (prec > minPrec) {
       const op = state.type;
       next();
+      if (op === tt.nullishCoalescing) {
+        state.tokens[state.tokens.length - 1].nullishStartIndex = startTokenIndex;
+      }
 
       if (op === tt.pipeline) {
         // Support syntax such as 10 |> x => x + 1
         state.potentialArrowAt = state.start;
       }
 
+      const rhsStartTokenIndex = state.tokens.length;
       parseMaybeUnary();
-      parseExprOp(op & TokenType.IS_RIGHT_ASSOCIATIVE ? prec - 1 : prec, noIn);
-      parseExprOp(minPrec, noIn);
+      parseExprOp(rhsStartTokenIndex, op & TokenType.IS_RIGHT_ASSOCIATIVE ? prec - 1 : prec, noIn);
+      if (op === tt._in && state.tokens[startTokenIndex].type === tt.hash) {
+        // Mark the end of the object in a private brand check, since it gets wrapped in a call.
+        state.tokens[rhsStartTokenIndex - 1].rhsEndIndex = state.tokens.length;
+      }
+      if (op === tt.nullishCoalescing) {
+        state.tokens[startTokenIndex].numNullishCoalesceStarts++;
+        state.tokens[state.tokens.length - 1].numNullishCoalesceEnds++;
+        markAsyncOperationIfNecessary(startTokenIndex);
+      }
+      parseExprOp(startTokenIndex, minPrec, noIn);
     }
   }
 }
@@ -240,57 +262,81 @@ export function parseMaybeUnary(): boolean {
 // Returns true if this was an arrow function.
 export function parseExprSubscripts(): boolean {
   const startPos = state.start;
+  const startTokenIndex = state.tokens.length;
   const wasArrow = parseExprAtom();
   if (wasArrow) {
     return true;
   }
-  parseSubscripts(startPos);
+  parseSubscripts(startPos, startTokenIndex);
+  // If there was an optional chain operation, the first token was marked as the start of the
+  // chain, so mark the last token as the end.
+  if (state.tokens[startTokenIndex].isOptionalChainStart) {
+    state.tokens[state.tokens.length - 1].isOptionalChainEnd = true;
+    markAsyncOperationIfNecessary(startTokenIndex);
+  }
   return false;
 }
 
-function parseSubscripts(startPos: number, noCalls: boolean | null = null): void {
+function parseSubscripts(
+  startPos: number,
+  startTokenIndex: number,
+  noCalls: boolean | null = null,
+): void {
   if (hasPlugin("flow")) {
-    flowParseSubscripts(startPos, noCalls);
+    flowParseSubscripts(startPos, startTokenIndex, noCalls);
   } else {
-    baseParseSubscripts(startPos, noCalls);
+    baseParseSubscripts(startPos, startTokenIndex, noCalls);
   }
 }
 
-export function baseParseSubscripts(startPos: number, noCalls: boolean | null = null): void {
+export function baseParseSubscripts(
+  startPos: number,
+  startTokenIndex: number,
+  noCalls: boolean | null = null,
+): void {
   const stopState = {stop: false};
   do {
-    parseSubscript(startPos, noCalls, stopState);
+    parseSubscript(startPos, startTokenIndex, noCalls, stopState);
   } while (!stopState.stop);
 }
 
 function parseSubscript(
   startPos: number,
+  startTokenIndex: number,
   noCalls: boolean | null,
   stopState: {stop: boolean},
 ): void {
   if (hasPlugin("typescript")) {
-    tsParseSubscript(startPos, noCalls, stopState);
+    tsParseSubscript(startPos, startTokenIndex, noCalls, stopState);
   } else {
-    baseParseSubscript(startPos, noCalls, stopState);
+    baseParseSubscript(startPos, startTokenIndex, noCalls, stopState);
   }
 }
 
-/** Set 'state.stop = true' to indicate that we should stop parsing subscripts. */
+/**
+ * Set 'state.stop = true' to indicate that we should stop parsing subscripts.
+ *
+ * The token for each subscript operator gets the index of the first token of the expression it
+ * applies to, so that optional chains can be transformed.
+ */
 export function baseParseSubscript(
   startPos: number,
+  startTokenIndex: number,
   noCalls: boolean | null,
   stopState: {stop: boolean},
 ): void {
   if (!noCalls && eat(tt.doubleColon)) {
     parseNoCallExpr();
     stopState.stop = true;
-    parseSubscripts(startPos, noCalls);
+    parseSubscripts(startPos, startTokenIndex, noCalls);
   } else if (match(tt.questionDot)) {
     if (noCalls && lookaheadType() === tt.parenL) {
       stopState.stop = true;
       return;
     }
+    state.tokens[startTokenIndex].isOptionalChainStart = true;
     next();
+    state.tokens[state.tokens.length - 1].subscriptStartIndex = startTokenIndex;
 
     if (eat(tt.bracketL)) {
       parseExpression();
@@ -298,11 +344,13 @@ export function baseParseSubscript(
     } else if (eat(tt.parenL)) {
       parseCallExpressionArguments(tt.parenR);
     } else {
-      parseIdentifier();
+      parseMaybePrivateName();
     }
   } else if (eat(tt.dot)) {
+    state.tokens[state.tokens.length - 1].subscriptStartIndex = startTokenIndex;
     parseMaybePrivateName();
   } else if (eat(tt.bracketL)) {
+    state.tokens[state.tokens.length - 1].subscriptStartIndex = startTokenIndex;
     parseExpression();
     expect(tt.bracketR);
   } else if (!noCalls && match(tt.parenL)) {
@@ -310,8 +358,9 @@ export function baseParseSubscript(
     // We see "async", but it's possible it's a usage of the name "async". Parse as if it's a
     // function call, and if we see an arrow later, backtrack and re-parse as a parameter list.
     const snapshotForAsyncArrow = possibleAsync ? state.snapshot() : null;
-    const startTokenIndex = state.tokens.length;
+    const callStartTokenIndex = state.tokens.length;
     next();
+    state.tokens[state.tokens.length - 1].subscriptStartIndex = startTokenIndex;
 
     const callContextId = getNextContextId();
 
@@ -325,7 +374,7 @@ export function baseParseSubscript(
       stopState.stop = true;
 
       parseFunctionParams();
-      parseAsyncArrowFromCallExpression(startPos, startTokenIndex);
+      parseAsyncArrowFromCallExpression(startPos, callStartTokenIndex);
     }
   } else if (match(tt.backQuote)) {
     // Tagged template expression.
@@ -376,8 +425,9 @@ function parseAsyncArrowFromCallExpression(functionStart: number, startTokenInde
 
 function parseNoCallExpr(): void {
   const startPos = state.start;
+  const startTokenIndex = state.tokens.length;
   parseExprAtom();
-  parseSubscripts(startPos, true);
+  parseSubscripts(startPos, startTokenIndex, true);
 }
 
 // Parse an atomic expression — either a single token that is an
@@ -456,6 +506,16 @@ export function parseExprAtom(): boolean {
       return false;
     }
 
+    case tt.hash: {
+      // A private name on the left of `in`, like `#x in obj`.
+      next();
+      parseIdentifier();
+      if (!match(tt._in)) {
+        unexpected();
+      }
+      return false;
+    }
+
     case tt._do: {
       next();
       parseBlock(false);
@@ -671,7 +731,8 @@ function parseTemplate(): void {
 
 // Parse an object literal or binding pattern.
 export function parseObj(isPattern: boolean, isBlockScope: boolean): void {
-  // Attach a context ID to the object open and close brace and each object key.
+  // Attach a context ID to the object open and close brace, each object key, and each spread or
+  // rest element.
   const contextId = getNextContextId();
   let first = true;
 
@@ -691,9 +752,15 @@ export function parseObj(isPattern: boolean, isBlockScope: boolean): void {
 
     let isGenerator = false;
     if (match(tt.ellipsis)) {
-      // Note that this is labeled as an access on the token even though it might be an
-      // assignment.
-      parseSpread();
+      const ellipsisIndex = state.tokens.length;
+      if (isPattern) {
+        parseRest(isBlockScope);
+      } else {
+        // Note that this is labeled as an access on the token even though it might be an
+        // assignment.
+        parseSpread();
+      }
+      state.tokens[ellipsisIndex].contextId = contextId;
       if (isPattern) {
         const position = state.start;
         if (firstRestLocation !== null) {
@@ -728,6 +795,8 @@ export function parseObj(isPattern: boolean, isBlockScope: boolean): void {
       ) {
         // This is a key called "async" rather than an async function.
       } else {
+        // Like in classes, mark the token as an async modifier rather than an identifier.
+        state.tokens[state.tokens.length - 1].type = tt._async;
         if (match(tt.star)) {
           next();
           isGenerator = true;
@@ -901,7 +970,10 @@ export function parseFunctionBody(
   const isExpression = allowExpression && !match(tt.braceL);
 
   if (isExpression) {
+    // Mark the end of the body on the arrow token, in case the body needs to be wrapped.
+    const arrowIndex = state.tokens.length - 1;
     parseMaybeAssign();
+    state.tokens[arrowIndex].rhsEndIndex = state.tokens.length;
   } else {
     parseBlock(true /* allowDirectives */, true /* isFunctionScope */, funcContextId);
   }
@@ -947,7 +1019,40 @@ export function parseIdentifier(): void {
 
 // Parses await expression inside async function.
 function parseAwait(): void {
+  const awaitIndex = state.tokens.length - 1;
   parseMaybeUnary();
+  // Mark the end of the operand, in case the await needs to be wrapped.
+  state.tokens[awaitIndex].rhsEndIndex = state.tokens.length;
+}
+
+/**
+ * Mark the token at startTokenIndex as the start of an async operation if the optional chain or
+ * nullish coalescing expression starting there contains an `await` outside of any nested function.
+ * Those expressions are transformed to use callbacks, which then need to be async.
+ */
+function markAsyncOperationIfNecessary(startTokenIndex: number): void {
+  for (let i = startTokenIndex; i < state.tokens.length; i++) {
+    const token = state.tokens[i];
+    if (
+      token.type === tt.name &&
+      token.contextualKeyword === ContextualKeyword._await &&
+      token.identifierRole === null &&
+      !(
+        i > 0 &&
+        (state.tokens[i - 1].type === tt.dot || state.tokens[i - 1].type === tt.questionDot)
+      ) &&
+      !state.scopes.some(
+        (scope) =>
+          scope.isFunctionScope &&
+          scope.startTokenIndex >= startTokenIndex &&
+          scope.startTokenIndex <= i &&
+          i < scope.endTokenIndex,
+      )
+    ) {
+      state.tokens[startTokenIndex].isAsyncOperation = true;
+      return;
+    }
+  }
 }
 
 // Parses yield expression inside generator.
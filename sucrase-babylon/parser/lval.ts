@@ -8,6 +8,7 @@ import {ContextualKeyword, eat, IdentifierRole, match, next, runInTypeContext} f
 import {TokenType, TokenType as tt} from "../tokenizer/types";
 import {hasPlugin, state} from "./base";
 import {parseIdentifier, parseMaybeAssign, parseObj} from "./expression";
+import {parseDecorators} from "./statement";
 import {expect, unexpected} from "./util";
 
 export function parseSpread(): void {
@@ -20,6 +21,65 @@ export function parseRest(isBlockScope: boolean): void {
   parseBindingAtom(isBlockScope);
 }
 
+/**
+ * Mark the binding starting at the given token index if its pattern has an object rest element,
+ * since those bindings need to be restructured when compiling object rest syntax away.
+ */
+export function markObjectRestBinding(startTokenIndex: number): void {
+  const startTokenType = state.tokens[startTokenIndex].type;
+  if (startTokenType !== tt.braceL && startTokenType !== tt.bracketL) {
+    return;
+  }
+  for (let i = startTokenIndex; i < state.tokens.length - 1; i++) {
+    const role = state.tokens[i + 1].identifierRole;
+    if (
+      state.tokens[i].type === tt.ellipsis &&
+      state.tokens[i].contextId !== null &&
+      (role === IdentifierRole.BlockScopedDeclaration ||
+        role === IdentifierRole.FunctionScopedDeclaration)
+    ) {
+      state.tokens[startTokenIndex].startsObjectRestBinding = true;
+      return;
+    }
+  }
+}
+
+/**
+ * Mark the assignment pattern between the given token indices if it has an object rest element.
+ * Default values in the pattern are skipped, since object spread there doesn't affect the pattern.
+ */
+export function markObjectRestAssignment(startTokenIndex: number, endTokenIndex: number): void {
+  const startTokenType = state.tokens[startTokenIndex].type;
+  if (startTokenType !== tt.braceL && startTokenType !== tt.bracketL) {
+    return;
+  }
+  let defaultValueDepth = null;
+  let depth = 0;
+  for (let i = startTokenIndex; i < endTokenIndex; i++) {
+    const token = state.tokens[i];
+    if (
+      token.type === tt.braceL ||
+      token.type === tt.dollarBraceL ||
+      token.type === tt.bracketL ||
+      token.type === tt.parenL
+    ) {
+      depth++;
+    } else if (token.type === tt.braceR || token.type === tt.bracketR || token.type === tt.parenR) {
+      depth--;
+    }
+    if (defaultValueDepth !== null) {
+      if (depth < defaultValueDepth || (depth === defaultValueDepth && token.type === tt.comma)) {
+        defaultValueDepth = null;
+      }
+    } else if (token.type === tt.eq) {
+      defaultValueDepth = depth;
+    } else if (token.type === tt.ellipsis && token.contextId !== null) {
+      state.tokens[startTokenIndex].startsObjectRestAssignment = true;
+      return;
+    }
+  }
+}
+
 export function parseBindingIdentifier(): void {
   parseIdentifier();
 }
@@ -92,7 +152,13 @@ export function parseBindingList(
       expect(close);
       break;
     } else {
+      // Parameter decorators, e.g. `constructor(@Inject(Foo) foo) {}`.
+      parseDecorators();
+      const itemStartTokenIndex = state.tokens.length;
       parseAssignableListItem(allowModifiers, isBlockScope);
+      if (close === tt.parenR) {
+        markObjectRestBinding(itemStartTokenIndex);
+      }
     }
   }
 }
@@ -56,7 +56,13 @@ import {
   parseParenExpression,
   parsePropertyName,
 } from "./expression";
-import {parseBindingAtom, parseBindingIdentifier, parseBindingList} from "./lval";
+import {
+  markObjectRestAssignment,
+  markObjectRestBinding,
+  parseBindingAtom,
+  parseBindingIdentifier,
+  parseBindingList,
+} from "./lval";
 import {
   canInsertSemicolon,
   eatContextual,
@@ -241,6 +247,7 @@ export function parseDecorators(): void {
 function parseDecorator(): void {
   next();
   parseIdentifier();
+  state.tokens[state.tokens.length - 1].identifierRole = IdentifierRole.Access;
   while (eat(tt.dot)) {
     parseIdentifier();
   }
@@ -285,6 +292,7 @@ function parseForStatement(): void {
 // part (semicolon immediately after the opening parenthesis), it
 // is a regular `for` loop.
 function parseAmbiguousForStatement(): void {
+  const forTokenIndex = state.tokens.length;
   next();
 
   let forAwait = false;
@@ -307,16 +315,18 @@ function parseAmbiguousForStatement(): void {
     next();
     parseVar(true, varKind);
     if (match(tt._in) || isContextual(ContextualKeyword._of)) {
-      parseForIn(forAwait);
+      parseForIn(forAwait, forTokenIndex);
       return;
     }
     parseFor();
     return;
   }
 
+  const initStartTokenIndex = state.tokens.length;
   parseExpression(true);
   if (match(tt._in) || isContextual(ContextualKeyword._of)) {
-    parseForIn(forAwait);
+    markObjectRestAssignment(initStartTokenIndex, state.tokens.length);
+    parseForIn(forAwait, forTokenIndex);
     return;
   }
   if (forAwait) {
@@ -395,6 +405,7 @@ function parseTryStatement(): void {
       catchBindingStartTokenIndex = state.tokens.length;
       expect(tt.parenL);
       parseBindingAtom(true /* isBlockScope */);
+      markObjectRestBinding(catchBindingStartTokenIndex + 1);
       expect(tt.parenR);
     }
     parseBlock();
@@ -496,7 +507,7 @@ function parseFor(): void {
 // Parse a `for`/`in` and `for`/`of` loop, which are almost
 // same from parser's perspective.
 
-function parseForIn(forAwait: boolean): void {
+function parseForIn(forAwait: boolean, forTokenIndex: number): void {
   if (forAwait) {
     eatContextual(ContextualKeyword._of);
   } else {
@@ -505,6 +516,8 @@ function parseForIn(forAwait: boolean): void {
   parseExpression();
   expect(tt.parenR);
   parseStatement(false);
+  // Mark the end of the loop body, in case code needs to be added to each iteration.
+  state.tokens[forTokenIndex].rhsEndIndex = state.tokens.length;
 }
 
 // Parse a list of variable declarations.
@@ -513,15 +526,20 @@ function parseVar(isFor: boolean, kind: TokenType): void {
   while (true) {
     const isBlockScope = kind === tt._const || kind === tt._let;
     parseVarHead(isBlockScope);
-    if (eat(tt.eq)) {
+    if (match(tt.eq)) {
+      const eqIndex = state.tokens.length;
+      next();
       parseMaybeAssign(isFor);
+      state.tokens[eqIndex].rhsEndIndex = state.tokens.length;
     }
     if (!eat(tt.comma)) break;
   }
 }
 
 function parseVarHead(isBlockScope: boolean): void {
+  const startTokenIndex = state.tokens.length;
   parseBindingAtom(isBlockScope);
+  markObjectRestBinding(startTokenIndex);
   if (hasPlugin("typescript")) {
     tsAfterParseVarHead();
   } else if (hasPlugin("flow")) {
@@ -842,6 +860,7 @@ export function parseExport(): void {
       expect(tt.comma);
       expect(tt.star);
       expectContextual(ContextualKeyword._as);
+      state.tokens[state.tokens.length - 1].type = tt._as;
       parseIdentifier();
     } else {
       parseExportSpecifiersMaybe();
@@ -876,7 +895,9 @@ function parseExportDefaultExpression(): void {
   } else if (match(tt._class)) {
     parseClass(true, true);
   } else {
+    const defaultTokenIndex = state.tokens.length - 1;
     parseMaybeAssign();
+    state.tokens[defaultTokenIndex].rhsEndIndex = state.tokens.length;
     semicolon();
   }
 }
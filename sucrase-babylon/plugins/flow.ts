@@ -951,7 +951,11 @@ export function flowParseArrow(): boolean {
   return eat(tt.arrow);
 }
 
-export function flowParseSubscripts(startPos: number, noCalls?: boolean | null): void {
+export function flowParseSubscripts(
+  startPos: number,
+  startTokenIndex: number,
+  noCalls?: boolean | null,
+): void {
   if (
     state.tokens[state.tokens.length - 1].contextualKeyword === ContextualKeyword._async &&
     match(tt.lessThan)
@@ -969,14 +973,14 @@ export function flowParseSubscripts(startPos: number, noCalls?: boolean | null):
 
     state.restoreFromSnapshot(snapshot);
     try {
-      baseParseSubscripts(startPos, noCalls);
+      baseParseSubscripts(startPos, startTokenIndex, noCalls);
       return;
     } catch (e) {
       throw error || e;
     }
   }
 
-  baseParseSubscripts(startPos, noCalls);
+  baseParseSubscripts(startPos, startTokenIndex, noCalls);
 }
 
 // Returns true if there was an arrow function here.
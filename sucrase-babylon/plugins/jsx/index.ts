@@ -6,6 +6,7 @@ import {
   finishToken,
   getTokenFromCode,
   IdentifierRole,
+  JSXRole,
   lookaheadType,
   match,
   next,
@@ -169,14 +170,19 @@ function jsxParseAttribute(): void {
 // Parses JSX opening tag starting after "<".
 // Returns true if the tag was self-closing.
 // Does not parse the last token.
-function jsxParseOpeningElement(): boolean {
+function jsxParseOpeningElement(initialTokenIndex: number): boolean {
   if (match(tt.jsxTagEnd)) {
-    nextJSXExprToken();
     // This is an open-fragment.
     return false;
   }
   jsxParseElementName();
+  let sawPropSpread = false;
   while (!match(tt.slash) && !match(tt.jsxTagEnd)) {
+    if (match(tt.braceL)) {
+      sawPropSpread = true;
+    } else if (sawPropSpread && input.slice(state.start, state.end) === "key") {
+      state.tokens[initialTokenIndex].jsxRole = JSXRole.KeyAfterPropSpread;
+    }
     jsxParseAttribute();
   }
   const isSelfClosing = match(tt.slash);
@@ -190,7 +196,8 @@ function jsxParseOpeningElement(): boolean {
 // Parses JSX closing tag starting after "</".
 // Does not parse the last token.
 function jsxParseClosingElement(): void {
-  if (eat(tt.jsxTagEnd)) {
+  if (match(tt.jsxTagEnd)) {
+    // This is a close-fragment.
     return;
   }
   jsxParseElementName();
@@ -200,7 +207,9 @@ function jsxParseClosingElement(): void {
 // (starting after "<"), attributes, contents and closing tag.
 // Does not parse the last token.
 function jsxParseElementAt(): void {
-  const isSelfClosing = jsxParseOpeningElement();
+  const initialTokenIndex = state.tokens.length - 1;
+  let numChildren = 0;
+  const isSelfClosing = jsxParseOpeningElement(initialTokenIndex);
   if (!isSelfClosing) {
     nextJSXExprToken();
     contents: while (true) {
@@ -212,18 +221,26 @@ function jsxParseElementAt(): void {
             jsxParseClosingElement();
             break contents;
           }
+          numChildren++;
           jsxParseElementAt();
           nextJSXExprToken();
           break;
 
         case tt.jsxText:
+          if (!isEmptyJSXText(input.slice(state.start, state.end))) {
+            numChildren++;
+          }
           nextJSXExprToken();
           break;
 
         case tt.braceL:
           if (lookaheadType() === tt.ellipsis) {
+            numChildren++;
             jsxParseSpreadChild();
           } else {
+            if (lookaheadType() !== tt.braceR) {
+              numChildren++;
+            }
             jsxParseExpressionContainer();
             nextJSXExprToken();
           }
@@ -236,6 +253,21 @@ function jsxParseElementAt(): void {
       }
     }
   }
+  const initialToken = state.tokens[initialTokenIndex];
+  if (initialToken.jsxRole !== JSXRole.KeyAfterPropSpread) {
+    if (numChildren === 0) {
+      initialToken.jsxRole = JSXRole.NoChildren;
+    } else if (numChildren === 1) {
+      initialToken.jsxRole = JSXRole.OneChild;
+    } else {
+      initialToken.jsxRole = JSXRole.StaticChildren;
+    }
+  }
+}
+
+// JSX text consisting only of whitespace is removed if it spans multiple lines.
+function isEmptyJSXText(text: string): boolean {
+  return /^\s*$/.test(text) && text.includes("\n");
 }
 
 // Parses entire JSX element from current position.
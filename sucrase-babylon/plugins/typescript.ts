@@ -678,9 +678,13 @@ function tsParseEnumDeclaration(): void {
 }
 
 function tsParseModuleBlock(): void {
+  const startTokenIndex = state.tokens.length;
   expect(tt.braceL);
   // Inside of a module block is considered "top-level", meaning it can have imports and exports.
   parseBlockBody(/* topLevel */ true, /* end */ tt.braceR);
+  // Namespace bodies are compiled to functions, so they get their own scope.
+  const endTokenIndex = state.tokens.length;
+  state.scopes.push({startTokenIndex, endTokenIndex, isFunctionScope: true});
 }
 
 function tsParseModuleOrNamespaceDeclaration(): void {
@@ -692,6 +696,13 @@ function tsParseModuleOrNamespaceDeclaration(): void {
   }
 }
 
+// Parse a non-ambient namespace, starting after the `namespace` or `module` keyword. Unlike
+// ambient declarations, these produce runtime code, so they aren't parsed in a type context.
+function tsParseRuntimeNamespaceDeclaration(): void {
+  state.tokens[state.tokens.length - 1].type = tt._namespace;
+  tsParseModuleOrNamespaceDeclaration();
+}
+
 function tsParseAmbientExternalModuleDeclaration(): void {
   if (isContextual(ContextualKeyword._global)) {
     parseIdentifier();
@@ -900,19 +911,28 @@ function tsParseDeclaration(contextualKeyword: ContextualKeyword, isBeforeToken:
         });
         return true;
       } else if (next || match(tt.name)) {
-        runInTypeContext(isBeforeToken ? 2 : 1, () => {
-          tsParseModuleOrNamespaceDeclaration();
-        });
+        if (state.isType) {
+          runInTypeContext(isBeforeToken ? 2 : 1, () => {
+            tsParseModuleOrNamespaceDeclaration();
+          });
+        } else {
+          tsParseRuntimeNamespaceDeclaration();
+        }
         return true;
       }
       break;
 
     case ContextualKeyword._namespace:
       if (isBeforeToken || match(tt.name)) {
-        runInTypeContext(1, () => {
+        if (state.isType) {
+          runInTypeContext(1, () => {
+            if (isBeforeToken) next();
+            tsParseModuleOrNamespaceDeclaration();
+          });
+        } else {
           if (isBeforeToken) next();
-          tsParseModuleOrNamespaceDeclaration();
-        });
+          tsParseRuntimeNamespaceDeclaration();
+        }
         return true;
       }
       break;
@@ -1018,6 +1038,7 @@ export function tsParseFunctionBodyAndFinish(
 
 export function tsParseSubscript(
   startPos: number,
+  startTokenIndex: number,
   noCalls: boolean | null,
   stopState: {stop: boolean},
 ): void {
@@ -1039,11 +1060,12 @@ export function tsParseSubscript(
     // May be passing type arguments. But may just be the `<` operator.
     const typeArguments = tsTryParseTypeArgumentsInExpression(); // Also eats the "("
     if (typeArguments) {
+      state.tokens[state.tokens.length - 1].subscriptStartIndex = startTokenIndex;
       // possibleAsync always false here, because we would have handled it above.
       parseCallExpressionArguments(tt.parenR);
     }
   }
-  baseParseSubscript(startPos, noCalls, stopState);
+  baseParseSubscript(startPos, startTokenIndex, noCalls, stopState);
 }
 
 export function tsStartParseNewArguments(): void {
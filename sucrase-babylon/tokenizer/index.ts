@@ -17,6 +17,15 @@ export enum IdentifierRole {
   ObjectKey,
 }
 
+// Extra information about the children of a JSX element, stored on its opening jsxTagStart token.
+export enum JSXRole {
+  NoChildren,
+  OneChild,
+  StaticChildren,
+  // The element has a key prop after a prop spread, so it can't use the automatic runtime.
+  KeyAfterPropSpread,
+}
+
 export const enum ContextualKeyword {
   NONE,
   _abstract,
@@ -70,6 +79,16 @@ export class Token {
     this.contextId = null;
     this.rhsEndIndex = null;
     this.isExpression = null;
+    this.jsxRole = null;
+    this.isOptionalChainStart = false;
+    this.isOptionalChainEnd = false;
+    this.subscriptStartIndex = null;
+    this.nullishStartIndex = null;
+    this.numNullishCoalesceStarts = 0;
+    this.numNullishCoalesceEnds = 0;
+    this.isAsyncOperation = false;
+    this.startsObjectRestBinding = false;
+    this.startsObjectRestAssignment = false;
   }
 
   type: TokenType;
@@ -82,6 +101,30 @@ export class Token {
   contextId: number | null;
   rhsEndIndex: number | null;
   isExpression: boolean | null;
+  jsxRole: JSXRole | null;
+  // True on the first token of an expression with an optional chain, like `a` in `a?.b.c`.
+  isOptionalChainStart: boolean;
+  // True on the last token of an expression with an optional chain, like `c` in `a?.b.c`.
+  isOptionalChainEnd: boolean;
+  // On a subscript operator like `.`, `?.`, `[`, or the `(` of a call, the index of the first token
+  // of the expression being accessed or called.
+  subscriptStartIndex: number | null;
+  // On a `??` token, the index of the first token of its left-hand side.
+  nullishStartIndex: number | null;
+  // The number of nullish coalescing expressions starting or ending at this token. A token can
+  // start or end several of them, like `a` and `c` in `a ?? b ?? c`.
+  numNullishCoalesceStarts: number;
+  numNullishCoalesceEnds: number;
+  // On the start token of an optional chain or nullish coalescing expression, true if the
+  // expression contains an `await`, so its transformed code needs to be async.
+  isAsyncOperation: boolean;
+  // True on the first token of a variable, parameter, or catch clause binding whose pattern has an
+  // object rest element somewhere inside it, like `{` in `const {a, ...b} = c;`.
+  startsObjectRestBinding: boolean;
+  // True on the first token of the pattern of a destructuring assignment or a for-in or for-of
+  // loop head without a declaration if it has an object rest element somewhere inside it, like `{`
+  // in `({a, ...b} = c);`.
+  startsObjectRestAssignment: boolean;
 }
 
 // ## Tokenizer
@@ -119,6 +119,7 @@ export const enum TokenType {
   _enum = 53776, // enum keyword
   _type = 54288, // type keyword
   _implements = 54800, // implements keyword
+  _namespace = 55312, // namespace keyword
 }
 export function formatTokenType(tokenType: TokenType): string {
   switch (tokenType) {
@@ -338,6 +339,8 @@ export function formatTokenType(tokenType: TokenType): string {
       return "type";
     case TokenType._implements:
       return "implements";
+    case TokenType._namespace:
+      return "namespace";
     default:
       return "";
   }
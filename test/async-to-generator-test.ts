@@ -0,0 +1,302 @@
+import * as assert from "assert";
+
+import {transform} from "../src";
+import {
+  ASYNC_ITERATOR_PREFIX,
+  ASYNC_NULLISH_COALESCE_PREFIX,
+  ASYNC_OPTIONAL_CHAIN_PREFIX,
+  ASYNC_TO_GENERATOR_PREFIX,
+  AWAIT_ASYNC_GENERATOR_PREFIX,
+  ESMODULE_PREFIX,
+  IMPORT_PREFIX,
+  OBJECT_WITHOUT_PROPERTIES_PREFIX,
+  WRAP_ASYNC_GENERATOR_PREFIX,
+} from "./prefixes";
+import {assertResult} from "./util";
+
+describe("transform async-to-generator", () => {
+  it("transforms async function declarations and expressions", () => {
+    assertResult(
+      `
+      async function f(a) {
+        const b = await a + 1;
+        return b;
+      }
+      const g = async function() {
+        await f();
+      };
+    `,
+      `${ASYNC_TO_GENERATOR_PREFIX}
+       function f(a) { return _asyncToGenerator(function* () {
+        const b = (yield a) + 1;
+        return b;
+      }).apply(this, arguments); }
+      const g =  function() { return _asyncToGenerator(function* () {
+        (yield f());
+      }).apply(this, arguments); };
+    `,
+      ["async-to-generator"],
+    );
+  });
+
+  it("transforms async arrow functions", () => {
+    assertResult(
+      `
+      const f = async (a) => await a;
+      const g = async a => {
+        await a;
+      };
+    `,
+      `${ASYNC_TO_GENERATOR_PREFIX}
+      const f =  (a) => _asyncToGenerator(function* () { return ( (yield a)); }).call(this);
+      const g =  a => { return _asyncToGenerator(function* () {
+        (yield a);
+      }).call(this); };
+    `,
+      ["async-to-generator"],
+    );
+  });
+
+  it("passes along arguments for async arrow functions that use them", () => {
+    assertResult(
+      `
+      function f() {
+        return async () => arguments[0];
+      }
+    `,
+      `${ASYNC_TO_GENERATOR_PREFIX}
+      function f() {
+        return  () => _asyncToGenerator(function* () { return ( arguments[0]); }).apply(this, arguments);
+      }
+    `,
+      ["async-to-generator"],
+    );
+  });
+
+  it("transforms async class and object methods", () => {
+    assertResult(
+      `
+      class A {
+        async b() {
+          await c;
+        }
+        static async [d]() {}
+      }
+      const e = {
+        async f() {
+          await g;
+        },
+      };
+    `,
+      `${ASYNC_TO_GENERATOR_PREFIX}
+      class A {
+         b() { return _asyncToGenerator(function* () {
+          (yield c);
+        }).apply(this, arguments); }
+        static  [d]() { return _asyncToGenerator(function* () {}).apply(this, arguments); }
+      }
+      const e = {
+         f() { return _asyncToGenerator(function* () {
+          (yield g);
+        }).apply(this, arguments); },
+      };
+    `,
+      ["async-to-generator"],
+    );
+  });
+
+  it("does not transform identifiers named async", () => {
+    assertResult(
+      `
+      async(a);
+      const b = {async, async: 1, async() {}};
+      class C {
+        async() {}
+      }
+    `,
+      `
+      async(a);
+      const b = {async, async: 1, async() {}};
+      class C {
+        async() {}
+      }
+    `,
+      ["async-to-generator"],
+    );
+  });
+
+  it("does not transform top-level await", () => {
+    assertResult(
+      `
+      await a;
+    `,
+      `
+      await a;
+    `,
+      ["async-to-generator"],
+    );
+  });
+
+  it("transforms exported async functions", () => {
+    assertResult(
+      `
+      export async function f() {
+        await a;
+      }
+    `,
+      `"use strict";${ASYNC_TO_GENERATOR_PREFIX}${IMPORT_PREFIX}${ESMODULE_PREFIX} exports.f = f;
+        function f() { return _asyncToGenerator(function* () {
+        (yield a);
+      }).apply(this, arguments); }
+    `,
+      ["async-to-generator", "imports"],
+    );
+  });
+
+  it("removes types from async functions", () => {
+    assertResult(
+      `
+      const f = async <T>(a: T): Promise<T> => a;
+      class B {
+        async c(): Promise<void> {}
+      }
+    `,
+      `${ASYNC_TO_GENERATOR_PREFIX}
+      const f =  (a) => _asyncToGenerator(function* () { return ( a); }).call(this);
+      class B {
+         c() { return _asyncToGenerator(function* () {}).apply(this, arguments); }
+      }
+    `,
+      ["async-to-generator", "typescript"],
+    );
+  });
+
+  it("declares object rest parameters before the generator function", () => {
+    assertResult(
+      `
+      async function f({a, ...b}) {
+        await b;
+      }
+    `,
+      `${ASYNC_TO_GENERATOR_PREFIX}${OBJECT_WITHOUT_PROPERTIES_PREFIX}
+       function f(_ref) { let {a,} = _ref, b = _objectWithoutProperties(_ref, ["a"]); return _asyncToGenerator(function* () {
+        (yield b);
+      }).apply(this, arguments); }
+    `,
+      ["async-to-generator", "object-rest-spread"],
+    );
+  });
+
+  it("transforms super property accesses within async methods", () => {
+    assertResult(
+      `
+      class A extends B {
+        async f() {
+          await super.f(1);
+          super.x = await super.y;
+        }
+      }
+    `,
+      `${ASYNC_TO_GENERATOR_PREFIX}
+      class A extends B {
+         f() { const _superPropGet = (_prop) => super[_prop]; const _superPropSet = (_prop, _value) => super[_prop] = _value; return _asyncToGenerator(function* () {
+          (yield _superPropGet("f").call(this, 1));
+          _superPropSet("x", (yield _superPropGet("y")));
+        }).apply(this, arguments); }
+      }
+    `,
+      ["async-to-generator"],
+    );
+  });
+
+  it("transforms async generator functions and for await loops", () => {
+    assertResult(
+      `
+      async function* f() {
+        yield await a;
+        for await (const x of b) {
+          yield x;
+        }
+      }
+    `,
+      `${WRAP_ASYNC_GENERATOR_PREFIX}${AWAIT_ASYNC_GENERATOR_PREFIX}${ASYNC_ITERATOR_PREFIX}
+       function f() { return _wrapAsyncGenerator(function* () {
+        yield (yield _awaitAsyncGenerator( a));
+        { let _iterator = _asyncIterator( b), _step, _iteratorAbruptCompletion = false; try { for (; _iteratorAbruptCompletion = !(_step = (yield _awaitAsyncGenerator(_iterator.next()))).done; _iteratorAbruptCompletion = false) { const x = _step.value; {
+          yield x;
+        } } } finally { if (_iteratorAbruptCompletion && _iterator.return != null) (yield _awaitAsyncGenerator(_iterator.return())); } }
+      }).apply(this, arguments); }
+    `,
+      ["async-to-generator"],
+    );
+  });
+
+  it("keeps labels on for await loops", () => {
+    assertResult(
+      `
+      async function f() {
+        outer: for await (x of a) {
+          continue outer;
+        }
+      }
+    `,
+      `${ASYNC_TO_GENERATOR_PREFIX}${ASYNC_ITERATOR_PREFIX}
+       function f() { return _asyncToGenerator(function* () {
+         { let _iterator = _asyncIterator( a), _step, _iteratorAbruptCompletion = false; try { outer: for (; _iteratorAbruptCompletion = !(_step = (yield _iterator.next())).done; _iteratorAbruptCompletion = false) { (x = _step.value); {
+          continue outer;
+        } } } finally { if (_iteratorAbruptCompletion && _iterator.return != null) (yield _iterator.return()); } }
+      }).apply(this, arguments); }
+    `,
+      ["async-to-generator"],
+    );
+  });
+
+  it("transforms await within optional chains and nullish coalescing", () => {
+    assertResult(
+      `
+      async function f() {
+        return a?.[await b] ?? await c;
+      }
+    `,
+      `${ASYNC_OPTIONAL_CHAIN_PREFIX}${ASYNC_NULLISH_COALESCE_PREFIX}${ASYNC_TO_GENERATOR_PREFIX}
+       function f() { return _asyncToGenerator(function* () {
+        return (yield _asyncNullishCoalesce((yield _asyncOptionalChain([a, 'optionalAccess', _ => _asyncToGenerator(function* () { return _[(yield b)]; }).apply(this, arguments)])), () => _asyncToGenerator(function* () { return ( (yield c)); }).apply(this, arguments)));
+      }).apply(this, arguments); }
+    `,
+      ["async-to-generator", "optional-chaining"],
+    );
+  });
+
+  it("does not allow yield* within async generator functions", () => {
+    assert.throws(
+      () => transform("async function* f() { yield* a; }", {transforms: ["async-to-generator"]}),
+      /yield\* is not supported within async generator functions/,
+    );
+  });
+
+  it("does not allow compound assignments to super properties within async methods", () => {
+    assert.throws(
+      () =>
+        transform("class A extends B { async c() { super.x += await d; } }", {
+          transforms: ["async-to-generator"],
+        }),
+      /Compound assignments and updates to properties of super are not supported/,
+    );
+  });
+
+  it("does not transform async functions without the transform", () => {
+    assertResult(
+      `
+      async function f() {
+        await a;
+      }
+    `,
+      `
+      async function f() {
+        await a;
+      }
+    `,
+      [],
+    );
+  });
+});
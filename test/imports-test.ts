@@ -1,4 +1,15 @@
-import {ESMODULE_PREFIX, IMPORT_PREFIX, JSX_PREFIX} from "./prefixes";
+import * as assert from "assert";
+
+import {transform} from "../src";
+import {
+  ESMODULE_PREFIX,
+  IMPORT_DEFAULT_PREFIX,
+  IMPORT_META_URL_PREFIX,
+  IMPORT_PREFIX,
+  IMPORT_STAR_PREFIX,
+  JSX_PREFIX,
+  NODE_INTEROP_PREFIX,
+} from "./prefixes";
 import {assertResult, devProps} from "./util";
 
 describe("transform imports", () => {
@@ -20,10 +31,10 @@ describe("transform imports", () => {
         console.log('Hello');
       }
     `,
-      `"use strict";${IMPORT_PREFIX}${ESMODULE_PREFIX}
+      `"use strict";${IMPORT_PREFIX}${ESMODULE_PREFIX} exports.default = foo;
        function foo() {
         console.log('Hello');
-      } exports.default = foo;
+      }
     `,
     );
   });
@@ -87,10 +98,29 @@ describe("transform imports", () => {
         return x + 1;
       }
     `,
-      `"use strict";${IMPORT_PREFIX}${ESMODULE_PREFIX}
+      `"use strict";${IMPORT_PREFIX}${ESMODULE_PREFIX} exports.foo = foo;
        function foo(x) {
         return x + 1;
-      } exports.foo = foo;
+      }
+    `,
+    );
+  });
+
+  it("exports function declarations before requiring other modules", () => {
+    assertResult(
+      `
+      import {b} from './b';
+      export function a() {
+        return b();
+      }
+      export default function c() {}
+    `,
+      `"use strict";${IMPORT_PREFIX}${ESMODULE_PREFIX} exports.a = a; exports.default = c;
+      var _b = require('./b');
+       function a() {
+        return (0, _b.b)();
+      }
+       function c() {}
     `,
     );
   });
@@ -102,10 +132,10 @@ describe("transform imports", () => {
         return x + 1;
       }
     `,
-      `"use strict";${IMPORT_PREFIX}${ESMODULE_PREFIX}
+      `"use strict";${IMPORT_PREFIX}${ESMODULE_PREFIX} exports.foo = foo;
        async function foo(x) {
         return x + 1;
-      } exports.foo = foo;
+      }
     `,
     );
   });
@@ -540,7 +570,25 @@ var _moduleName = require('moduleName');
       var _react = require('react'); var _react2 = _interopRequireDefault(_react);
       var _Foo = require('./Foo'); var _Foo2 = _interopRequireDefault(_Foo);
       
-      const elem = _react2.default.createElement(_Foo2.default, {${devProps(5)}} );
+      const elem = _react2.default.createElement(_Foo2.default, {${devProps(5, 20)}} );
+    `,
+    );
+  });
+
+  it("resolves React through imports in JSX fragments", () => {
+    assertResult(
+      `
+      import React from 'react';
+      
+      const e = <><div /></>;
+    `,
+      `"use strict";${JSX_PREFIX}${IMPORT_PREFIX}
+      var _react = require('react'); var _react2 = _interopRequireDefault(_react);
+      
+      const e = _react2.default.createElement(_react2.default.Fragment, null, _react2.default.createElement('div', {${devProps(
+        4,
+        19,
+      )}} ));
     `,
     );
   });
@@ -557,7 +605,7 @@ var _moduleName = require('moduleName');
       var _react = require('react'); var _react2 = _interopRequireDefault(_react);
       var _value = require('./value'); var _value2 = _interopRequireDefault(_value);
       
-      _react2.default.createElement('div', { a: _value2.default, ${devProps(5)}} );
+      _react2.default.createElement('div', { a: _value2.default, ${devProps(5, 7)}} );
     `,
     );
   });
@@ -582,9 +630,9 @@ var _moduleName = require('moduleName');
       var _value = require('./value'); var _value2 = _interopRequireDefault(_value);
       
       const elem = (
-        _react2.default.createElement('div', {${devProps(6)}}
-          , _react2.default.createElement('span', {${devProps(7)}}
-            , _react2.default.createElement('span', {${devProps(8)}} )
+        _react2.default.createElement('div', {${devProps(6, 9)}}
+          , _react2.default.createElement('span', {${devProps(7, 11)}}
+            , _react2.default.createElement('span', {${devProps(8, 13)}} )
             , _value2.default
           )
         )
@@ -779,6 +827,177 @@ module.exports = exports.default;
     );
   });
 
+  it("updates exported bindings for compound assignments", () => {
+    assertResult(
+      `
+      let foo = 3;
+      export {foo as bar};
+      foo += 4;
+      foo **= 2;
+    `,
+      `"use strict";${IMPORT_PREFIX}${ESMODULE_PREFIX}
+      let foo = 3;
+      exports.bar = foo;
+      exports.bar = foo += 4;
+      exports.bar = foo **= 2;
+    `,
+    );
+  });
+
+  it("updates exported bindings for prefix and postfix updates", () => {
+    assertResult(
+      `
+      let foo = 3;
+      export {foo as bar};
+      ++foo;
+      x = foo-- * 2;
+      obj.foo++;
+    `,
+      `"use strict";${IMPORT_PREFIX}${ESMODULE_PREFIX} var _foo;
+      let foo = 3;
+      exports.bar = foo;
+      (exports.bar = ++foo);
+      x = (_foo = foo--, exports.bar = foo, _foo) * 2;
+      obj.foo++;
+    `,
+    );
+  });
+
+  it("updates aliases of exported declarations for compound assignments and updates", () => {
+    assertResult(
+      `
+      export let c = 1;
+      c++;
+      c += 2;
+      [c] = [3];
+      export {c as d};
+    `,
+      `"use strict";${IMPORT_PREFIX}${ESMODULE_PREFIX} var _c; var _temp;
+       exports.c = 1;
+      (_c = exports.c++, exports.d = exports.c, _c);
+      exports.d = exports.c += 2;
+      (_temp = [exports.c] = [3], exports.d = exports.c, _temp);
+      exports.d = exports.c;
+    `,
+    );
+  });
+
+  it("updates every name that a binding is exported as", () => {
+    assertResult(
+      `
+      let x = 1;
+      x++;
+      x += 1;
+      export {x as y, x as z};
+    `,
+      `"use strict";${IMPORT_PREFIX}${ESMODULE_PREFIX} var _x;
+      let x = 1;
+      (_x = x++, exports.y = exports.z = x, _x);
+      exports.y = exports.z = x += 1;
+      exports.y = x; exports.z = x;
+    `,
+    );
+  });
+
+  it("adds a semicolon before an exported binding update that starts a line", () => {
+    assertResult(
+      `
+      let foo = 3;
+      export {foo};
+      bar
+      ++foo
+    `,
+      `"use strict";${IMPORT_PREFIX}${ESMODULE_PREFIX}
+      let foo = 3;
+      exports.foo = foo;
+      bar
+      ;(exports.foo = ++foo)
+    `,
+    );
+  });
+
+  it("does not update exports for shadowed exported bindings", () => {
+    assertResult(
+      `
+      let foo = 3;
+      export {foo};
+      function f(foo) {
+        foo++;
+        foo += 1;
+      }
+    `,
+      `"use strict";${IMPORT_PREFIX}${ESMODULE_PREFIX}
+      let foo = 3;
+      exports.foo = foo;
+      function f(foo) {
+        foo++;
+        foo += 1;
+      }
+    `,
+    );
+  });
+
+  it("updates exported bindings for destructuring assignments", () => {
+    assertResult(
+      `
+      let a, b;
+      export {a, b as c};
+      [a, b] = [b, a];
+      ({a, b: b = 3} = obj);
+      [x] = y;
+    `,
+      `"use strict";${IMPORT_PREFIX}${ESMODULE_PREFIX} var _temp; var _temp2;
+      let a, b;
+      exports.a = a; exports.c = b;
+      (_temp = [a, b] = [b, a], exports.a = a, exports.c = b, _temp);
+      ((_temp2 = {a, b: b = 3} = obj, exports.a = a, exports.c = b, _temp2));
+      [x] = y;
+    `,
+    );
+  });
+
+  it("updates each exported binding once for destructuring assignments with computed keys", () => {
+    assertResult(
+      `
+      let b;
+      export {b};
+      ({[b]: b} = obj);
+    `,
+      `"use strict";${IMPORT_PREFIX}${ESMODULE_PREFIX} var _temp;
+      let b;
+      exports.b = b;
+      ((_temp = {[b]: b} = obj, exports.b = b, _temp));
+    `,
+    );
+  });
+
+  it("updates exported bindings assigned in for-of and for-in loop heads", () => {
+    assertResult(
+      `
+      let a, b;
+      export {a, b};
+      for (a of xs) f(a);
+      for (a in obj) {
+        f(a);
+      }
+      for ([a, b] of pairs)
+        f(a, b)
+      for (const c of xs) {}
+    `,
+      `"use strict";${IMPORT_PREFIX}${ESMODULE_PREFIX}
+      let a, b;
+      exports.a = a; exports.b = b;
+      for (a of xs) { exports.a = a; f(a); }
+      for (a in obj) { exports.a = a;
+        f(a);
+      }
+      for ([a, b] of pairs) { exports.a = a; exports.b = b;
+        f(a, b) }
+      for (const c of xs) {}
+    `,
+    );
+  });
+
   it("handles a top-level block with an imported value in it", () => {
     assertResult(
       `
@@ -892,7 +1111,7 @@ module.exports = exports.default;
       var _react = require('react'); var _react2 = _interopRequireDefault(_react);
       var _row = require('row'); var _row2 = _interopRequireDefault(_row);
       
-      const e = _react2.default.createElement(foo.Row, {${devProps(5)}} );
+      const e = _react2.default.createElement(foo.Row, {${devProps(5, 17)}} );
     `,
     );
   });
@@ -903,11 +1122,68 @@ module.exports = exports.default;
       export * as a from 'a';
     `,
       `"use strict";${IMPORT_PREFIX}${ESMODULE_PREFIX}
-      var _a = require('a'); var _a2 = _interopRequireWildcard(_a); exports.a = _a2;
+      var _a = require('a'); var _a2 = _interopRequireWildcard(_a); \
+Object.defineProperty(exports, 'a', {enumerable: true, get: () => _a2});
+    `,
+    );
+  });
+
+  it("handles export default from", () => {
+    assertResult(
+      `
+      export v from 'a';
+      export default from 'b';
+    `,
+      `"use strict";${IMPORT_PREFIX}${ESMODULE_PREFIX}
+      var _a = require('a'); var _a2 = _interopRequireDefault(_a); \
+Object.defineProperty(exports, 'v', {enumerable: true, get: () => _a2.default});
+      var _b = require('b'); var _b2 = _interopRequireDefault(_b); \
+Object.defineProperty(exports, 'default', {enumerable: true, get: () => _b2.default});
     `,
     );
   });
 
+  it("handles export default from combined with other export specifiers", () => {
+    assertResult(
+      `
+      export v, * as ns from 'a';
+      export w, {x, y as z} from 'b';
+      export * as ns2, {q} from 'c';
+    `,
+      `"use strict";${ESMODULE_PREFIX}
+      var _a = require('a'); \
+Object.defineProperty(exports, 'v', {enumerable: true, get: () => _a.default}); \
+Object.defineProperty(exports, 'ns', {enumerable: true, get: () => _a});
+      var _b = require('b'); \
+Object.defineProperty(exports, 'x', {enumerable: true, get: () => _b.x}); \
+Object.defineProperty(exports, 'z', {enumerable: true, get: () => _b.y}); \
+Object.defineProperty(exports, 'w', {enumerable: true, get: () => _b.default});
+      var _c = require('c'); \
+Object.defineProperty(exports, 'q', {enumerable: true, get: () => _c.q}); \
+Object.defineProperty(exports, 'ns2', {enumerable: true, get: () => _c});
+    `,
+      ["imports"],
+      {importInterop: "typescript"},
+    );
+  });
+
+  it("handles export default from and export namespace in SystemJS modules", () => {
+    assertResult(
+      `
+      export v, * as ns from 'a';
+    `,
+      `System.register(["a"], function (_export, _context) { return {setters: [\
+function (_m) { _export("v", _m.default); _export("ns", _m); }], execute: function () {"use strict";
+      
+    
+}};
+});
+`,
+      ["imports"],
+      {moduleFormat: "system"},
+    );
+  });
+
   it("handles dynamic imports", () => {
     assertResult(
       `
@@ -923,6 +1199,54 @@ module.exports = exports.default;
     );
   });
 
+  it("transforms import.meta properties to CommonJS equivalents", () => {
+    assertResult(
+      `
+      const url = import.meta.url;
+      const dir = import.meta.dirname;
+      const file = import.meta.filename;
+      const meta = import.meta;
+    `,
+      `"use strict";${IMPORT_PREFIX}${IMPORT_META_URL_PREFIX}
+      const url = _importMetaUrl(module);
+      const dir = __dirname;
+      const file = __filename;
+      const meta = ({url: _importMetaUrl(module), filename: __filename, dirname: __dirname});
+    `,
+    );
+  });
+
+  it("uses the importMetaObject option for other import.meta properties", () => {
+    assertResult(
+      `
+      const url = import.meta.url;
+      const env = import.meta.env;
+    `,
+      `"use strict";${IMPORT_PREFIX}${IMPORT_META_URL_PREFIX}
+      const url = _importMetaUrl(module);
+      const env = globalThis.importMeta.env;
+    `,
+      ["imports"],
+      {importMetaObject: "globalThis.importMeta"},
+    );
+  });
+
+  it("uses the context meta object for import.meta in SystemJS modules", () => {
+    assertResult(
+      `
+      const url = import.meta.url;
+    `,
+      `System.register([], function (_export, _context) { return {setters: [], execute: function () {"use strict";
+      const url = _context.meta.url;
+    
+}};
+});
+`,
+      ["imports"],
+      {moduleFormat: "system"},
+    );
+  });
+
   it("properly handles object destructuring with imported names", () => {
     assertResult(
       `
@@ -979,4 +1303,584 @@ module.exports = exports.default;
     `,
     );
   });
+
+  it("rewrites import paths using aliases and an extension", () => {
+    assertResult(
+      `
+      import a from '@app/models/user';
+      import {b} from './b';
+      export * as c from './c.ts';
+      import './styles.css';
+      const d = import('./d');
+      console.log(a, b);
+    `,
+      `"use strict";${IMPORT_PREFIX}${ESMODULE_PREFIX}
+      var _user = require("./models/user.js"); var _user2 = _interopRequireDefault(_user);
+      var _b = require("./b.js");
+      var _cts = require("./c.js"); var _cts2 = _interopRequireWildcard(_cts); \
+Object.defineProperty(exports, 'c', {enumerable: true, get: () => _cts2});
+      require('./styles.css');
+      const d = Promise.resolve().then(() => require("./d.js"));
+      console.log(_user2.default, _b.b);
+    `,
+      ["imports"],
+      {
+        rewriteImportPaths: {
+          aliases: {"@app/*": "./app/*", "@app/models/*": "./models/*"},
+          extension: ".js",
+        },
+      },
+    );
+  });
+
+  it("hoists imports into the prefix with hoistImports", () => {
+    assertResult(
+      `
+      console.log('before');
+      import a from 'a';
+      export * as c from 'c';
+      foo();
+      import {b} from 'b';
+      console.log(a, b);
+    `,
+      `"use strict";${IMPORT_PREFIX}${ESMODULE_PREFIX} \
+var _a = require('a'); var _a2 = _interopRequireDefault(_a); \
+var _c = require('c'); var _c2 = _interopRequireWildcard(_c); \
+Object.defineProperty(exports, 'c', {enumerable: true, get: () => _c2}); \
+var _b = require('b');
+      console.log('before');
+      
+      
+      foo();
+      
+      console.log(_a2.default, _b.b);
+    `,
+      ["imports"],
+      {hoistImports: true},
+    );
+  });
+
+  it("hoists imports after the shebang and use strict with hoistImports", () => {
+    assertResult(
+      `#!/usr/bin/env node
+foo();
+import {a} from 'a';
+a();
+`,
+      `#!/usr/bin/env node
+"use strict";${IMPORT_PREFIX} var _a = require('a');foo();
+
+(0, _a.a)();
+`,
+      ["imports"],
+      {hoistImports: true},
+    );
+  });
+
+  it("compiles imports to lazy accessors with lazyImports", () => {
+    assertResult(
+      `
+      import a, {b} from 'a';
+      import * as c from 'c';
+      import d from './d';
+      console.log(a, b(), c.x);
+    `,
+      `"use strict";${IMPORT_PREFIX}
+      function _a() { const data = require('a'); _a = function () { return data; }; return data; } \
+function _a2() { const data = _interopRequireDefault(_a()); _a2 = function () { return data; }; return data; }
+      function _c() { const data = require('c'); _c = function () { return data; }; return data; } \
+function _c2() { const data = _interopRequireWildcard(_c()); _c2 = function () { return data; }; return data; }
+      var _d = require('./d'); var _d2 = _interopRequireDefault(_d);
+      console.log(_a2().default, (0, _a().b)(), _c2().x);
+    `,
+      ["imports"],
+      {lazyImports: true},
+    );
+  });
+
+  it("exports lazy imports with getters so they stay lazy", () => {
+    assertResult(
+      `
+      import a, {b} from 'a';
+      import * as c from 'c';
+      export {a, b as d, c};
+    `,
+      `"use strict";${IMPORT_PREFIX}${ESMODULE_PREFIX}
+      function _a() { const data = require('a'); _a = function () { return data; }; return data; } \
+function _a2() { const data = _interopRequireDefault(_a()); _a2 = function () { return data; }; return data; }
+      function _c() { const data = require('c'); _c = function () { return data; }; return data; } \
+function _c2() { const data = _interopRequireWildcard(_c()); _c2 = function () { return data; }; return data; }
+      Object.defineProperty(exports, 'a', {enumerable: true, get: () => _a2().default}); \
+Object.defineProperty(exports, 'd', {enumerable: true, get: () => _a().b}); \
+Object.defineProperty(exports, 'c', {enumerable: true, get: () => _c2()});
+    `,
+      ["imports"],
+      {lazyImports: true},
+    );
+  });
+
+  it("only makes the allowed imports lazy with lazyImports", () => {
+    assertResult(
+      `
+      import {a} from 'a';
+      import {b} from 'b';
+      import 'c';
+      export {c} from 'c';
+      console.log(a, b);
+    `,
+      `"use strict";${ESMODULE_PREFIX}
+      var _a = require('a');
+      function _b() { const data = require('b'); _b = function () { return data; }; return data; }
+      var _c = require('c'); \
+Object.defineProperty(exports, 'c', {enumerable: true, get: () => _c.c});
+      
+      console.log(_a.a, _b().b);
+    `,
+      ["imports", "typescript"],
+      {lazyImports: (path) => path !== "a"},
+    );
+  });
+
+  it("uses no interop with typescript importInterop", () => {
+    assertResult(
+      `
+      import a, {b} from 'a';
+      import * as c from 'c';
+      console.log(a, b, c);
+    `,
+      `"use strict";
+      var _a = require('a');
+      var _c = require('c'); var c = _c;
+      console.log(_a.default, _a.b, c);
+    `,
+      ["imports"],
+      {importInterop: "typescript"},
+    );
+  });
+
+  it("uses __importDefault and __importStar with esModuleInterop importInterop", () => {
+    assertResult(
+      `
+      import a, {b} from 'a';
+      import * as c from 'c';
+      export * as d from 'd';
+      console.log(a, b, c);
+    `,
+      `"use strict";${IMPORT_STAR_PREFIX}${IMPORT_DEFAULT_PREFIX}${ESMODULE_PREFIX}
+      var _a = require('a'); var _a2 = __importDefault(_a);
+      var _c = require('c'); var c = __importStar(_c);
+      var _d = require('d'); var _d2 = __importStar(_d); \
+Object.defineProperty(exports, 'd', {enumerable: true, get: () => _d2});
+      console.log(_a2.default, _a.b, c);
+    `,
+      ["imports", "typescript"],
+      {importInterop: "esModuleInterop"},
+    );
+  });
+
+  it("uses module.exports as the default import with node importInterop", () => {
+    assertResult(
+      `
+      import a, {b, default as c} from 'a';
+      import * as d from 'd';
+      export {default as e} from 'e';
+      console.log(a, b, c, d);
+    `,
+      `"use strict";${NODE_INTEROP_PREFIX}${ESMODULE_PREFIX}
+      var _a = require('a');
+      var _d = require('d'); var d = _nodeInteropRequireWildcard(_d);
+      var _e = require('e'); Object.defineProperty(exports, 'e', {enumerable: true, get: () => _e});
+      console.log(_a, _a.b, _a, d);
+    `,
+      ["imports"],
+      {importInterop: "node"},
+    );
+  });
+
+  it("imports helpers from the runtime module with importHelpers", () => {
+    assertResult(
+      `
+      import a from 'a';
+      import * as b from 'b';
+      import {c} from 'c';
+      console.log(a, b, c);
+    `,
+      `"use strict"; var _interopRequireWildcard = require("sucrase/helpers").interopRequireWildcard; \
+var _interopRequireDefault = require("sucrase/helpers").interopRequireDefault;
+      var _a = require('a'); var _a2 = _interopRequireDefault(_a);
+      var _b = require('b'); var b = _interopRequireWildcard(_b);
+      var _c = require('c');
+      console.log(_a2.default, b, _c.c);
+    `,
+      ["imports"],
+      {importHelpers: true},
+    );
+  });
+
+  it("only imports the helpers that are used with importHelpers", () => {
+    assertResult(
+      `
+      import {a} from 'a';
+      export const b = a;
+    `,
+      `"use strict";${ESMODULE_PREFIX}
+      var _a = require('a');
+       exports.b = _a.a;
+    `,
+      ["imports"],
+      {importHelpers: true},
+    );
+  });
+
+  it("lists the runtime helpers module as an AMD dependency with importHelpers", () => {
+    assertResult(
+      `
+      import a from 'a';
+    `,
+      `define(["require", "exports", "module", "a", "sucrase/helpers"], \
+function (require, exports, module) {"use strict"; \
+var _interopRequireDefault = require("sucrase/helpers").interopRequireDefault;
+      var _a = require('a'); var _a2 = _interopRequireDefault(_a);
+    
+});
+`,
+      ["imports"],
+      {importHelpers: true, moduleFormat: "amd"},
+    );
+  });
+
+  it("rewrites import paths with a custom function", () => {
+    assertResult(
+      `
+      import a from 'a';
+      import b = require('b');
+      console.log(a, b);
+    `,
+      `"use strict";
+      var _a = require("/vendor/a");
+      const b = require("/vendor/b");
+      console.log(_a.default, b);
+    `,
+      ["imports", "typescript"],
+      {
+        filePath: "src/index.ts",
+        rewriteImportPaths: {
+          rewrite: (specifier, filePath) =>
+            filePath === "src/index.ts" ? `/vendor/${specifier}` : specifier,
+        },
+      },
+    );
+  });
+
+  it("escapes rewritten import paths", () => {
+    assertResult(
+      `
+      import './a';
+      export {b} from './b';
+      import c = require('./c');
+      const d = import('./d');
+    `,
+      `"use strict";${ESMODULE_PREFIX}
+      require("C:\\\\lib\\\\a.js");
+      var _b = require("C:\\\\lib\\\\b.js"); \
+Object.defineProperty(exports, 'b', {enumerable: true, get: () => _b.b});
+      const c = require("C:\\\\lib\\\\c.js");
+      const d = Promise.resolve().then(() => require("C:\\\\lib\\\\d.js"));
+    `,
+      ["imports", "typescript"],
+      {
+        rewriteImportPaths: {
+          rewrite: (specifier) => `C:\\lib\\${specifier.slice(2)}.js`,
+        },
+      },
+    );
+  });
+
+  it("processes escapes in import paths before rewriting them", () => {
+    assertResult(
+      `
+      import a from "./q\\"r";
+      import b from "..\\\\b";
+      import "./\\x63";
+      const d = import("./q\\"r");
+      console.log(a, b);
+    `,
+      `"use strict";${IMPORT_PREFIX}
+      var _qr = require("./q\\"r.js"); var _qr2 = _interopRequireDefault(_qr);
+      var _b = require("..\\\\b"); var _b2 = _interopRequireDefault(_b);
+      require("./c.js");
+      const d = Promise.resolve().then(() => require("./q\\"r.js"));
+      console.log(_qr2.default, _b2.default);
+    `,
+      ["imports"],
+      {rewriteImportPaths: {extension: ".js"}},
+    );
+  });
+
+  it("wraps the module in an AMD define call", () => {
+    assertResult(
+      `
+      import a from 'a';
+      import './b';
+      export const c = a;
+    `,
+      `define(["require", "exports", "module", "a", "./b"], function (require, exports, module) {"use strict";${IMPORT_PREFIX}${ESMODULE_PREFIX}
+      var _a = require('a'); var _a2 = _interopRequireDefault(_a);
+      require('./b');
+       exports.c = _a2.default;
+    
+});
+`,
+      ["imports"],
+      {moduleFormat: "amd"},
+    );
+  });
+
+  it("uses asynchronous require for dynamic imports in AMD modules", () => {
+    assertResult(
+      `
+      const m = import('./m');
+    `,
+      `define(["require", "exports", "module"], function (require, exports, module) {"use strict";${IMPORT_PREFIX}
+      const m = new Promise((_resolve, _reject) => require(['./m'], _resolve, _reject));
+    
+});
+`,
+      ["imports"],
+      {moduleFormat: "amd"},
+    );
+  });
+
+  it("lists the automatic JSX runtime as a dependency of AMD modules", () => {
+    assertResult(
+      `
+      import a from 'a';
+      export const el = <div>{a}</div>;
+    `,
+      `define(["require", "exports", "module", "a", "react/jsx-runtime"], \
+function (require, exports, module) {"use strict";\
+var _jsxruntime = require("react/jsx-runtime");${IMPORT_PREFIX}${ESMODULE_PREFIX}
+      var _a = require('a'); var _a2 = _interopRequireDefault(_a);
+       exports.el = _jsxruntime.jsx('div', { children: _a2.default});
+    
+});
+`,
+      ["jsx", "imports"],
+      {jsxRuntime: "automatic", production: true, moduleFormat: "amd"},
+    );
+  });
+
+  it("gets import.meta.url from the module URI in AMD modules", () => {
+    assertResult(
+      `
+      const url = import.meta.url;
+      const meta = import.meta;
+    `,
+      `define(["require", "exports", "module"], function (require, exports, module) {"use strict";${IMPORT_PREFIX}${IMPORT_META_URL_PREFIX}
+      const url = _importMetaUrl(module);
+      const meta = ({url: _importMetaUrl(module)});
+    
+});
+`,
+      ["imports"],
+      {moduleFormat: "amd"},
+    );
+  });
+
+  it("does not allow import.meta.filename or import.meta.dirname in AMD and UMD modules", () => {
+    assert.throws(
+      () => transform("import.meta.filename;", {transforms: ["imports"], moduleFormat: "amd"}),
+      /import.meta.filename is not supported in AMD and UMD modules/,
+    );
+    assert.throws(
+      () =>
+        transform("import.meta.dirname;", {
+          transforms: ["imports"],
+          moduleFormat: "umd",
+          umdGlobalName: "a",
+        }),
+      /import.meta.dirname is not supported in AMD and UMD modules/,
+    );
+  });
+
+  it("wraps the module in a UMD factory", () => {
+    assertResult(
+      `
+      import a from 'a';
+      import {b} from './my-dep';
+      export default a + b;
+    `,
+      `(function (global, factory) { if (typeof module === "object" && typeof module.exports === "object") { factory(require, exports, module); } else if (typeof define === "function" && define.amd) { define(["require", "exports", "module", "a", "./my-dep"], factory); } else { var mod = {exports: {}}; var globals = {"a": global.A, "./my-dep": global.myDep}; factory(function (path) { return globals[path]; }, mod.exports, mod); global.myModule = mod.exports; } })(typeof globalThis !== "undefined" ? globalThis : typeof self !== "undefined" ? self : this, function (require, exports, module) {"use strict";${IMPORT_PREFIX}${ESMODULE_PREFIX}
+      var _a = require('a'); var _a2 = _interopRequireDefault(_a);
+      var _mydep = require('./my-dep');
+      exports. default = _a2.default + _mydep.b;
+    
+});
+`,
+      ["imports"],
+      {moduleFormat: "umd", filePath: "src/my-module.js", umdGlobals: {a: "A"}},
+    );
+  });
+
+  it("chooses the form of require for dynamic imports at runtime in UMD modules", () => {
+    assertResult(
+      `
+      const m = import('./m');
+    `,
+      `(function (global, factory) { if (typeof module === "object" && typeof module.exports === "object") { factory(require, exports, module); } else if (typeof define === "function" && define.amd) { define(["require", "exports", "module"], factory); } else { var mod = {exports: {}}; var globals = {}; factory(function (path) { return globals[path]; }, mod.exports, mod); global.m = mod.exports; } })(typeof globalThis !== "undefined" ? globalThis : typeof self !== "undefined" ? self : this, function (require, exports, module) {"use strict";${IMPORT_PREFIX}
+      const m = new Promise((_resolve, _reject) => ((_path) => \
+typeof module.uri === "string" ? require([_path], _resolve, _reject) : \
+_resolve(require(_path)))('./m'));
+    
+});
+`,
+      ["imports"],
+      {moduleFormat: "umd", umdGlobalName: "m"},
+    );
+  });
+
+  it("compiles to a SystemJS module", () => {
+    assertResult(
+      `
+      import React, {useState} from 'react';
+      import * as utils from './utils';
+      export {helper as h} from './helper';
+      export let count = 0;
+      count++;
+      export function f() { return useState(utils.x); }
+      export default React;
+    `,
+      `System.register(["react", "./utils", "./helper"], function (_export, _context) { var _react, utils; var _body = (function* () {"use strict"; _export("f", f); yield; var _count;
+      
+      
+      
+       let count = _export("count", 0);
+      (_count = count++, _export("count", count), _count);
+       function f() { return (0, _react.useState)(utils.x); }
+      _export("default", _react.default);
+    
+})(); _body.next(); return {setters: [function (_m) { _react = _m; }, function (_m) { utils = _m; }, function (_m) { _export("h", _m.helper); }], execute: function () { _body.next(); }};
+});
+`,
+      ["imports"],
+      {moduleFormat: "system"},
+    );
+  });
+
+  it("handles star exports, bare imports, and dynamic imports in SystemJS modules", () => {
+    assertResult(
+      `
+      export * from './all';
+      export * as ns from './ns';
+      import './styles.css';
+      const lazy = import('./lazy');
+    `,
+      `System.register(["./all", "./ns", "./styles.css"], function (_export, _context) { return {setters: [function (_m) { var exportObj = {}; for (var key in _m) { if (key !== 'default' && key !== '__esModule') exportObj[key] = _m[key]; } _export(exportObj); }, function (_m) { _export("ns", _m); }, function () {}], execute: function () {"use strict";
+      
+      
+      
+      const lazy = _context.import('./lazy');
+    
+}};
+});
+`,
+      ["imports"],
+      {moduleFormat: "system"},
+    );
+  });
+
+  it("updates named exports through _export in SystemJS modules", () => {
+    assertResult(
+      `
+      let a = 1;
+      export {a as b};
+      a = 2;
+      a += 3;
+      [a] = [4];
+      export class C {}
+    `,
+      `System.register([], function (_export, _context) { return {setters: [], execute: function () {"use strict"; var _temp;
+      let a = _export("b", 1);
+      _export("b", a);
+      a = _export("b", 2);
+      _export("b", a += 3);
+      (_temp = [a] = [4], _export("b", a), _temp);
+       class C {} _export("C", C);
+    
+}};
+});
+`,
+      ["imports"],
+      {moduleFormat: "system"},
+    );
+  });
+
+  it("exports every declared name and every alias in SystemJS modules", () => {
+    assertResult(
+      `
+      export let c = 1;
+      export {c as d};
+      export let x = 1, y;
+      [x, y] = [3, 4];
+      export const {a, b: [e]} = o;
+    `,
+      `System.register([], function (_export, _context) { return {setters: [], execute: function () {"use strict"; var _temp;
+       let c = _export("c", _export("d", 1));
+      _export("d", c);
+       let x = _export("x", 1), y;
+      (_temp = [x, y] = [3, 4], _export("x", x), _export("y", y), _temp);
+       const {a, b: [e]} = o; _export("a", a); _export("e", e);
+    
+}};
+});
+`,
+      ["imports"],
+      {moduleFormat: "system"},
+    );
+  });
+
+  it("exports hoisted functions in the declaration phase of SystemJS modules", () => {
+    assertResult(
+      `
+      export function f() {}
+    `,
+      `System.register([], function (_export, _context) { var _body = (function* () {"use strict"; _export("f", f); yield;
+       function f() {}
+    
+})(); _body.next(); return {setters: [], execute: function () { _body.next(); }};
+});
+`,
+      ["imports"],
+      {moduleFormat: "system"},
+    );
+  });
+
+  it("exports imported bindings from the setters of SystemJS modules", () => {
+    assertResult(
+      `
+      import {b} from 'm';
+      import * as ns from 'n';
+      export {b, ns as n};
+    `,
+      `System.register(["m", "n"], function (_export, _context) { var _m2, ns; return {setters: [\
+function (_m) { _m2 = _m; _export("b", _m.b); }, function (_m) { ns = _m; _export("n", _m); }], \
+execute: function () {"use strict";
+      
+      
+      
+    
+}};
+});
+`,
+      ["imports"],
+      {moduleFormat: "system"},
+    );
+  });
+
+  it("requires a global name for UMD modules", () => {
+    assert.throws(
+      () => transform("export const a = 1;", {transforms: ["imports"], moduleFormat: "umd"}),
+      /umdGlobalName or filePath must be specified/,
+    );
+  });
 });
@@ -13,21 +13,21 @@ if (foo) {
         {transforms: ["jsx", "imports"]},
       ),
       `\
-Location  Label  Raw            contextualKeyword isType identifierRole shadowsGlobal contextId rhsEndIndex isExpression
-1:1-1:3   if     if             0                                                                                       
-1:4-1:5   (      (              0                                                                                       
-1:5-1:8   name   foo            0                        0                                                              
-1:8-1:9   )      )              0                                                                                       
-1:10-1:11 {      {              0                                                                                       
-2:3-2:10  name   console        0                        0                                                              
-2:10-2:11 .      .              0                                                                                       
-2:11-2:14 name   log            0                                                                                       
-2:14-2:15 (      (              0                                                     1                                 
-2:15-2:29 string 'Hello world!' 0                                                                                       
-2:29-2:30 )      )              0                                                     1                                 
-2:30-2:31 ;      ;              0                                                                                       
-3:1-3:2   }      }              0                                                                                       
-3:2-3:2   eof                   0                                                                                       `,
+Location  Label  Raw            contextualKeyword isType identifierRole shadowsGlobal contextId rhsEndIndex isExpression jsxRole isOptionalChainStart isOptionalChainEnd subscriptStartIndex nullishStartIndex numNullishCoalesceStarts numNullishCoalesceEnds isAsyncOperation startsObjectRestBinding startsObjectRestAssignment
+1:1-1:3   if     if             0                                                                                                                                                                              0                        0                                                                                         
+1:4-1:5   (      (              0                                                                                                                                                                              0                        0                                                                                         
+1:5-1:8   name   foo            0                        0                                                                                                                                                     0                        0                                                                                         
+1:8-1:9   )      )              0                                                                                                                                                                              0                        0                                                                                         
+1:10-1:11 {      {              0                                                                                                                                                                              0                        0                                                                                         
+2:3-2:10  name   console        0                        0                                                                                                                                                     0                        0                                                                                         
+2:10-2:11 .      .              0                                                                                                                                        5                                     0                        0                                                                                         
+2:11-2:14 name   log            0                                                                                                                                                                              0                        0                                                                                         
+2:14-2:15 (      (              0                                                     1                                                                                  5                                     0                        0                                                                                         
+2:15-2:29 string 'Hello world!' 0                                                                                                                                                                              0                        0                                                                                         
+2:29-2:30 )      )              0                                                     1                                                                                                                        0                        0                                                                                         
+2:30-2:31 ;      ;              0                                                                                                                                                                              0                        0                                                                                         
+3:1-3:2   }      }              0                                                                                                                                                                              0                        0                                                                                         
+3:2-3:2   eof                   0                                                                                                                                                                              0                        0                                                                                         `,
     );
   });
 });
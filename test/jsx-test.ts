@@ -1,11 +1,12 @@
-import {JSX_PREFIX} from "./prefixes";
+import {Options} from "../src";
+import {IMPORT_PREFIX, JSX_PREFIX} from "./prefixes";
 import * as util from "./util";
 
 const {devProps} = util;
 
-function assertResult(code: string, expectedResult: string): void {
-  util.assertResult(code, expectedResult, ["jsx"]);
-  util.assertResult(code, expectedResult, ["jsx", "flow"]);
+function assertResult(code: string, expectedResult: string, options: Partial<Options> = {}): void {
+  util.assertResult(code, expectedResult, ["jsx"], options);
+  util.assertResult(code, expectedResult, ["jsx", "flow"], options);
 }
 
 describe("transform JSX", () => {
@@ -15,7 +16,7 @@ describe("transform JSX", () => {
       <Foo />
     `,
       `${JSX_PREFIX}
-      React.createElement(Foo, {${devProps(2)}} )
+      React.createElement(Foo, {${devProps(2, 7)}} )
     `,
     );
   });
@@ -26,7 +27,10 @@ describe("transform JSX", () => {
       <div><span></span></div>
     `,
       `${JSX_PREFIX}
-      React.createElement('div', {${devProps(2)}}, React.createElement('span', {${devProps(2)}}))
+      React.createElement('div', {${devProps(2, 7)}}, React.createElement('span', {${devProps(
+        2,
+        12,
+      )}}))
     `,
     );
   });
@@ -37,7 +41,7 @@ describe("transform JSX", () => {
       <div>{x}</div>
     `,
       `${JSX_PREFIX}
-      React.createElement('div', {${devProps(2)}}, x)
+      React.createElement('div', {${devProps(2, 7)}}, x)
     `,
     );
   });
@@ -48,7 +52,7 @@ describe("transform JSX", () => {
       <A foo='bar' />
     `,
       `${JSX_PREFIX}
-      React.createElement(A, { foo: "bar", ${devProps(2)}} )
+      React.createElement(A, { foo: "bar", ${devProps(2, 7)}} )
     `,
     );
   });
@@ -64,7 +68,7 @@ describe("transform JSX", () => {
       `${JSX_PREFIX}
       React.createElement(A, {
         b: "c", // A comment
-        d: "e", ${devProps(2)}} /* Another comment */
+        d: "e", ${devProps(2, 7)}} /* Another comment */
       )
     `,
     );
@@ -82,7 +86,7 @@ describe("transform JSX", () => {
     `,
       `${JSX_PREFIX}
       const x = (
-        React.createElement('div', {${devProps(3)}}, "foo  bar baz"
+        React.createElement('div', {${devProps(3, 9)}}, "foo  bar baz"
 
 
         )
@@ -102,8 +106,8 @@ describe("transform JSX", () => {
     `,
       `${JSX_PREFIX}
       const x = (
-        React.createElement('div', {${devProps(3)}}
-          , React.createElement(Span, {${devProps(4)}} )
+        React.createElement('div', {${devProps(3, 9)}}
+          , React.createElement(Span, {${devProps(4, 11)}} )
         )
       );
     `,
@@ -116,7 +120,7 @@ describe("transform JSX", () => {
       <a.b c='d' />
     `,
       `${JSX_PREFIX}
-      React.createElement(a.b, { c: "d", ${devProps(2)}} )
+      React.createElement(a.b, { c: "d", ${devProps(2, 7)}} )
     `,
     );
   });
@@ -127,7 +131,7 @@ describe("transform JSX", () => {
       <a {...b} c='d' />
     `,
       `${JSX_PREFIX}
-      React.createElement('a', { ...b, c: "d", ${devProps(2)}} )
+      React.createElement('a', { ...b, c: "d", ${devProps(2, 7)}} )
     `,
     );
   });
@@ -138,7 +142,7 @@ describe("transform JSX", () => {
       <span>a&gt;b</span>
     `,
       `${JSX_PREFIX}
-      React.createElement('span', {${devProps(2)}}, "a>b")
+      React.createElement('span', {${devProps(2, 7)}}, "a>b")
     `,
     );
   });
@@ -152,7 +156,7 @@ describe("transform JSX", () => {
       </span>
     `,
       `${JSX_PREFIX}
-      React.createElement('span', {${devProps(2)}}, "a "
+      React.createElement('span', {${devProps(2, 7)}}, "a "
 
       )
     `,
@@ -170,10 +174,10 @@ describe("transform JSX", () => {
       </div>;
     `,
       `${JSX_PREFIX}
-      React.createElement('div', {${devProps(2)}}
-        , React.createElement('span', {${devProps(3)}} )
+      React.createElement('div', {${devProps(2, 7)}}
+        , React.createElement('span', {${devProps(3, 9)}} )
          /* foo */ 
-        , React.createElement('span', {${devProps(5)}} )
+        , React.createElement('span', {${devProps(5, 9)}} )
       );
     `,
     );
@@ -190,7 +194,7 @@ describe("transform JSX", () => {
       `${JSX_PREFIX}
       const foo = {
         ...bar,
-        baz: React.createElement(Baz, {${devProps(4)}} ),
+        baz: React.createElement(Baz, {${devProps(4, 14)}} ),
       };
     `,
     );
@@ -207,7 +211,7 @@ describe("transform JSX", () => {
       `${JSX_PREFIX}
       React.createElement('div', {
         a: 1,
-        'data-id': 2, ${devProps(2)}}
+        'data-id': 2, ${devProps(2, 7)}}
       )
     `,
     );
@@ -224,7 +228,7 @@ describe("transform JSX", () => {
       `${JSX_PREFIX}
       React.createElement('div', {
         value: "This is a multi-line string."
-                , ${devProps(2)}}
+                , ${devProps(2, 7)}}
       )
     `,
     );
@@ -245,7 +249,7 @@ describe("transform JSX", () => {
         value: "    This is a longer multi-line string. "
 
 
-                  , ${devProps(2)}}
+                  , ${devProps(2, 7)}}
       )
     `,
     );
@@ -260,7 +264,7 @@ describe("transform JSX", () => {
     `,
       `${JSX_PREFIX}
       React.createElement('div', {
-        value: "a>b", ${devProps(2)}}
+        value: "a>b", ${devProps(2, 7)}}
       )
     `,
     );
@@ -272,7 +276,7 @@ describe("transform JSX", () => {
       const e = <div a />;
     `,
       `${JSX_PREFIX}
-      const e = React.createElement('div', { a: true, ${devProps(2)}} );
+      const e = React.createElement('div', { a: true, ${devProps(2, 17)}} );
     `,
     );
   });
@@ -284,9 +288,254 @@ describe("transform JSX", () => {
     `,
       `${JSX_PREFIX}
       const e = React.createElement('div', { a: "foo\\r\\nbar"
-, __self: this, __source: {fileName: _jsxFileName, lineNumber: 2}}, "a b"
+, __self: this, __source: {fileName: _jsxFileName, lineNumber: 2, columnNumber: 17}}, "a b"
 );
     `,
     );
   });
+
+  it("transforms JSX fragments", () => {
+    assertResult(
+      `
+      const e = <><div /><span>{a}</span></>;
+    `,
+      `${JSX_PREFIX}
+      const e = React.createElement(React.Fragment, null, React.createElement('div', {${devProps(
+        2,
+        19,
+      )}} ), React.createElement('span', {${devProps(2, 26)}}, a));
+    `,
+    );
+  });
+
+  it("transforms nested JSX fragments with text children", () => {
+    assertResult(
+      `
+      const e = (
+        <div>
+          <>
+            Hello
+          </>
+        </div>
+      );
+    `,
+      `${JSX_PREFIX}
+      const e = (
+        React.createElement('div', {${devProps(3, 9)}}
+          , React.createElement(React.Fragment, null, "Hello"
+
+          )
+        )
+      );
+    `,
+    );
+  });
+
+  it("allows a custom JSX pragma and fragment pragma", () => {
+    assertResult(
+      `
+      const e = <><div a="b" /></>;
+    `,
+      `${JSX_PREFIX}
+      const e = h(Fragment, null, h('div', { a: "b", ${devProps(2, 19)}} ));
+    `,
+      {jsxPragma: "h", jsxFragmentPragma: "Fragment"},
+    );
+  });
+
+  it("allows a dotted custom JSX pragma", () => {
+    assertResult(
+      `
+      const e = <div />;
+    `,
+      `${JSX_PREFIX}
+      const e = preact.h('div', {${devProps(2, 17)}} );
+    `,
+      {jsxPragma: "preact.h"},
+    );
+  });
+
+  it("uses per-file @jsx and @jsxFrag comments over the pragma options", () => {
+    assertResult(
+      `
+      /** @jsx h */
+      /** @jsxFrag Fragment */
+      const e = <><div /></>;
+    `,
+      `${JSX_PREFIX}
+      /** @jsx h */
+      /** @jsxFrag Fragment */
+      const e = h(Fragment, null, h('div', {${devProps(4, 19)}} ));
+    `,
+      {jsxPragma: "jsx", jsxFragmentPragma: "Frag"},
+    );
+  });
+
+  it("resolves custom JSX pragmas through imports", () => {
+    util.assertResult(
+      `
+      /** @jsx h */
+      import {h, Fragment} from "preact";
+      const e = <><div /></>;
+    `,
+      `"use strict";${JSX_PREFIX}${IMPORT_PREFIX}
+      /** @jsx h */
+      var _preact = require('preact');
+      const e = _preact.h(_preact.Fragment, null, _preact.h('div', {${devProps(4, 19)}} ));
+    `,
+      ["jsx", "imports"],
+      {jsxFragmentPragma: "Fragment"},
+    );
+  });
+
+  it("keeps imported JSX pragmas when removing TypeScript type-only imports", () => {
+    util.assertResult(
+      `
+      import {h} from "preact";
+      const e = <div />;
+    `,
+      `"use strict";${JSX_PREFIX}
+      var _preact = require('preact');
+      const e = _preact.h('div', {${devProps(3, 17)}} );
+    `,
+      ["jsx", "imports", "typescript"],
+      {jsxPragma: "h"},
+    );
+  });
+
+  it("omits development props in production mode", () => {
+    assertResult(
+      `
+      const e = <div a="b" {...c}><span />{x}</div>;
+    `,
+      `
+      const e = React.createElement('div', { a: "b", ...c,}, React.createElement('span', null ), x);
+    `,
+      {production: true},
+    );
+  });
+
+  it("omits development props for elements without props in production mode", () => {
+    assertResult(
+      `
+      const e = <><Foo /></>;
+    `,
+      `
+      const e = React.createElement(React.Fragment, null, React.createElement(Foo, null ));
+    `,
+      {production: true},
+    );
+  });
+
+  it("includes column numbers in development props", () => {
+    assertResult(
+      `
+      const e = (
+        <div>
+            <span />
+        </div>
+      );
+    `,
+      `${JSX_PREFIX}
+      const e = (
+        React.createElement('div', {${devProps(3, 9)}}
+            , React.createElement('span', {${devProps(4, 13)}} )
+        )
+      );
+    `,
+    );
+  });
+
+  it("compiles to the automatic runtime in production mode", () => {
+    assertResult(
+      `
+      const a = <div a="b" key={k}>
+        <span />{x}
+      </div>;
+      const b = <Foo>hi</Foo>;
+    `,
+      `import {jsxs as _jsxs, jsx as _jsx} from "react/jsx-runtime";
+      const a = _jsxs('div', { a: "b", children: [
+        _jsx('span', {} ), x
+      ]}, k);
+      const b = _jsx(Foo, { children: "hi"});
+    `,
+      {jsxRuntime: "automatic", production: true},
+    );
+  });
+
+  it("compiles fragments to the automatic runtime", () => {
+    assertResult(
+      `
+      const e = <><br /></>;
+    `,
+      `import {jsx as _jsx, Fragment as _Fragment} from "react/jsx-runtime";
+      const e = _jsx(_Fragment, { children: _jsx('br', {} )});
+    `,
+      {jsxRuntime: "automatic", production: true},
+    );
+  });
+
+  it("compiles to jsxDEV with source information in development mode", () => {
+    assertResult(
+      `
+      const e = <div key="a">{x}</div>;
+    `,
+      `${JSX_PREFIX}import {jsxDEV as _jsxDEV} from "react/jsx-dev-runtime";
+      const e = _jsxDEV('div', { children: x}, "a", false, {fileName: _jsxFileName, lineNumber: 2, columnNumber: 17}, this);
+    `,
+      {jsxRuntime: "automatic"},
+    );
+  });
+
+  it("falls back to createElement for a key after a prop spread", () => {
+    assertResult(
+      `
+      const e = <div {...props} key="a" />;
+    `,
+      `import {createElement as _createElement} from "react";
+      const e = _createElement('div', { ...props, key: "a",} );
+    `,
+      {jsxRuntime: "automatic", production: true},
+    );
+  });
+
+  it("uses the jsxImportSource option for the automatic runtime", () => {
+    assertResult(
+      `
+      const e = <div />;
+    `,
+      `import {jsx as _jsx} from "preact/jsx-runtime";
+      const e = _jsx('div', {} );
+    `,
+      {jsxRuntime: "automatic", jsxImportSource: "preact", production: true},
+    );
+  });
+
+  it("avoids name collisions with automatic runtime imports", () => {
+    assertResult(
+      `
+      const _jsx = 1;
+      const e = <div />;
+    `,
+      `import {jsx as _jsx2} from "react/jsx-runtime";
+      const _jsx = 1;
+      const e = _jsx2('div', {} );
+    `,
+      {jsxRuntime: "automatic", production: true},
+    );
+  });
+
+  it("requires the automatic runtime when the imports transform is enabled", () => {
+    util.assertResult(
+      `
+      const e = <div />;
+    `,
+      `"use strict";var _jsxruntime = require("react/jsx-runtime");${IMPORT_PREFIX}
+      const e = _jsxruntime.jsx('div', {} );
+    `,
+      ["jsx", "imports"],
+      {jsxRuntime: "automatic", production: true},
+    );
+  });
 });
@@ -0,0 +1,263 @@
+import * as assert from "assert";
+
+import {transform} from "../src";
+import {
+  ESMODULE_PREFIX,
+  EXTENDS_PREFIX,
+  IMPORT_PREFIX,
+  JSX_PREFIX,
+  OBJECT_WITHOUT_PROPERTIES_PREFIX,
+} from "./prefixes";
+import {assertResult, devProps} from "./util";
+
+describe("transform object-rest-spread", () => {
+  it("transforms object spread", () => {
+    assertResult(
+      `
+      const a = {b, ...c, d: 1, ...e};
+      const f = {...g};
+      const h = {...i, ...j,};
+    `,
+      `${EXTENDS_PREFIX}
+      const a = _extends({b, }, c, { d: 1, }, e);
+      const f = _extends({}, g);
+      const h = _extends({}, i, j);
+    `,
+      ["object-rest-spread"],
+    );
+  });
+
+  it("transforms nested object spread", () => {
+    assertResult(
+      `
+      const a = {b: {...c}, ...{d, ...e}};
+    `,
+      `${EXTENDS_PREFIX}
+      const a = _extends({b: _extends({}, c), }, _extends({d, }, e));
+    `,
+      ["object-rest-spread"],
+    );
+  });
+
+  it("transforms object rest in variable declarations", () => {
+    assertResult(
+      `
+      const {a, ...b} = c;
+      let {d: {e, ...f}, g = 1, ...h} = i, j = 2;
+    `,
+      `${OBJECT_WITHOUT_PROPERTIES_PREFIX}
+      const _ref = c, {a,} = _ref, b = _objectWithoutProperties(_ref, ["a"]);
+      let _ref2 = i, {d: _ref3, g = 1,} = _ref2, h = _objectWithoutProperties(_ref2, ["d", "g"]), {e,} = _ref3, f = _objectWithoutProperties(_ref3, ["e"]), j = 2;
+    `,
+      ["object-rest-spread"],
+    );
+  });
+
+  it("handles object rest within array patterns", () => {
+    assertResult(
+      `
+      const [a, {b, ...c} = {}] = d;
+    `,
+      `${OBJECT_WITHOUT_PROPERTIES_PREFIX}
+      const [a, _ref = {}] = d, {b,} = _ref, c = _objectWithoutProperties(_ref, ["b"]);
+    `,
+      ["object-rest-spread"],
+    );
+  });
+
+  it("excludes string, numeric, and computed keys from object rest", () => {
+    assertResult(
+      `
+      const {"a": b, 1: c, [d]: e, ...f} = g;
+    `,
+      `${OBJECT_WITHOUT_PROPERTIES_PREFIX} var _key;
+      const _ref = g, {"a": b, 1: c, [_key = d]: e,} = _ref, f = _objectWithoutProperties(_ref, ["a", "1", _key]);
+    `,
+      ["object-rest-spread"],
+    );
+  });
+
+  it("transforms object rest in function parameters", () => {
+    assertResult(
+      `
+      function f({a, ...b}, c) {
+        return b;
+      }
+      class A {
+        constructor({d, ...e} = {}) {}
+      }
+    `,
+      `${OBJECT_WITHOUT_PROPERTIES_PREFIX}
+      function f(_ref, c) { let {a,} = _ref, b = _objectWithoutProperties(_ref, ["a"]);
+        return b;
+      }
+      class A {
+        constructor(_ref2 = {}) { let {d,} = _ref2, e = _objectWithoutProperties(_ref2, ["d"]);}
+      }
+    `,
+      ["object-rest-spread"],
+    );
+  });
+
+  it("transforms object rest in arrow function parameters", () => {
+    assertResult(
+      `
+      const f = ({a, ...b}) => b;
+      const g = async ({c, ...d}) => {
+        return d;
+      };
+    `,
+      `${OBJECT_WITHOUT_PROPERTIES_PREFIX}
+      const f = (_ref) => { let {a,} = _ref, b = _objectWithoutProperties(_ref, ["a"]); return ( b); };
+      const g = async (_ref2) => { let {c,} = _ref2, d = _objectWithoutProperties(_ref2, ["c"]);
+        return d;
+      };
+    `,
+      ["object-rest-spread"],
+    );
+  });
+
+  it("does not allow later parameters to refer to bindings from a parameter with object rest", () => {
+    assert.throws(
+      () => transform("function f({a, ...b}, c = a) {}", {transforms: ["object-rest-spread"]}),
+      /a is referenced in a later parameter/,
+    );
+    assert.throws(
+      () =>
+        transform("const f = ({a: x, ...b}, {[x]: c}) => c;", {transforms: ["object-rest-spread"]}),
+      /x is referenced in a later parameter/,
+    );
+  });
+
+  it("transforms object rest in catch clauses", () => {
+    assertResult(
+      `
+      try {
+        f();
+      } catch ({message, ...rest}) {
+        console.log(rest);
+      }
+    `,
+      `${OBJECT_WITHOUT_PROPERTIES_PREFIX}
+      try {
+        f();
+      } catch (_ref) { let {message,} = _ref, rest = _objectWithoutProperties(_ref, ["message"]);
+        console.log(rest);
+      }
+    `,
+      ["object-rest-spread"],
+    );
+  });
+
+  it("handles object rest in exported functions with type annotations", () => {
+    assertResult(
+      `
+      export function f({a, ...b}: Props): void {}
+    `,
+      `"use strict";${OBJECT_WITHOUT_PROPERTIES_PREFIX}${ESMODULE_PREFIX} exports.f = f;
+       function f(_ref) { let {a,} = _ref, b = _objectWithoutProperties(_ref, ["a"]);}
+    `,
+      ["typescript", "imports", "object-rest-spread"],
+    );
+  });
+
+  it("transforms prop spread in JSX", () => {
+    assertResult(
+      `
+      <a {...b} c="d" />;
+    `,
+      `${EXTENDS_PREFIX}${JSX_PREFIX}
+      React.createElement('a', _extends({ }, b, { c: "d", ${devProps(2, 7)}}) );
+    `,
+      ["jsx", "object-rest-spread"],
+    );
+  });
+
+  it("transforms object rest in destructuring assignments", () => {
+    assertResult(
+      `
+      ({a, ...b} = c);
+      d = ({e: this.e, ...f.g} = h);
+    `,
+      `${OBJECT_WITHOUT_PROPERTIES_PREFIX} var _ref; var _ref2;
+      ((_ref = c, {a,} = _ref, b = _objectWithoutProperties(_ref, ["a"]), _ref));
+      d = ((_ref2 = h, {e: this.e,} = _ref2, f.g = _objectWithoutProperties(_ref2, ["e"]), _ref2));
+    `,
+      ["object-rest-spread"],
+    );
+  });
+
+  it("transforms object rest nested in destructuring assignments", () => {
+    assertResult(
+      `
+      [{a = {...b}, ...c}, d] = e;
+    `,
+      `${EXTENDS_PREFIX}${OBJECT_WITHOUT_PROPERTIES_PREFIX} var _ref; var _temp;
+      (_temp = [_ref, d] = e, {a = _extends({}, b),} = _ref, c = _objectWithoutProperties(_ref, ["a"]), _temp);
+    `,
+      ["object-rest-spread"],
+    );
+  });
+
+  it("updates exports assigned through object rest in destructuring assignments", () => {
+    assertResult(
+      `
+      let a, b;
+      export {a, b};
+      ({a, ...b} = c);
+    `,
+      `"use strict";${OBJECT_WITHOUT_PROPERTIES_PREFIX}${IMPORT_PREFIX}${ESMODULE_PREFIX} var _ref;
+      let a, b;
+      exports.a = a; exports.b = b;
+      ((_ref = c, {a,} = _ref, b = _objectWithoutProperties(_ref, ["a"]), exports.a = a, exports.b = b, _ref));
+    `,
+      ["object-rest-spread", "imports"],
+    );
+  });
+
+  it("transforms object rest in for-of and for-in loop variables", () => {
+    assertResult(
+      `
+      for (const {a, ...b} of c) {
+        f(b);
+      }
+      for (let [d, {e, ...g}] in h) f(g);
+    `,
+      `${OBJECT_WITHOUT_PROPERTIES_PREFIX}
+      for (const _ref of c) { const {a,} = _ref, b = _objectWithoutProperties(_ref, ["a"]);
+        f(b);
+      }
+      for (let [d, _ref2] in h) { let {e,} = _ref2, g = _objectWithoutProperties(_ref2, ["e"]); f(g); }
+    `,
+      ["object-rest-spread"],
+    );
+  });
+
+  it("transforms object rest in for-of loop assignment targets", () => {
+    assertResult(
+      `
+      let a, b;
+      export {b};
+      for ({a, ...b} of c) f(b);
+    `,
+      `"use strict";${OBJECT_WITHOUT_PROPERTIES_PREFIX}${IMPORT_PREFIX}${ESMODULE_PREFIX} var _ref;
+      let a, b;
+      exports.b = b;
+      for (_ref of c) { ({a,} = _ref, b = _objectWithoutProperties(_ref, ["a"]), exports.b = b); f(b); }
+    `,
+      ["object-rest-spread", "imports"],
+    );
+  });
+
+  it("does not transform object rest and spread without the transform", () => {
+    assertResult(
+      `
+      const {a, ...b} = {...c};
+    `,
+      `
+      const {a, ...b} = {...c};
+    `,
+      [],
+    );
+  });
+});
@@ -0,0 +1,158 @@
+import {
+  ASYNC_NULLISH_COALESCE_PREFIX,
+  ASYNC_OPTIONAL_CHAIN_PREFIX,
+  IMPORT_PREFIX,
+  NULLISH_COALESCE_PREFIX,
+  OPTIONAL_CHAIN_PREFIX,
+} from "./prefixes";
+import {assertResult} from "./util";
+
+describe("transform optional-chaining", () => {
+  it("transforms optional property accesses", () => {
+    assertResult(
+      `
+      const x = a?.b.c;
+      const y = a?.[b]?.c;
+    `,
+      `${OPTIONAL_CHAIN_PREFIX}
+      const x = _optionalChain([a, 'optionalAccess', _ => _.b, 'access', _2 => _2.c]);
+      const y = _optionalChain([a, 'optionalAccess', _3 => _3[b], 'optionalAccess', _4 => _4.c]);
+    `,
+      ["optional-chaining"],
+    );
+  });
+
+  it("transforms optional calls and method calls", () => {
+    assertResult(
+      `
+      a?.();
+      a.b?.(c);
+      a?.b.c(d);
+    `,
+      `${OPTIONAL_CHAIN_PREFIX}
+      _optionalChain([a, 'optionalCall', _ => _()]);
+      _optionalChain([a, 'access', _2 => _2.b, 'optionalCall', _3 => _3(c)]);
+      _optionalChain([a, 'optionalAccess', _4 => _4.b, 'access', _5 => _5.c, 'call', _6 => _6(d)]);
+    `,
+      ["optional-chaining"],
+    );
+  });
+
+  it("handles nested optional chains", () => {
+    assertResult(
+      `
+      const x = a?.[b?.c].d;
+    `,
+      `${OPTIONAL_CHAIN_PREFIX}
+      const x = _optionalChain([a, 'optionalAccess', _ => _[_optionalChain([b, 'optionalAccess', _2 => _2.c])], 'access', _3 => _3.d]);
+    `,
+      ["optional-chaining"],
+    );
+  });
+
+  it("transforms delete on an optional chain", () => {
+    assertResult(
+      `
+      delete a?.b.c;
+    `,
+      `${OPTIONAL_CHAIN_PREFIX}
+       _optionalChain([a, 'optionalAccess', _ => _.b, 'access', _2 => delete _2.c]);
+    `,
+      ["optional-chaining"],
+    );
+  });
+
+  it("keeps the first access on super and binds calls to this", () => {
+    assertResult(
+      `
+      class A extends B {
+        c() {
+          return super.d?.();
+        }
+      }
+    `,
+      `${OPTIONAL_CHAIN_PREFIX}
+      class A extends B {
+        c() {
+          return _optionalChain([super.d.bind(this), 'optionalCall', _ => _()]);
+        }
+      }
+    `,
+      ["optional-chaining"],
+    );
+  });
+
+  it("transforms nullish coalescing", () => {
+    assertResult(
+      `
+      const x = a ?? b;
+      const y = a ?? b ?? c;
+      const z = a?.b ?? c.d;
+    `,
+      `${OPTIONAL_CHAIN_PREFIX}${NULLISH_COALESCE_PREFIX}
+      const x = _nullishCoalesce(a, () => ( b));
+      const y = _nullishCoalesce(_nullishCoalesce(a, () => ( b)), () => ( c));
+      const z = _nullishCoalesce(_optionalChain([a, 'optionalAccess', _ => _.b]), () => ( c.d));
+    `,
+      ["optional-chaining"],
+    );
+  });
+
+  it("uses async helpers for expressions containing await", () => {
+    assertResult(
+      `
+      async function f() {
+        const x = a ?? await b;
+        const y = a?.[await b];
+        const z = a ?? (async () => await b);
+      }
+    `,
+      `${ASYNC_OPTIONAL_CHAIN_PREFIX}${NULLISH_COALESCE_PREFIX}${ASYNC_NULLISH_COALESCE_PREFIX}
+      async function f() {
+        const x = await _asyncNullishCoalesce(a, async () => ( await b));
+        const y = await _asyncOptionalChain([a, 'optionalAccess', async _ => _[await b]]);
+        const z = _nullishCoalesce(a, () => ( (async () => await b)));
+      }
+    `,
+      ["optional-chaining"],
+    );
+  });
+
+  it("transforms optional chains on imported names", () => {
+    assertResult(
+      `
+      import {a} from 'a';
+      a?.b();
+    `,
+      `"use strict";${OPTIONAL_CHAIN_PREFIX}${IMPORT_PREFIX}
+      var _a = require('a');
+      _optionalChain([_a.a, 'optionalAccess', _ => _.b, 'call', _2 => _2()]);
+    `,
+      ["imports", "optional-chaining"],
+    );
+  });
+
+  it("removes type syntax within optional chains", () => {
+    assertResult(
+      `
+      const x = a?.b!.c<T>(d as number) ?? e;
+    `,
+      `${OPTIONAL_CHAIN_PREFIX}${NULLISH_COALESCE_PREFIX}
+      const x = _nullishCoalesce(_optionalChain([a, 'optionalAccess', _ => _.b, 'access', _2 => _2.c, 'call', _3 => _3(d )]), () => ( e));
+    `,
+      ["typescript", "optional-chaining"],
+    );
+  });
+
+  it("does not transform optional chaining without the transform", () => {
+    assertResult(
+      `
+      const x = a?.b ?? c;
+    `,
+      `
+      const x = a?.b ?? c;
+    `,
+      [],
+    );
+  });
+});
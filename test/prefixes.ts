@@ -5,4 +5,119 @@ if (obj != null) { for (var key in obj) { \
 if (Object.prototype.hasOwnProperty.call(obj, key)) newObj[key] = obj[key]; } } \
 newObj.default = obj; return newObj; } } function _interopRequireDefault(obj) { \
 return obj && obj.__esModule ? obj : { default: obj }; }`;
+export const IMPORT_STAR_PREFIX = ` function __importStar(mod) { \
+if (mod && mod.__esModule) return mod; var result = {}; \
+if (mod != null) for (var k in mod) if (Object.hasOwnProperty.call(mod, k)) result[k] = mod[k]; \
+result["default"] = mod; return result; }`;
+export const IMPORT_DEFAULT_PREFIX = ` function __importDefault(mod) { \
+return (mod && mod.__esModule) ? mod : { "default": mod }; }`;
+export const NODE_INTEROP_PREFIX = ` function _nodeInteropRequireWildcard(obj) { var newObj = {}; \
+if (obj != null) { for (var key in obj) { \
+if (key !== "default" && Object.prototype.hasOwnProperty.call(obj, key)) { newObj[key] = obj[key]; } } } \
+newObj.default = obj; return newObj; }`;
 export const ESMODULE_PREFIX = 'Object.defineProperty(exports, "__esModule", {value: true});';
+export const DECORATE_PREFIX = ` function __decorate(decorators, target, key, desc) { \
+var c = arguments.length; \
+var r = c < 3 ? target : desc === null ? desc = Object.getOwnPropertyDescriptor(target, key) : desc; \
+var d; for (var i = decorators.length - 1; i >= 0; i--) { if (d = decorators[i]) { \
+r = (c < 3 ? d(r) : c > 3 ? d(target, key, r) : d(target, key)) || r; } } \
+return c > 3 && r && Object.defineProperty(target, key, r), r; } \
+function __param(paramIndex, decorator) { \
+return function (target, key) { decorator(target, key, paramIndex); }; }`;
+export const DECORATOR_METADATA_PREFIX = ` function __metadata(metadataKey, metadataValue) { \
+if (typeof Reflect === "object" && typeof Reflect.metadata === "function") { \
+return Reflect.metadata(metadataKey, metadataValue); } }`;
+export const OPTIONAL_CHAIN_PREFIX = ` function _optionalChain(ops) { \
+var lastAccessLHS = undefined; var value = ops[0]; var i = 1; while (i < ops.length) { \
+var op = ops[i]; var fn = ops[i + 1]; i += 2; \
+if ((op === 'optionalAccess' || op === 'optionalCall') && value == null) { return undefined; } \
+if (op === 'access' || op === 'optionalAccess') { lastAccessLHS = value; value = fn(value); } \
+else if (op === 'call' || op === 'optionalCall') { \
+value = fn((...args) => value.call(lastAccessLHS, ...args)); lastAccessLHS = undefined; } } \
+return value; }`;
+export const ASYNC_OPTIONAL_CHAIN_PREFIX = ` function _asyncOptionalChain(ops) { \
+var lastAccessLHS = undefined; var value = ops[0]; var i = 1; function next() { \
+if (i >= ops.length) { return value; } var op = ops[i]; var fn = ops[i + 1]; i += 2; \
+if ((op === 'optionalAccess' || op === 'optionalCall') && value == null) { return undefined; } \
+var result; if (op === 'access' || op === 'optionalAccess') { lastAccessLHS = value; \
+result = fn(value); } else if (op === 'call' || op === 'optionalCall') { var callee = value; \
+var thisArg = lastAccessLHS; result = fn((...args) => callee.call(thisArg, ...args)); \
+lastAccessLHS = undefined; } return Promise.resolve(result).then(function (resultValue) { \
+value = resultValue; return next(); }); } return new Promise(function (resolve) { \
+resolve(next()); }); }`;
+export const NULLISH_COALESCE_PREFIX = ` function _nullishCoalesce(lhs, rhsFn) { \
+if (lhs != null) { return lhs; } else { return rhsFn(); } }`;
+export const ASYNC_NULLISH_COALESCE_PREFIX = ` function _asyncNullishCoalesce(lhs, rhsFn) { \
+return new Promise(function (resolve) { resolve(lhs != null ? lhs : rhsFn()); }); }`;
+export const EXTENDS_PREFIX = ` function _extends(target) { \
+for (var i = 1; i < arguments.length; i++) { var source = arguments[i]; \
+for (var key in source) { if (Object.prototype.hasOwnProperty.call(source, key)) { \
+target[key] = source[key]; } } if (source != null && Object.getOwnPropertySymbols) { \
+var symbols = Object.getOwnPropertySymbols(source); for (var j = 0; j < symbols.length; j++) { \
+var symbol = symbols[j]; if (Object.prototype.propertyIsEnumerable.call(source, symbol)) { \
+target[symbol] = source[symbol]; } } } } return target; }`;
+export const OBJECT_WITHOUT_PROPERTIES_PREFIX = ` function _objectWithoutProperties(obj, excludedKeys) { \
+var target = {}; var excluded = excludedKeys.map(function (key) { \
+return typeof key === "symbol" ? key : String(key); }); for (var key in obj) { \
+if (excluded.indexOf(key) === -1 && Object.prototype.hasOwnProperty.call(obj, key)) { \
+target[key] = obj[key]; } } if (Object.getOwnPropertySymbols) { \
+var symbols = Object.getOwnPropertySymbols(obj); for (var i = 0; i < symbols.length; i++) { \
+var symbol = symbols[i]; \
+if (excluded.indexOf(symbol) === -1 && Object.prototype.propertyIsEnumerable.call(obj, symbol)) { \
+target[symbol] = obj[symbol]; } } } return target; }`;
+export const ASYNC_TO_GENERATOR_PREFIX = ` function _asyncToGenerator(fn) { \
+return function () { var self = this, args = arguments; \
+return new Promise(function (resolve, reject) { var gen = fn.apply(self, args); \
+function step(key, arg) { try { var info = gen[key](arg); } catch (error) { reject(error); return; } \
+if (info.done) { resolve(info.value); } else { Promise.resolve(info.value).then(next, throwError); } } \
+function next(value) { step("next", value); } function throwError(error) { step("throw", error); } \
+next(undefined); }); }; }`;
+export const WRAP_ASYNC_GENERATOR_PREFIX = ` function _wrapAsyncGenerator(fn) { \
+return function () { var gen = fn.apply(this, arguments); var requests = []; \
+function send(key, arg) { return new Promise(function (resolve, reject) { \
+requests.push({key: key, arg: arg, resolve: resolve, reject: reject}); \
+if (requests.length === 1) { resume(key, arg); } }); } function resume(key, arg) { try { \
+var info = gen[key](arg); } catch (error) { settle(true, error); return; } \
+var value = info.value; var isAwait = value != null && \
+Object.prototype.hasOwnProperty.call(value, "__await"); \
+Promise.resolve(isAwait ? value.__await : value).then(function (resolvedValue) { if (isAwait) { \
+resume("next", resolvedValue); } else { settle(false, {value: resolvedValue, done: info.done}); } \
+}, function (error) { resume("throw", error); }); } function settle(isError, result) { \
+var request = requests.shift(); if (isError) { request.reject(result); } else { \
+request.resolve(result); } if (requests.length > 0) { resume(requests[0].key, requests[0].arg); } \
+} var asyncGen = { next: function (value) { return send("next", value); \
+}, throw: function (value) { return send("throw", value); }, return: function (value) { \
+return send("return", value); }, }; \
+asyncGen[(typeof Symbol === "function" && Symbol.asyncIterator) || "@@asyncIterator"] = function \
+() { return this; }; return asyncGen; }; }`;
+export const AWAIT_ASYNC_GENERATOR_PREFIX = ` function _awaitAsyncGenerator(value) { \
+return {__await: value}; }`;
+export const ASYNC_ITERATOR_PREFIX = ` function _asyncIterator(iterable) { \
+var method = iterable[(typeof Symbol === "function" && Symbol.asyncIterator) || \
+"@@asyncIterator"]; if (method != null) { return method.call(iterable); } \
+method = typeof Symbol === "function" ? iterable[Symbol.iterator] : null; if (method == null) { \
+throw new TypeError("Object is not async iterable"); } var iterator = method.call(iterable); \
+function wrap(result) { return Promise.resolve(result.value).then(function (value) { \
+return {value: value, done: result.done}; }); } return { next: function (value) { \
+return wrap(iterator.next(value)); }, return: iterator.return && function (value) { \
+return wrap(iterator.return(value)); }, }; }`;
+export const CLASS_PRIVATE_FIELD_GET_PREFIX = ` function _classPrivateFieldGet(receiver, privateMap) { \
+if (!privateMap.has(receiver)) { throw new TypeError("attempted to get private field on non-instance"); } \
+var descriptor = privateMap.get(receiver); \
+return descriptor.get ? descriptor.get.call(receiver) : descriptor.value; }`;
+export const CLASS_PRIVATE_FIELD_REF_PREFIX = ` function _classPrivateFieldRef(receiver, privateMap) { \
+if (!privateMap.has(receiver)) { throw new TypeError("attempted to use private field on non-instance"); } \
+var descriptor = privateMap.get(receiver); \
+return { get value() { return descriptor.get ? descriptor.get.call(receiver) : descriptor.value; }, \
+set value(value) { if (descriptor.set) { descriptor.set.call(receiver, value); } \
+else if (descriptor.writable) { descriptor.value = value; } \
+else { throw new TypeError("attempted to set read only private field"); } }, }; }`;
+export const DEFINE_PROPERTY_PREFIX = ` function _defineProperty(obj, key, value) { \
+Object.defineProperty(obj, key, { value: value, enumerable: true, configurable: true, writable: true, }); }`;
+export const IMPORT_META_URL_PREFIX = ` function _importMetaUrl(module) { \
+if (typeof module.uri === "string") { return typeof document === "undefined" ? module.uri : \
+new URL(module.uri, document.baseURI).href; } if (typeof module.filename !== "string") { \
+throw new Error("import.meta.url is only available in Node and AMD modules."); } \
+var url = require("url"); if (url.pathToFileURL) { return url.pathToFileURL(module.filename).href; } \
+var path = module.filename.replace(/\\\\/g, "/"); return "file://" + (path[0] === "/" ? "" : "/") + \
+encodeURI(path).replace(/[?#]/g, encodeURIComponent); }`;
@@ -0,0 +1,398 @@
+import * as assert from "assert";
+
+import {transform} from "../src";
+import {
+  ASYNC_TO_GENERATOR_PREFIX,
+  CLASS_PRIVATE_FIELD_GET_PREFIX,
+  CLASS_PRIVATE_FIELD_REF_PREFIX,
+} from "./prefixes";
+import {assertResult} from "./util";
+
+describe("private class members", () => {
+  it("initializes private fields in the constructor", () => {
+    assertResult(
+      `
+      class A {
+        #x = 1;
+        #y;
+        getX() {
+          return this.#x;
+        }
+      }
+    `,
+      `${CLASS_PRIVATE_FIELD_GET_PREFIX}
+      class A {constructor() { _x.set(this, {writable: true, value: 1});_y.set(this, {writable: true, value: void 0}); }
+        
+        
+        getX() {
+          return _classPrivateFieldGet(this, _x);
+        }
+      } const _x = new WeakMap(), _y = new WeakMap();
+    `,
+      ["private-class-members"],
+    );
+  });
+
+  it("transforms assignments and update expressions on private fields", () => {
+    assertResult(
+      `
+      class A {
+        #x = 1;
+        f(other) {
+          this.#x = 2;
+          this.#x += other.#x;
+          this.#x++;
+          --other.#x;
+          return this.#x.toString();
+        }
+      }
+    `,
+      `${CLASS_PRIVATE_FIELD_GET_PREFIX}${CLASS_PRIVATE_FIELD_REF_PREFIX}
+      class A {constructor() { _x.set(this, {writable: true, value: 1}); }
+        
+        f(other) {
+          _classPrivateFieldRef(this, _x).value = 2;
+          _classPrivateFieldRef(this, _x).value += _classPrivateFieldGet(other, _x);
+          _classPrivateFieldRef(this, _x).value++;
+          --_classPrivateFieldRef(other, _x).value;
+          return _classPrivateFieldGet(this, _x).toString();
+        }
+      } const _x = new WeakMap();
+    `,
+      ["private-class-members"],
+    );
+  });
+
+  it("transforms private fields assigned by destructuring and for-of loops", () => {
+    assertResult(
+      `
+      class A {
+        #x = 1;
+        f(other, values) {
+          [this.#x, ...other.#x] = values;
+          ({a: this.#x, b: [other.#x] = []} = values);
+          for (this.#x of values) {}
+          values[this.#x] = [this.#x];
+        }
+      }
+    `,
+      `${CLASS_PRIVATE_FIELD_GET_PREFIX}${CLASS_PRIVATE_FIELD_REF_PREFIX}
+      class A {constructor() { _x.set(this, {writable: true, value: 1}); }
+        
+        f(other, values) {
+          [_classPrivateFieldRef(this, _x).value, ..._classPrivateFieldRef(other, _x).value] = values;
+          ({a: _classPrivateFieldRef(this, _x).value, b: [_classPrivateFieldRef(other, _x).value] = []} = values);
+          for (_classPrivateFieldRef(this, _x).value of values) {}
+          values[_classPrivateFieldGet(this, _x)] = [_classPrivateFieldGet(this, _x)];
+        }
+      } const _x = new WeakMap();
+    `,
+      ["private-class-members"],
+    );
+  });
+
+  it("moves private methods out of the class and calls them with the right this", () => {
+    assertResult(
+      `
+      class A {
+        #m(a) {
+          return a;
+        }
+        f(b) {
+          this.#m(1);
+          b.c.#m();
+        }
+      }
+    `,
+      `${CLASS_PRIVATE_FIELD_GET_PREFIX} var _obj;
+      class A {constructor() { _m.set(this, {value: _m2}); }
+
+
+
+        f(b) {
+          _classPrivateFieldGet(this, _m).call(this, 1);
+          _classPrivateFieldGet(_obj = b.c, _m).call(_obj);
+        }
+      } const _m = new WeakMap(); const _m2 = function(a) {
+          return a;
+        };
+    `,
+      ["private-class-members"],
+    );
+  });
+
+  it("combines private getters and setters into one descriptor", () => {
+    assertResult(
+      `
+      class A {
+        get #x() {
+          return 1;
+        }
+        set #x(value) {}
+      }
+    `,
+      `
+      class A {constructor() { _x.set(this, {get: _get_x, set: _set_x}); }
+
+
+
+
+      } const _x = new WeakMap(); const _get_x = function() {
+          return 1;
+        }; const _set_x = function(value) {};
+    `,
+      ["private-class-members"],
+    );
+  });
+
+  it("initializes static private members after the class", () => {
+    assertResult(
+      `
+      class A {
+        static #count = 0;
+        static #increment() {
+          A.#count++;
+        }
+      }
+    `,
+      `${CLASS_PRIVATE_FIELD_REF_PREFIX}
+      class A {
+        
+
+
+
+      } const _count = new WeakMap(), _increment = new WeakMap(); const _increment2 = function() {
+          _classPrivateFieldRef(A, _count).value++;
+        }; _increment.set(A, {value: _increment2}); _count.set(A, {writable: true, value: 0});
+    `,
+      ["private-class-members"],
+    );
+  });
+
+  it("handles static private fields in class expressions", () => {
+    assertResult(
+      `
+      const A = class {
+        static #x = 1;
+      };
+    `,
+      `
+      const A = (() => { let _class = class {
+        
+      }; const _x = new WeakMap(); _x.set(_class, {writable: true, value: 1}); return _class; })();
+    `,
+      ["private-class-members"],
+    );
+  });
+
+  it("declares private names for each evaluation of a class declaration", () => {
+    assertResult(
+      `
+      function makeClass(value) {
+        class A {
+          #x = value;
+          static getX(obj) {
+            return obj.#x;
+          }
+        }
+        return A;
+      }
+    `,
+      `${CLASS_PRIVATE_FIELD_GET_PREFIX}
+      function makeClass(value) {
+        class A {constructor() { _x.set(this, {writable: true, value: value}); }
+          
+          static getX(obj) {
+            return _classPrivateFieldGet(obj, _x);
+          }
+        } const _x = new WeakMap();
+        return A;
+      }
+    `,
+      ["private-class-members"],
+    );
+  });
+
+  it("declares private names for each evaluation of a class expression", () => {
+    assertResult(
+      `
+      function makeClass() {
+        return class {
+          #m() {}
+          f() {
+            this.#m();
+          }
+        };
+      }
+    `,
+      `${CLASS_PRIVATE_FIELD_GET_PREFIX}
+      function makeClass() {
+        return (() => { let _class = class {constructor() { _m.set(this, {value: _m2}); }
+
+          f() {
+            _classPrivateFieldGet(this, _m).call(this);
+          }
+        }; const _m = new WeakMap(); const _m2 = function() {}; return _class; })();
+      }
+    `,
+      ["private-class-members"],
+    );
+  });
+
+  it("transforms private brand checks", () => {
+    assertResult(
+      `
+      class A {
+        #x;
+        static isA(obj) {
+          return #x in obj;
+        }
+      }
+    `,
+      `
+      class A {constructor() { _x.set(this, {writable: true, value: void 0}); }
+        
+        static isA(obj) {
+          return _x.has( obj);
+        }
+      } const _x = new WeakMap();
+    `,
+      ["private-class-members"],
+    );
+  });
+
+  it("resolves private names to the innermost class declaring them", () => {
+    assertResult(
+      `
+      class A {
+        #x = 1;
+        f() {
+          return class B {
+            #x = 2;
+            g(a) {
+              return a.#x;
+            }
+          };
+        }
+      }
+    `,
+      `${CLASS_PRIVATE_FIELD_GET_PREFIX}
+      class A {constructor() { _x.set(this, {writable: true, value: 1}); }
+        
+        f() {
+          return (() => { let _class = class B {constructor() { _x2.set(this, {writable: true, value: 2}); }
+            
+            g(a) {
+              return _classPrivateFieldGet(a, _x2);
+            }
+          }; const _x2 = new WeakMap(); return _class; })();
+        }
+      } const _x = new WeakMap();
+    `,
+      ["private-class-members"],
+    );
+  });
+
+  it("removes types from private members", () => {
+    assertResult(
+      `
+      class A {
+        #x: number = 1;
+        #m<T>(a: T): T {
+          return a;
+        }
+      }
+    `,
+      `
+      class A {constructor() { _m.set(this, {value: _m2});_x.set(this, {writable: true, value: 1}); }
+        
+
+
+
+      } const _x = new WeakMap(), _m = new WeakMap(); const _m2 = function(a) {
+          return a;
+        };
+    `,
+      ["private-class-members", "typescript"],
+    );
+  });
+
+  it("compiles async private methods with async-to-generator", () => {
+    assertResult(
+      `
+      class A {
+        async #m() {
+          await this.#m();
+        }
+      }
+    `,
+      `${CLASS_PRIVATE_FIELD_GET_PREFIX}${ASYNC_TO_GENERATOR_PREFIX}
+      class A {constructor() { _m.set(this, {value: _m2}); }
+
+
+
+      } const _m = new WeakMap(); const _m2 = function() { return _asyncToGenerator(function* () {
+          (yield _classPrivateFieldGet(this, _m).call(this));
+        }).apply(this, arguments); };
+    `,
+      ["private-class-members", "async-to-generator"],
+    );
+  });
+
+  it("leaves private members in the class without the transform", () => {
+    assertResult(
+      `
+      class A {
+        #x = 1;
+        y = 2;
+        #m() {
+          return #x in this && this.#x;
+        }
+        f(a) {
+          return a?.#x;
+        }
+      }
+    `,
+      `
+      class A {constructor() { this.y = 2; }
+        #x = 1;
+        
+        #m() {
+          return #x in this && this.#x;
+        }
+        f(a) {
+          return a?.#x;
+        }
+      }
+    `,
+      [],
+    );
+  });
+
+  it("does not allow super within private methods", () => {
+    assert.throws(
+      () =>
+        transform("class A extends B { #m() { super.m(); } }", {
+          transforms: ["private-class-members"],
+        }),
+      /super is not supported within private methods/,
+    );
+  });
+
+  it("does not allow private names in optional chains", () => {
+    assert.throws(
+      () =>
+        transform("class A { #x; f(a) { return a?.b.#x; } }", {
+          transforms: ["private-class-members", "optional-chaining"],
+        }),
+      /Private names are not supported in optional chains/,
+    );
+    assert.throws(
+      () =>
+        transform("class A { #x; f(a) { return a?.#x; } }", {
+          transforms: ["private-class-members"],
+        }),
+      /Private names are not supported in optional chains/,
+    );
+  });
+});
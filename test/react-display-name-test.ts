@@ -18,7 +18,7 @@ describe("transform react-display-name", () => {
 
       const C = _react2.default.createClass({displayName: 'C',
         render() {
-          return _react2.default.createElement('div', {${devProps(6)}} );
+          return _react2.default.createElement('div', {${devProps(6, 18)}} );
         }
       });
     `,
@@ -43,7 +43,7 @@ describe("transform react-display-name", () => {
 
       const C = (0, _createreactclass2.default)({displayName: 'C',
         render() {
-          return _react2.default.createElement('div', {${devProps(7)}} );
+          return _react2.default.createElement('div', {${devProps(7, 18)}} );
         }
       });
     `,
@@ -70,7 +70,7 @@ describe("transform react-display-name", () => {
         displayName: 'Foo',
         
         render() {
-          return _react2.default.createElement('div', {${devProps(8)}} );
+          return _react2.default.createElement('div', {${devProps(8, 18)}} );
         }
       });
     `,
@@ -93,7 +93,7 @@ describe("transform react-display-name", () => {
 
       exports. default = _react2.default.createClass({
         render() {
-          return _react2.default.createElement('div', {${devProps(6)}} );
+          return _react2.default.createElement('div', {${devProps(6, 18)}} );
         }
       });
     `,
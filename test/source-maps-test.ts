@@ -0,0 +1,56 @@
+import * as assert from "assert";
+
+import {transform} from "../src";
+
+describe("source maps", () => {
+  it("maps each token to its original position", () => {
+    const source = `\
+import a from "./a";
+const x: number = a;
+`;
+    const result = transform(source, {
+      transforms: ["imports", "typescript"],
+      filePath: "input.ts",
+      sourceMapOptions: {compiledFilename: "output.js"},
+    });
+    assert.equal(
+      result.code,
+      `"use strict";var _a = require('./a');
+const x = _a.default;
+`,
+    );
+    assert.deepEqual(result.sourceMap, {
+      version: 3,
+      sources: ["input.ts"],
+      names: [],
+      mappings: "aAAc;AACd,MAAM,EAAU,EAAE,UAAC;AACnB",
+      file: "output.js",
+    });
+  });
+
+  it("maps tokens after a removed type annotation to their own position", () => {
+    const result = transform("const x: number = 1;\nconst y:number=2;", {
+      transforms: ["typescript"],
+      filePath: "input.ts",
+      sourceMapOptions: {compiledFilename: "output.js"},
+    });
+    assert.equal(result.code, "const x = 1;\nconst y=2;");
+    // The `=` in each line maps to its own column (16 and 14) rather than to the removed `:`.
+    assert.equal(
+      result.sourceMap!.mappings,
+      "AAAA,MAAM,EAAU,EAAE,CAAC;AACnB,MAAM,CAAQ,CAAC,CAAC,CAAC",
+    );
+  });
+
+  it("does not generate a source map by default", () => {
+    const result = transform("const x = 1;", {transforms: []});
+    assert.equal(result.sourceMap, undefined);
+  });
+
+  it("requires a file path when generating a source map", () => {
+    assert.throws(
+      () => transform("const x = 1;", {transforms: [], sourceMapOptions: {compiledFilename: "a"}}),
+      /filePath must be specified/,
+    );
+  });
+});
@@ -1,4 +1,4 @@
-import {ESMODULE_PREFIX, IMPORT_PREFIX} from "./prefixes";
+import {DEFINE_PROPERTY_PREFIX, ESMODULE_PREFIX, IMPORT_PREFIX} from "./prefixes";
 import {assertResult} from "./util";
 
 /**
@@ -345,6 +345,46 @@ describe("sucrase", () => {
     );
   });
 
+  it("defines class fields when useDefineForClassFields is enabled", () => {
+    assertResult(
+      `
+      class A extends B {
+        x = 1;
+        y;
+        ["a-b"] = 2;
+        static z = 3;
+      }
+    `,
+      `"use strict";${DEFINE_PROPERTY_PREFIX}
+      class A extends B {constructor(...args) { super(...args); _defineProperty(this, "x", 1);_defineProperty(this, "y", void 0);_defineProperty(this, "a-b", 2); }
+        
+        
+        
+        
+      } _defineProperty(A, "z", 3);
+    `,
+      ["jsx", "imports", "typescript"],
+      {useDefineForClassFields: true},
+    );
+  });
+
+  it("defines static fields in expression classes when useDefineForClassFields is enabled", () => {
+    assertResult(
+      `
+      const A = class {
+        static x;
+      }
+    `,
+      `"use strict";${DEFINE_PROPERTY_PREFIX} var _class;
+      const A = (_class = class {
+        
+      }, _defineProperty(_class, "x", void 0), _class)
+    `,
+      ["jsx", "imports", "typescript"],
+      {useDefineForClassFields: true},
+    );
+  });
+
   it("puts the prefix after a shebang if necessary", () => {
     assertResult(
       `#!/usr/bin/env node
@@ -179,10 +179,10 @@ describe("type transforms", () => {
         return x + 1;
       }
     `,
-      `${ESMODULE_PREFIX}
+      `${ESMODULE_PREFIX} exports.foo = foo;
        function foo(x) {
         return x + 1;
-      } exports.foo = foo;
+      }
     `,
     );
   });
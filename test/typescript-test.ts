@@ -1,5 +1,11 @@
-import {ESMODULE_PREFIX, IMPORT_PREFIX} from "./prefixes";
-import {assertResult} from "./util";
+import {
+  DECORATE_PREFIX,
+  DECORATOR_METADATA_PREFIX,
+  ESMODULE_PREFIX,
+  IMPORT_PREFIX,
+  JSX_PREFIX,
+} from "./prefixes";
+import {assertResult, devProps} from "./util";
 
 function assertTypeScriptResult(code: string, expectedResult: string): void {
   assertResult(code, expectedResult, ["jsx", "imports", "typescript"]);
@@ -232,10 +238,10 @@ describe("typescript transform", () => {
         return list.reduce((memo, item) => memo.concat(map(item)), [] as Array<U>);
       }
     `,
-      `"use strict";${ESMODULE_PREFIX}
+      `"use strict";${ESMODULE_PREFIX} exports.default = flatMap;
        function flatMap(list, map) {
         return list.reduce((memo, item) => memo.concat(map(item)), [] );
-      } exports.default = flatMap;
+      }
     `,
     );
   });
@@ -373,8 +379,8 @@ describe("typescript transform", () => {
       `"use strict";
       var Foo; (function (Foo) {
         const A = 0; Foo[Foo["A"] = A] = "A";
-        const B = A + 1; Foo[Foo["B"] = B] = "B";
-        const C = B + 1; Foo[Foo["C"] = C] = "C";
+        const B = 1; Foo[Foo["B"] = B] = "B";
+        const C = 2; Foo[Foo["C"] = C] = "C";
       })(Foo || (Foo = {}));
     `,
     );
@@ -417,8 +423,8 @@ describe("typescript transform", () => {
       `"use strict";
       var Foo; (function (Foo) {
         const A = 15.5; Foo[Foo["A"] = A] = "A";
-        Foo[Foo["Hello world"] = A / 2] = "Hello world";
-        Foo[Foo[""] = (A / 2) + 1] = "";
+        Foo[Foo["Hello world"] = 7.75] = "Hello world";
+        Foo[Foo[""] = 8.75] = "";
         const D = "foo".length; Foo[Foo["D"] = D] = "D";
         const E = D / D; Foo[Foo["E"] = E] = "E";
         Foo[Foo["!"] = E << E] = "!";
@@ -539,20 +545,161 @@ describe("typescript transform", () => {
     );
   });
 
-  it("treats const enums as regular enums", () => {
+  it("inlines const enum members and removes the enum", () => {
     assertTypeScriptResult(
       `
       const enum A {
         Foo,
         Bar,
       }
+      console.log(A.Foo, A["Bar"]);
     `,
       `"use strict";
-      var A; (function (A) {
-        const Foo = 0; A[A["Foo"] = Foo] = "Foo";
-        const Bar = Foo + 1; A[A["Bar"] = Bar] = "Bar";
+      
+
+
+
+      console.log(0 /* A.Foo */, 1 /* A.Bar */);
+    `,
+    );
+  });
+
+  it("parenthesizes negative const enum values when inlining them", () => {
+    assertTypeScriptResult(
+      `
+      const enum A {
+        X = -4,
+      }
+      console.log(a-A.X, -A.X);
+    `,
+      `"use strict";
+      
+
+
+      console.log(a-(-4) /* A.X */, -(-4) /* A.X */);
+    `,
+    );
+  });
+
+  it("handles escapes in string enum values", () => {
+    assertTypeScriptResult(
+      `
+      const enum A {
+        Q = "x\\"y",
+        B = "a\\\\b",
+      }
+      enum C {
+        Q = "x\\"y",
+      }
+      console.log(A.Q, A.B);
+    `,
+      `"use strict";
+      
+
+
+
+      var C; (function (C) {
+        const Q = "x\\"y"; C["Q"] = Q;
+      })(C || (C = {}));
+      console.log("x\\"y" /* A.Q */, "a\\\\b" /* A.B */);
+    `,
+    );
+  });
+
+  it("keeps negative zero in enum values", () => {
+    assertTypeScriptResult(
+      `
+      const enum A {
+        X = -0,
+      }
+      enum B {
+        Y = -0,
+      }
+      console.log(A.X);
+    `,
+      `"use strict";
+      
+
+
+      var B; (function (B) {
+        const Y = -0; B[B["Y"] = Y] = "Y";
+      })(B || (B = {}));
+      console.log((-0) /* A.X */);
+    `,
+    );
+  });
+
+  it("folds constant enum initializers", () => {
+    assertTypeScriptResult(
+      `
+      enum Flags {
+        A = 1 << 2,
+        B,
+        C = A | B,
+        D = -(2 ** 3),
+        E = Flags.A * 2,
+        F = "x" + "y",
+        G = f(),
+        H,
+      }
+    `,
+      `"use strict";
+      var Flags; (function (Flags) {
+        const A = 4; Flags[Flags["A"] = A] = "A";
+        const B = 5; Flags[Flags["B"] = B] = "B";
+        const C = 5; Flags[Flags["C"] = C] = "C";
+        const D = -8; Flags[Flags["D"] = D] = "D";
+        const E = 8; Flags[Flags["E"] = E] = "E";
+        const F = "xy"; Flags["F"] = F;
+        const G = f(); Flags[Flags["G"] = G] = "G";
+        const H = G + 1; Flags[Flags["H"] = H] = "H";
+      })(Flags || (Flags = {}));
+    `,
+    );
+  });
+
+  it("does not inline const enum members when the enum name is shadowed", () => {
+    assertTypeScriptResult(
+      `
+      const enum A {
+        X = 3,
+      }
+      function f(A) {
+        return A.X;
+      }
+      enum B {
+        Y = A.X,
+      }
+    `,
+      `"use strict";
+      
+
+
+      function f(A) {
+        return A.X;
+      }
+      var B; (function (B) {
+        const Y = 3; B[B["Y"] = Y] = "Y";
+      })(B || (B = {}));
+    `,
+    );
+  });
+
+  it("keeps exported const enums at runtime while inlining them", () => {
+    assertResult(
+      `
+      export const enum A {
+        X = 3,
+      }
+      console.log(A.X);
+    `,
+      `
+      export var A; (function (A) {
+        const X = 3; A[A["X"] = X] = "X";
       })(A || (A = {}));
+      console.log(3 /* A.X */);
     `,
+      ["typescript"],
     );
   });
 
@@ -567,7 +714,7 @@ describe("typescript transform", () => {
       `"use strict";${ESMODULE_PREFIX}
       var A; (function (A) {
         const Foo = 0; A[A["Foo"] = Foo] = "Foo";
-        const Bar = Foo + 1; A[A["Bar"] = Bar] = "Bar";
+        const Bar = 1; A[A["Bar"] = Bar] = "Bar";
       })(A || (exports.A = A = {}));
     `,
     );
@@ -584,7 +731,7 @@ describe("typescript transform", () => {
       `"use strict";${ESMODULE_PREFIX}
       var A; (function (A) {
         const Foo = 0; A[A["Foo"] = Foo] = "Foo";
-        const Bar = Foo + 1; A[A["Bar"] = Bar] = "Bar";
+        const Bar = 1; A[A["Bar"] = Bar] = "Bar";
       })(A || (exports.A = A = {}));
     `,
     );
@@ -742,4 +889,488 @@ describe("typescript transform", () => {
       ["typescript", "imports"],
     );
   });
+
+  it("preserves ES module syntax when the imports transform is disabled", () => {
+    assertResult(
+      `
+      import A, {b} from "./a";
+      export const x: number = new A(b);
+      export default x;
+    `,
+      `
+      import A, {b} from "./a";
+      export const x = new A(b);
+      export default x;
+    `,
+      ["typescript"],
+    );
+  });
+
+  it("removes type-only imports when the imports transform is disabled", () => {
+    assertResult(
+      `
+      import A from "./A";
+      import * as types from "./types";
+      import {B, c, D as E} from "./b";
+      import "./side-effect";
+      const a: A = c as types.T;
+      let e: E;
+    `,
+      `
+      
+      
+      import { c,} from "./b";
+      import "./side-effect";
+      const a = c ;
+      let e;
+    `,
+      ["typescript"],
+    );
+  });
+
+  it("removes type-only default and namespace bindings when the imports transform is disabled", () => {
+    assertResult(
+      `
+      import A, {b} from "./a";
+      import C, * as d from "./c";
+      const x: A = b(d);
+    `,
+      `
+      import {b} from "./a";
+      import * as d from "./c";
+      const x = b(d);
+    `,
+      ["typescript"],
+    );
+  });
+
+  it("handles import-equals declarations when the imports transform is disabled", () => {
+    assertResult(
+      `
+      import a = require("a");
+      import b = require("b");
+      import C = Foo.C;
+      export import D = Foo.D;
+      const x: b.T = a;
+      let y: C;
+    `,
+      `
+      const a = require("a");
+      
+      
+      export const D = Foo.D;
+      const x = a;
+      let y;
+    `,
+      ["typescript"],
+    );
+  });
+
+  it("keeps exported enums as ES exports when the imports transform is disabled", () => {
+    assertResult(
+      `
+      export enum A {
+        X
+      }
+    `,
+      `
+      export var A; (function (A) {
+        const X = 0; A[A["X"] = X] = "X";
+      })(A || (A = {}));
+    `,
+      ["typescript"],
+    );
+  });
+
+  it("does not resolve JSX through imports when the imports transform is disabled", () => {
+    assertResult(
+      `
+      import React from "react";
+      const e = <div />;
+    `,
+      `${JSX_PREFIX}
+      import React from "react";
+      const e = React.createElement('div', {${devProps(3, 17)}} );
+    `,
+      ["typescript", "jsx"],
+    );
+  });
+
+  it("compiles namespaces to IIFEs", () => {
+    assertTypeScriptResult(
+      `
+      namespace A {
+        export const x: number = 1, y = 2;
+        function f() {}
+        export function g() {}
+      }
+    `,
+      `"use strict";
+      var A; (function (A) {
+         A.x = 1, A.y = 2;
+        function f() {}
+         function g() {} A.g = g;
+      })(A || (A = {}));
+    `,
+    );
+  });
+
+  it("compiles dotted namespace names to nested IIFEs", () => {
+    assertTypeScriptResult(
+      `
+      namespace A.B {
+        export const x = 1;
+      }
+    `,
+      `"use strict";
+      var A; (function (A) {var B; (function (B) {
+         B.x = 1;
+      })(B = A.B || (A.B = {}));})(A || (A = {}));
+    `,
+    );
+  });
+
+  it("handles exported and nested namespaces", () => {
+    assertTypeScriptResult(
+      `
+      export namespace N {
+        export class C {}
+        export enum E { A }
+        export namespace M {
+          export let z = 3;
+        }
+        export import Q = N.M;
+      }
+    `,
+      `"use strict";${ESMODULE_PREFIX}
+      var N; (function (N) {
+         class C {} N.C = C;
+        var E; (function (E) { const A = 0; E[E["A"] = A] = "A"; })(E = N.E || (N.E = {}));
+        var M; (function (M) {
+           M.z = 3;
+        })(M = N.M || (N.M = {}));
+         const Q = N.Q = N.M;
+      })(N || (exports.N = N = {}));
+    `,
+    );
+  });
+
+  it("keeps exported namespaces as ES exports when the imports transform is disabled", () => {
+    assertResult(
+      `
+      export namespace N {
+        export const a = 1;
+      }
+    `,
+      `
+      export var N; (function (N) {
+         N.a = 1;
+      })(N || (N = {}));
+    `,
+      ["typescript"],
+    );
+  });
+
+  it("does not redeclare a class merged with a namespace", () => {
+    assertTypeScriptResult(
+      `
+      class Foo {}
+      namespace Foo {
+        export const a = 1;
+      }
+    `,
+      `"use strict";
+      class Foo {}
+      (function (Foo) {
+         Foo.a = 1;
+      })(Foo || (Foo = {}));
+    `,
+    );
+  });
+
+  it("assigns destructured exports in namespaces to the namespace", () => {
+    assertTypeScriptResult(
+      `
+      namespace N {
+        export const {a, b: [c], d = a, ...e} = o, f = c;
+      }
+    `,
+      `"use strict";
+      var N; (function (N) {
+         ({a: N.a, b: [N.c], d: N.d = N.a, ...N.e} = o), N.f = N.c;
+      })(N || (N = {}));
+    `,
+    );
+  });
+
+  it("updates the namespace when reassigning an exported variable", () => {
+    assertTypeScriptResult(
+      `
+      namespace N {
+        export let q = 1;
+        q = 2;
+        const o = {q};
+        function f(q) {
+          return q;
+        }
+      }
+    `,
+      `"use strict";
+      var N; (function (N) {
+         N.q = 1;
+        N.q = 2;
+        const o = {q: N.q};
+        function f(q) {
+          return q;
+        }
+      })(N || (N = {}));
+    `,
+    );
+  });
+
+  it("accesses exports of merged namespace declarations through the namespace", () => {
+    assertTypeScriptResult(
+      `
+      namespace A {
+        export function f() {}
+        export class C {}
+      }
+      namespace A {
+        f(new C());
+        const g = () => {
+          let C;
+          return C;
+        };
+      }
+    `,
+      `"use strict";
+      var A; (function (A) {
+         function f() {} A.f = f;
+         class C {} A.C = C;
+      })(A || (A = {}));
+      var A; (function (A) {
+        A.f(new A.C());
+        const g = () => {
+          let C;
+          return C;
+        };
+      })(A || (A = {}));
+    `,
+    );
+  });
+
+  it("removes namespaces that only contain types", () => {
+    assertTypeScriptResult(
+      `
+      namespace T {
+        export interface I {}
+        export type X = number;
+      }
+      declare namespace D {
+        const x: number;
+      }
+      const a = 1;
+    `,
+      `"use strict";
+      
+
+
+
+      
+
+
+      const a = 1;
+    `,
+    );
+  });
+
+  it("compiles class and member decorators", () => {
+    assertTypeScriptResult(
+      `
+      @Component({selector: "app"})
+      class A {
+        @Input() x: string;
+        @HostListener("click")
+        onClick() {}
+        @dec static get y() { return 1; }
+      }
+    `,
+      `"use strict";${DECORATE_PREFIX}
+      
+      let A = class A {
+         
+        
+        onClick() {}
+         static get y() { return 1; }
+      }; __decorate([Input()], A.prototype, "x", void 0); \
+__decorate([HostListener("click")], A.prototype, "onClick", null); \
+__decorate([dec], A, "y", null); \
+A = __decorate([Component({selector: "app"})], A);
+    `,
+    );
+  });
+
+  it("compiles parameter decorators", () => {
+    assertTypeScriptResult(
+      `
+      class A {
+        constructor(@Inject(B) private b: B) {}
+        m(x: number, @Optional() y) {}
+      }
+    `,
+      `"use strict";${DECORATE_PREFIX}
+      let A = class A {
+        constructor(  b) {;this.b = b;}
+        m(x,  y) {}
+      }; __decorate([__param(1, Optional())], A.prototype, "m", null); \
+A = __decorate([__param(0, Inject(B))], A);
+    `,
+    );
+  });
+
+  it("exports decorated classes", () => {
+    assertTypeScriptResult(
+      `
+      import {dec} from "./dec";
+      @dec
+      export default class A {}
+    `,
+      `"use strict";${ESMODULE_PREFIX}${DECORATE_PREFIX}
+      var _dec = require('./dec');
+      
+       let A = class A {}; A = __decorate([_dec.dec], A); exports.default = A;
+    `,
+    );
+  });
+
+  it("exports decorated classes when the imports transform is disabled", () => {
+    assertResult(
+      `
+      @dec
+      export default class A {}
+      @dec
+      export class B {}
+    `,
+      `${DECORATE_PREFIX}
+      
+       let A = class A {}; A = __decorate([dec], A); export default A;
+      
+      export let B = class B {}; B = __decorate([dec], B);
+    `,
+      ["typescript"],
+    );
+  });
+
+  it("imports decorator helpers from the runtime module with importHelpers", () => {
+    assertResult(
+      `
+      class A {
+        @dec m(@inject x) {}
+      }
+    `,
+      ` import {decorate as __decorate, param as __param} from "sucrase/helpers";
+      class A {
+         m( x) {}
+      } __decorate([dec, __param(0, inject)], A.prototype, "m", null);
+    `,
+      ["typescript"],
+      {importHelpers: true},
+    );
+  });
+
+  it("evaluates computed keys of decorated methods once", () => {
+    assertTypeScriptResult(
+      `
+      class A {
+        @dec ["computed" + k]() {}
+      }
+    `,
+      `"use strict";${DECORATE_PREFIX} var _key;
+      class A {
+         [_key = "computed" + k]() {}
+      } __decorate([dec], A.prototype, _key, null);
+    `,
+    );
+  });
+
+  it("compiles decorators on class expressions", () => {
+    assertTypeScriptResult(
+      `
+      const A = class {
+        @dec m() {}
+      };
+    `,
+      `"use strict";${DECORATE_PREFIX} var _class;
+      const A = (_class = class {
+         m() {}
+      }, __decorate([dec], _class.prototype, "m", null), _class);
+    `,
+    );
+  });
+
+  it("emits design:type metadata when enabled", () => {
+    assertResult(
+      `
+      class A {
+        @dec a: string;
+        @dec b: Foo;
+        @dec c: number[];
+        @dec d: string | null;
+        @dec m() {}
+      }
+    `,
+      `"use strict";${DECORATE_PREFIX}${DECORATOR_METADATA_PREFIX}
+      class A {
+         
+         
+         
+         
+         m() {}
+      } __decorate([dec, __metadata("design:type", String)], A.prototype, "a", void 0); \
+__decorate([dec, __metadata("design:type", typeof Foo === "undefined" ? Object : Foo)], \
+A.prototype, "b", void 0); \
+__decorate([dec, __metadata("design:type", Array)], A.prototype, "c", void 0); \
+__decorate([dec, __metadata("design:type", Object)], A.prototype, "d", void 0); \
+__decorate([dec, __metadata("design:type", Function)], A.prototype, "m", null);
+    `,
+      ["jsx", "imports", "typescript"],
+      {emitDecoratorMetadata: true},
+    );
+  });
+
+  it("handles async generator methods in classes with fields", () => {
+    assertTypeScriptResult(
+      `
+      class A {
+        x = 1;
+        static async *m() {}
+      }
+    `,
+      `"use strict";
+      class A {constructor() { this.x = 1; }
+        
+        static async *m() {}
+      }
+    `,
+    );
+  });
+
+  it("leaves type-only imports out of AMD dependencies", () => {
+    assertResult(
+      `
+      import {T} from "./types";
+      import a = require("a");
+      export const x: T = a;
+    `,
+      `define(["require", "exports", "module", "a"], function (require, exports, module) {"use strict";${ESMODULE_PREFIX}
+      
+      const a = require("a");
+       exports.x = a;
+    
+});
+`,
+      ["imports", "typescript"],
+      {moduleFormat: "amd"},
+    );
+  });
 });
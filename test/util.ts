@@ -1,15 +1,16 @@
 import * as assert from "assert";
 
-import {transform, Transform} from "../src";
+import {Options, transform, Transform} from "../src";
 
 export function assertResult(
   code: string,
   expectedResult: string,
   transforms: Array<Transform> = ["jsx", "imports"],
+  options: Partial<Options> = {},
 ): void {
-  assert.equal(transform(code, {transforms}), expectedResult);
+  assert.equal(transform(code, {...options, transforms}).code, expectedResult);
 }
 
-export function devProps(lineNumber: number): string {
-  return `__self: this, __source: {fileName: _jsxFileName, lineNumber: ${lineNumber}}`;
+export function devProps(lineNumber: number, columnNumber: number): string {
+  return `__self: this, __source: {fileName: _jsxFileName, lineNumber: ${lineNumber}, columnNumber: ${columnNumber}}`;
 }